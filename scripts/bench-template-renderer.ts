@@ -0,0 +1,151 @@
+/**
+ * Benchmarks the template renderer on large templates and batch rendering.
+ *
+ *   npm run bench:templates -- --size=1 --batch=200
+ *
+ * --size is the approximate template size in MB, --batch the number of customizations
+ * rendered against each template (as a mailing campaign would).
+ */
+import { TemplateField, FieldType } from '@/types'
+import {
+  compileTemplate,
+  getCompiledTemplate,
+  renderCompiledTemplate,
+  renderTemplate,
+  TemplateProfile,
+} from '@/lib/template-renderer'
+
+function argument(name: string, fallback: number): number {
+  const match = process.argv.find((arg) => arg.startsWith(`--${name}=`))
+  const value = match ? Number(match.split('=')[1]) : fallback
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+const SIZE_MB = argument('size', 1)
+const BATCH = argument('batch', 200)
+// Re-parsing for every customization is slow; time a sample and extrapolate
+const UNCACHED_SAMPLE = Math.min(BATCH, 10)
+
+function field(field_key: string, field_type: FieldType, default_value: string | null = null): TemplateField {
+  return {
+    id: field_key,
+    template_id: 'bench',
+    field_key,
+    label: field_key,
+    field_type,
+    default_value,
+    is_required: false,
+    display_order: 0,
+    options: null,
+    placeholder: null,
+    created_at: '',
+    updated_at: '',
+  }
+}
+
+const FIELDS = [
+  field('headline', 'text', 'Just Listed'),
+  field('price', 'text'),
+  field('address', 'text'),
+  field('hero_image', 'image'),
+  field('accent_color', 'color', '#1d4ed8'),
+  field('listing_url', 'url'),
+  field('features', 'textarea'),
+]
+
+const PROFILE: TemplateProfile = {
+  fields: [field('agent_name', 'text'), field('phone', 'phone'), field('brokerage_logo', 'image')],
+  values: { agent_name: 'Jane Doe', phone: '5551234567', brokerage_logo: 'https://example.com/logo.png' },
+}
+
+// Blocks are repeated until the template reaches the requested size
+const PLAIN_BLOCK = `<section class="card" style="border-color: {{accent_color}}">
+  <img src="{{hero_image}}" alt="{{address}}">
+  <h2>{{headline}}</h2>
+  <p class="price">{{price}}</p>
+  <p>{{address}} - call {{agent_name}} at {{phone}}</p>
+  <a href="{{listing_url}}">View listing</a>
+</section>
+`
+
+const LOGIC_BLOCK = `<section class="card" style="border-color: {{accent_color}}">
+  {{#if hero_image}}<img src="{{hero_image}}" alt="{{address ?? "Listing photo"}}">{{/if}}
+  <h2>{{headline | upper}}</h2>
+  <p class="price">{{price | currency}}</p>
+  <ul>{{#each features}}<li data-index="{{@index}}">{{this}}</li>{{/each}}</ul>
+  <p>{{profile.agent_name}} - {{profile.phone | format_phone}}</p>
+  {{#if listing_url}}<a href="{{listing_url}}">View listing</a>{{else}}<span>Coming soon</span>{{/if}}
+  <img src="{{profile.brokerage_logo}}" alt="">
+</section>
+`
+
+function buildTemplate(block: string): string {
+  const head = `<!DOCTYPE html><html><head><style>.card { color: {{accent_color}}; }</style></head><body>\n`
+  const repeats = Math.max(1, Math.round((SIZE_MB * 1024 * 1024) / block.length))
+  return `${head}${block.repeat(repeats)}</body></html>`
+}
+
+function valuesFor(index: number): Record<string, string> {
+  return {
+    price: String(450000 + index * 1000),
+    address: `${100 + index} Main Street, Springfield`,
+    hero_image: `https://example.com/listings/${index}.jpg`,
+    listing_url: `https://example.com/listings/${index}`,
+    features: '3 bedrooms\n2 bathrooms\nRenovated kitchen\nTwo-car garage',
+    headline: index % 2 === 0 ? 'Open House Sunday' : '',
+  }
+}
+
+function time<T>(run: () => T): { ms: number; result: T } {
+  const start = performance.now()
+  const result = run()
+  return { ms: performance.now() - start, result }
+}
+
+function median(samples: number[]): number {
+  const sorted = [...samples].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+const ms = (value: number) => `${value.toFixed(1)} ms`
+
+const rows: Record<string, Record<string, string>> = {}
+
+for (const [name, block] of [['plain', PLAIN_BLOCK], ['logic', LOGIC_BLOCK]] as const) {
+  const htmlContent = buildTemplate(block)
+  const template = { id: `bench-${name}`, updated_at: new Date().toISOString(), html_content: htmlContent }
+
+  const compile = time(() => compileTemplate(htmlContent, FIELDS))
+
+  // First call parses and fills the cache; the batch below reuses it
+  getCompiledTemplate(template, FIELDS)
+
+  const perRender: number[] = []
+  let outputBytes = 0
+  const batch = time(() => {
+    for (let i = 0; i < BATCH; i++) {
+      const { ms: renderMs, result } = time(() =>
+        renderCompiledTemplate(getCompiledTemplate(template, FIELDS), valuesFor(i), PROFILE)
+      )
+      perRender.push(renderMs)
+      outputBytes += result.length
+    }
+  })
+
+  const uncached = time(() => {
+    for (let i = 0; i < UNCACHED_SAMPLE; i++) {
+      renderTemplate(htmlContent, valuesFor(i), FIELDS, PROFILE)
+    }
+  })
+
+  rows[name] = {
+    'template size': `${(htmlContent.length / 1024 / 1024).toFixed(2)} MB`,
+    compile: ms(compile.ms),
+    'render (median)': ms(median(perRender)),
+    [`batch of ${BATCH} (cached)`]: ms(batch.ms),
+    [`batch of ${BATCH} (re-parsed)`]: `~${ms((uncached.ms / UNCACHED_SAMPLE) * BATCH)}`,
+    throughput: `${(outputBytes / 1024 / 1024 / (batch.ms / 1000)).toFixed(1)} MB/s`,
+  }
+}
+
+console.table(rows)
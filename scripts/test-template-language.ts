@@ -0,0 +1,306 @@
+/**
+ * Checks the template language: parsing and syntax errors, filters, fallbacks, {{#if}} and
+ * {{#each}}, and lookups that must never reach object prototypes.
+ *
+ *   npm run test:templates
+ *
+ * Exits non-zero when a check fails.
+ */
+import { TemplateField, FieldType } from '@/types'
+import { renderTemplate, TemplateProfile } from '@/lib/template-renderer'
+import {
+  collectTemplateFieldKeys,
+  parseTemplate,
+  renderTemplateNodes,
+  toTemplateList,
+  usesTemplateLogic,
+  TemplateSyntaxError,
+  TemplateValue,
+} from '@/lib/template-language'
+
+interface TestCase {
+  name: string
+  run: () => void
+}
+
+const cases: TestCase[] = []
+
+function test(name: string, run: () => void) {
+  cases.push({ name, run })
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+function assertEqual(actual: unknown, expected: unknown) {
+  assert(
+    JSON.stringify(actual) === JSON.stringify(expected),
+    `expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+  )
+}
+
+/**
+ * Renders with the template language alone, without HTML escaping
+ */
+function render(source: string, values: Record<string, TemplateValue> = {}): string {
+  return renderTemplateNodes(parseTemplate(source), { values, escape: (value) => value })
+}
+
+function field(field_key: string, field_type: FieldType, default_value: string | null = null): TemplateField {
+  return {
+    id: field_key,
+    template_id: 'test',
+    field_key,
+    label: field_key,
+    field_type,
+    default_value,
+    is_required: false,
+    display_order: 0,
+    options: null,
+    placeholder: null,
+    created_at: '',
+    updated_at: '',
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Syntax errors
+// ---------------------------------------------------------------------------
+
+const SYNTAX_ERRORS: { source: string; reason: string; line: number; column: number }[] = [
+  { source: 'Hello {{name', reason: 'Unclosed "{{"', line: 1, column: 7 },
+  { source: '{{ name ?? "x }}', reason: 'Unclosed "{{"', line: 1, column: 1 },
+  { source: 'a\n  {{#if items}}x', reason: '"{{#if}}" is never closed', line: 2, column: 3 },
+  { source: '{{#if a}}x{{/each}}', reason: '"{{/each}}" does not match "{{#if}}" opened on line 1', line: 1, column: 11 },
+  { source: '{{/if}}', reason: '"{{/if}}" has no matching opening block', line: 1, column: 1 },
+  { source: '{{else}}', reason: '"{{else}}" must be inside an {{#if}} block', line: 1, column: 1 },
+  { source: '{{#each a}}{{else}}{{/each}}', reason: '"{{else}}" must be inside an {{#if}} block', line: 1, column: 12 },
+  { source: '{{#if a}}{{else}}{{else}}{{/if}}', reason: '"{{else}}" must be inside an {{#if}} block', line: 1, column: 18 },
+  { source: '\n\n{{#if}}{{/if}}', reason: '{{#if}} needs a field to test', line: 3, column: 1 },
+  { source: '{{#each a b}}{{/each}}', reason: '{{#each}} needs a single field name', line: 1, column: 1 },
+  { source: '{{#unless a}}{{/unless}}', reason: 'Unknown block "{{#unless}}" (expected #if or #each)', line: 1, column: 1 },
+  { source: '{{name ?? }}', reason: 'Expected a field name or a quoted string', line: 1, column: 10 },
+  { source: '{{name name}}', reason: 'Expected "|" or "??"', line: 1, column: 8 },
+  { source: '{{name |}}', reason: 'Expected a filter name after "|"', line: 1, column: 8 },
+  { source: '{{name | constructor}}', reason: 'Unknown filter "constructor" (available: currency, upper, lower, format_phone)', line: 1, column: 10 },
+  { source: '{{ 1 }}', reason: 'Unexpected character "1"', line: 1, column: 4 },
+]
+
+for (const { source, reason, line, column } of SYNTAX_ERRORS) {
+  test(`syntax error: ${JSON.stringify(source)}`, () => {
+    let error: unknown = null
+    try {
+      parseTemplate(source)
+    } catch (caught) {
+      error = caught
+    }
+    assert(error instanceof TemplateSyntaxError, `expected a TemplateSyntaxError, got ${error}`)
+    assertEqual({ reason: error.reason, line: error.line, column: error.column }, { reason, line, column })
+  })
+}
+
+test('templates without tags parse as text', () => {
+  assertEqual(render('<p>No placeholders { here }</p>'), '<p>No placeholders { here }</p>')
+  assertEqual(render(''), '')
+})
+
+// ---------------------------------------------------------------------------
+// Values, fallbacks and filters
+// ---------------------------------------------------------------------------
+
+test('substitution', () => {
+  assertEqual(render('Hi {{ name }}!', { name: 'Jane' }), 'Hi Jane!')
+  assertEqual(render('Hi {{name}}!'), 'Hi !')
+})
+
+test('fallbacks take the first non-empty operand', () => {
+  const source = '{{a ?? b ?? "none"}}'
+  assertEqual(render(source, { a: '', b: '  ' }), 'none')
+  assertEqual(render(source, { a: '', b: 'B' }), 'B')
+  assertEqual(render(source, { a: 'A', b: 'B' }), 'A')
+  assertEqual(render('{{a ?? \'it\\\'s\'}}'), "it's")
+  assertEqual(render('{{list ?? "empty"}}', { list: [] }), 'empty')
+})
+
+test('filters apply after the fallback, in order', () => {
+  assertEqual(render('{{a ?? "fallback" | upper}}'), 'FALLBACK')
+  assertEqual(render('{{a | upper | lower}}', { a: 'MiXeD' }), 'mixed')
+})
+
+test('currency', () => {
+  assertEqual(render('{{p | currency}}', { p: '450000' }), '$450,000')
+  assertEqual(render('{{p | currency}}', { p: '$1,234.5' }), '$1,234.50')
+  assertEqual(render('{{p | currency}}', { p: 'Call for price' }), 'Call for price')
+  assertEqual(render('{{p | currency}}', { p: '' }), '')
+})
+
+test('format_phone', () => {
+  assertEqual(render('{{p | format_phone}}', { p: '555.123.4567' }), '(555) 123-4567')
+  assertEqual(render('{{p | format_phone}}', { p: '1-555-123-4567' }), '+1 (555) 123-4567')
+  assertEqual(render('{{p | format_phone}}', { p: '+44 20 7946 0958' }), '+44 20 7946 0958')
+})
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+test('if and else', () => {
+  const source = '{{#if a}}yes{{else}}no{{/if}}'
+  assertEqual(render(source, { a: 'x' }), 'yes')
+  assertEqual(render(source, { a: '   ' }), 'no')
+  assertEqual(render(source, { a: [] }), 'no')
+  assertEqual(render(source, { a: ['x'] }), 'yes')
+  assertEqual(render(source), 'no')
+  assertEqual(render('{{#if a}}yes{{/if}}'), '')
+})
+
+test('if tests fallbacks and filtered values', () => {
+  assertEqual(render('{{#if a ?? b}}yes{{else}}no{{/if}}', { b: 'x' }), 'yes')
+  assertEqual(render('{{#if p | format_phone}}yes{{else}}no{{/if}}', { p: ' ' }), 'no')
+})
+
+test('nested if', () => {
+  const source = '{{#if a}}A{{#if b}}B{{else}}-{{/if}}{{else}}{{#if b}}b{{/if}}{{/if}}'
+  assertEqual(render(source, { a: '1', b: '1' }), 'AB')
+  assertEqual(render(source, { a: '1' }), 'A-')
+  assertEqual(render(source, { b: '1' }), 'b')
+  assertEqual(render(source), '')
+})
+
+test('each with this, this.key and @index', () => {
+  const items = [{ address: '1 Main St', price: '500000' }, { address: '2 Oak Ave', price: '' }]
+  assertEqual(
+    render('{{#each listings}}{{@index}}:{{this.address}} {{this.price ?? "TBD" | currency}};{{/each}}', { listings: items }),
+    '0:1 Main St $500,000;1:2 Oak Ave TBD;'
+  )
+  assertEqual(render('{{#each tags}}[{{this}}]{{/each}}', { tags: ['a', 'b'] }), '[a][b]')
+})
+
+test('each inside if and if inside each', () => {
+  const source = '{{#if title}}<h1>{{title}}</h1>{{/if}}{{#each items}}{{#if this.sold}}sold{{else}}#{{@index}}{{/if}} {{/each}}'
+  assertEqual(render(source, { items: [{ sold: 'yes' }, { sold: '' }, {}] }), 'sold #1 #2 ')
+})
+
+test('nested each over this.key, with bare names still reading fields', () => {
+  const rows = [{ cols: ['a', 'b'] }, { cols: ['c'] }]
+  assertEqual(render('{{#each rows}}[{{#each this.cols}}{{this}}{{sep}}{{/each}}]{{/each}}', { rows, sep: ',' }), '[a,b,][c,]')
+  // The inner loop's @index is its own
+  assertEqual(render('{{#each rows}}{{#each this.cols}}{{@index}}{{/each}}|{{/each}}', { rows }), '01|0|')
+})
+
+test('@index and this outside each are empty', () => {
+  assertEqual(render('[{{@index}}][{{this}}][{{this.x}}]'), '[][][]')
+})
+
+test('missing properties are empty', () => {
+  assertEqual(render('{{#each items}}[{{this.missing}}]{{/each}}', { items: [{ a: 'x' }, 'text'] }), '[][]')
+  assertEqual(render('[{{a.b.c}}]', { a: { b: 'not an object' } }), '[]')
+})
+
+test('list values come from arrays, JSON text or lines', () => {
+  assertEqual(toTemplateList('["x", 2, null, {"a": 1}]'), ['x', '2', '', { a: '1' }])
+  assertEqual(toTemplateList('first\n\n  second \r\nthird'), ['first', 'second', 'third'])
+  assertEqual(toTemplateList('[not json'), ['[not json'])
+  assertEqual(toTemplateList(''), [])
+  assertEqual(toTemplateList({ a: 'x' }), [{ a: 'x' }])
+  assertEqual(render('{{#each items}}<{{this}}>{{/each}}', { items: 'a\nb' }), '<a><b>')
+})
+
+test('each renders at most 500 items', () => {
+  const items = Array.from({ length: 600 }, (_, i) => String(i))
+  const output = render('{{#each items}}{{this}},{{/each}}', { items })
+  const rendered = output.split(',').filter(Boolean)
+  assertEqual(rendered.length, 500)
+  assertEqual(rendered[499], '499')
+})
+
+// ---------------------------------------------------------------------------
+// Prototype keys
+// ---------------------------------------------------------------------------
+
+const PROTOTYPE_KEYS = ['constructor', 'toString', '__proto__', 'hasOwnProperty', 'valueOf', '__defineGetter__']
+
+for (const key of PROTOTYPE_KEYS) {
+  test(`prototype key: ${key}`, () => {
+    const values: Record<string, TemplateValue> = { obj: { a: 'x' }, items: [{ a: 'x' }] }
+    assertEqual(render(`[{{${key}}}]`, values), '[]')
+    assertEqual(render(`[{{obj.${key}}}]`, values), '[]')
+    assertEqual(render(`[{{profile.${key}}}]`, { profile: {} }), '[]')
+    assertEqual(render(`{{#each items}}[{{this.${key}}}]{{/each}}`, values), '[]')
+    assertEqual(render(`[{{#each ${key}}}x{{/each}}]`, values), '[]')
+    assertEqual(render(`{{#if ${key}}}yes{{else}}no{{/if}}`, values), 'no')
+    assertEqual(renderTemplate(`[{{${key}}}][{{template.${key}}}]`, {}, []), '[][]')
+  })
+}
+
+test('own values named like prototype keys are rendered', () => {
+  assertEqual(render('{{constructor}} {{obj.toString}}', { constructor: 'c', obj: { toString: 't' } }), 'c t')
+  assertEqual(renderTemplate('{{constructor}}', { constructor: 'c' }, []), 'c')
+})
+
+// ---------------------------------------------------------------------------
+// Rendering with fields and profiles
+// ---------------------------------------------------------------------------
+
+const PROFILE: TemplateProfile = {
+  fields: [{ field_key: 'phone', field_type: 'phone' }, { field_key: 'agent_name', field_type: 'text' }],
+  values: { phone: '5551234567', agent_name: 'Profile Name' },
+}
+
+test('bare keys resolve to the value, then the field default, then the profile', () => {
+  const fields = [field('headline', 'text', 'Default headline'), field('agent_name', 'text')]
+  const source = '{{headline}}|{{agent_name}}|{{phone | format_phone}}'
+  assertEqual(renderTemplate(source, {}, fields, PROFILE), 'Default headline|Profile Name|(555) 123-4567')
+  assertEqual(renderTemplate(source, { headline: 'Sold!', agent_name: 'Jane' }, fields, PROFILE), 'Sold!|Jane|(555) 123-4567')
+})
+
+test('namespaced keys read one source only', () => {
+  const fields = [field('agent_name', 'text')]
+  const source = '{{template.agent_name ?? "none"}}|{{profile.agent_name}}'
+  assertEqual(renderTemplate(source, {}, fields, PROFILE), 'none|Profile Name')
+  assertEqual(renderTemplate(source, { agent_name: 'Jane' }, fields, PROFILE), 'Jane|Profile Name')
+})
+
+test('output is escaped for where it lands after a block', () => {
+  const html = renderTemplate('<div title="{{#if a}}x{{/if}}{{b}}">{{b}}</div>', { a: '1', b: '"><b>' }, [])
+  assertEqual(html, '<div title="x&quot;&gt;&lt;b&gt;">&quot;&gt;&lt;b&gt;</div>')
+})
+
+test('URL fields are limited to safe schemes', () => {
+  const fields = [field('link', 'url')]
+  assertEqual(renderTemplate('<a href="{{link}}">x</a>', { link: 'javascript:alert(1)' }, fields), '<a href="">x</a>')
+  assertEqual(renderTemplate('<a href="{{link}}">x</a>', { link: 'https://example.com/?a=1&b=2' }, fields), '<a href="https://example.com/?a=1&amp;b=2">x</a>')
+})
+
+// ---------------------------------------------------------------------------
+// Inspection
+// ---------------------------------------------------------------------------
+
+test('collectTemplateFieldKeys lists each field once, in order', () => {
+  const nodes = parseTemplate('{{a}}{{#if profile.b}}{{/if}}{{#each c}}{{this.d}}{{@index}}{{e ?? "x"}}{{/each}}{{a}}')
+  assertEqual(collectTemplateFieldKeys(nodes), ['a', 'profile.b', 'c', 'e'])
+})
+
+test('usesTemplateLogic', () => {
+  assertEqual(usesTemplateLogic(parseTemplate('{{a}} {{b}}')), false)
+  assertEqual(usesTemplateLogic(parseTemplate('{{a | upper}}')), true)
+  assertEqual(usesTemplateLogic(parseTemplate('{{a ?? "x"}}')), true)
+  assertEqual(usesTemplateLogic(parseTemplate('{{profile.phone}}')), true)
+  assertEqual(usesTemplateLogic(parseTemplate('{{#if a}}{{/if}}')), true)
+})
+
+// ---------------------------------------------------------------------------
+
+let failed = 0
+for (const { name, run } of cases) {
+  try {
+    run()
+  } catch (error) {
+    failed++
+    console.error(`✗ ${name}\n    ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+console.log(`${cases.length - failed} passed, ${failed} failed`)
+if (failed > 0) process.exit(1)
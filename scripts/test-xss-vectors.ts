@@ -0,0 +1,370 @@
+/**
+ * Checks template output escaping and the publish sanitizer against known XSS vectors.
+ *
+ *   npm run test:xss
+ *
+ * Each output is parsed the way a browser would parse it and inspected for anything that
+ * could run script, so the checks don't depend on the exact escaping used. Exits non-zero
+ * when a vector gets through.
+ */
+import * as cheerio from 'cheerio'
+import { escapeForContext, renderTemplate } from '@/lib/template-renderer'
+import { sanitizeHtml } from '@/lib/html-sanitizer'
+import { OutputContext, URL_ATTRIBUTES } from '@/lib/html-context'
+
+interface TestCase {
+  name: string
+  run: () => void
+}
+
+const cases: TestCase[] = []
+
+function test(name: string, run: () => void) {
+  cases.push({ name, run })
+}
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) throw new Error(message)
+}
+
+// Browsers drop whitespace and control characters before reading a URL scheme
+function hasScriptScheme(url: string): boolean {
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '').toLowerCase()
+  return /^(javascript|vbscript|livescript):/.test(normalized) ||
+    (normalized.startsWith('data:') && !/^data:image\/(png|jpe?g|gif|webp|avif);base64,/.test(normalized))
+}
+
+const SCRIPT_PAYLOADS = [
+  '<script>alert(1)</script>',
+  '"><img src=x onerror=alert(1)>',
+  "'><svg onload=alert(1)>",
+  '</textarea></style></script><script>alert(1)</script>',
+  '<!--<script>alert(1)//-->',
+]
+
+const URL_PAYLOADS = [
+  'javascript:alert(1)',
+  'JaVaScRiPt:alert(1)',
+  '  javascript:alert(1)',
+  'java\tscript:alert(1)',
+  'java\nscript:alert(1)',
+  '\u0001javascript:alert(1)',
+  '&#106;avascript:alert(1)',
+  'java&#x09;script:alert(1)',
+  'vbscript:msgbox(1)',
+  'data:text/html,<script>alert(1)</script>',
+  'data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+',
+]
+
+// ---------------------------------------------------------------------------
+// escapeForContext
+// ---------------------------------------------------------------------------
+
+const TEXT: OutputContext = { location: 'text' }
+
+for (const payload of SCRIPT_PAYLOADS) {
+  test(`text: ${payload}`, () => {
+    const $ = cheerio.load(`<p>${escapeForContext(payload, 'text', TEXT)}</p>`, null, false)
+    assert($('p').children().length === 0, 'payload created elements')
+    assert($('p').text() === payload, `text changed: ${$('p').text()}`)
+  })
+
+  test(`quoted attribute: ${payload}`, () => {
+    const context: OutputContext = { location: 'attribute', attribute: 'title', quoted: true, valueStart: true }
+    const $ = cheerio.load(`<div title="${escapeForContext(payload, 'text', context)}"></div>`, null, false)
+    assert($('*').length === 1, 'payload created elements')
+    assert(Object.keys($('div').attr() ?? {}).join() === 'title', 'payload added attributes')
+    assert($('div').attr('title') === payload, `value changed: ${$('div').attr('title')}`)
+  })
+
+  test(`single-quoted attribute: ${payload}`, () => {
+    const context: OutputContext = { location: 'attribute', attribute: 'title', quoted: true, valueStart: true }
+    const $ = cheerio.load(`<div title='${escapeForContext(payload, 'text', context)}'></div>`, null, false)
+    assert($('*').length === 1, 'payload created elements')
+    assert(Object.keys($('div').attr() ?? {}).join() === 'title', 'payload added attributes')
+  })
+}
+
+for (const payload of [...SCRIPT_PAYLOADS, 'x onmouseover=alert(1)', 'x\tonfocus=alert(1) autofocus', '`x` =y', '']) {
+  test(`unquoted attribute: ${JSON.stringify(payload)}`, () => {
+    const context: OutputContext = { location: 'attribute', attribute: 'title', quoted: false, valueStart: true }
+    const $ = cheerio.load(`<div title=${escapeForContext(payload, 'text', context)} class="x"></div>`, null, false)
+    assert($('*').length === 1, 'payload created elements')
+    assert(Object.keys($('div').attr() ?? {}).join() === 'title,class', 'payload added attributes')
+    assert($('div').attr('title') === payload, `value changed: ${$('div').attr('title')}`)
+  })
+}
+
+test('event handler attribute', () => {
+  const context: OutputContext = { location: 'attribute', attribute: 'onclick', quoted: true, valueStart: true }
+  const $ = cheerio.load(`<div onclick="${escapeForContext('alert(1)', 'text', context)}"></div>`, null, false)
+  assert(!$('div').attr('onclick'), 'handler kept its value')
+})
+
+for (const payload of URL_PAYLOADS) {
+  test(`url attribute: ${JSON.stringify(payload)}`, () => {
+    for (const quoted of [true, false]) {
+      const context: OutputContext = { location: 'attribute', attribute: 'href', quoted, valueStart: true }
+      const value = escapeForContext(payload, 'url', context)
+      const $ = cheerio.load(quoted ? `<a href="${value}">x</a>` : `<a href=${value}>x</a>`, null, false)
+      assert(!hasScriptScheme($('a').attr('href') ?? ''), `script URL kept: ${$('a').attr('href')}`)
+    }
+  })
+
+  test(`css url(): ${JSON.stringify(payload)}`, () => {
+    const context: OutputContext = { location: 'attribute', attribute: 'style', quoted: true, cssUrl: true, valueStart: true }
+    const $ = cheerio.load(`<div style="background: url(${escapeForContext(payload, 'image', context)})"></div>`, null, false)
+    const url = $('div').attr('style')?.match(/url\(([^)]*)\)$/)?.[1]
+    assert(url !== undefined, `url() was closed early: ${$('div').attr('style')}`)
+    assert(!hasScriptScheme(url), `script URL kept: ${url}`)
+  })
+}
+
+test('css url() cannot be closed', () => {
+  const context: OutputContext = { location: 'style', cssUrl: true, valueStart: true }
+  const value = escapeForContext('x) } body { background: red', 'image', context)
+  assert(!/[()'"\s]/.test(value), `url() breakout: ${value}`)
+})
+
+for (const payload of [
+  'red; background: url(javascript:alert(1))',
+  'expression(alert(1))',
+  'red } body { display: none',
+  'red</style><script>alert(1)</script>',
+  '"><script>alert(1)</script>',
+  'red /* comment',
+]) {
+  test(`css in style attribute: ${payload}`, () => {
+    const context: OutputContext = { location: 'attribute', attribute: 'style', quoted: true, valueStart: true }
+    const $ = cheerio.load(`<div style="color: ${escapeForContext(payload, 'text', context)}"></div>`, null, false)
+    const style = $('div').attr('style') ?? ''
+    assert($('*').length === 1, 'payload created elements')
+    assert(!/[;{}]/.test(style), `declaration breakout: ${style}`)
+  })
+
+  test(`css in style block: ${payload}`, () => {
+    const context: OutputContext = { location: 'style' }
+    const $ = cheerio.load(`<style>p { color: ${escapeForContext(payload, 'text', context)} }</style><p>x</p>`, null, false)
+    assert($('script').length === 0 && $('style').length === 1, 'payload closed the style block')
+    assert(($('style').text().match(/[{}]/g) ?? []).length === 2, `rule breakout: ${$('style').text()}`)
+  })
+}
+
+test('color fields only accept colors', () => {
+  const context: OutputContext = { location: 'style' }
+  assert(escapeForContext('red;}</style><script>alert(1)</script>', 'color', context) === '', 'invalid color kept')
+  assert(escapeForContext('#1d4ed8', 'color', context) === '#1d4ed8', 'valid color dropped')
+})
+
+for (const payload of [
+  ...SCRIPT_PAYLOADS,
+  '";alert(1);//',
+  "';alert(1);//",
+  '\\";alert(1);//',
+  '\u2028alert(1)',
+  '${alert(1)}',
+]) {
+  test(`script string: ${JSON.stringify(payload)}`, () => {
+    for (const quote of ['"', "'"]) {
+      const value = escapeForContext(payload, 'text', { location: 'script', script: 'string' })
+      const $ = cheerio.load(`<script>var x = ${quote}${value}${quote};</script>`, null, false)
+      assert($('script').length === 1 && $('*').length === 1, 'payload closed the script block')
+      const parsed = new Function(`${$('script').text()}; return x`)()
+      assert(parsed === payload, `string changed: ${JSON.stringify(parsed)}`)
+    }
+  })
+}
+
+// Values that break out of a script when escaped for the wrong place in it
+const SCRIPT_BREAKOUT_PAYLOADS = [
+  '1; alert(document.cookie)',
+  '";alert(1);//',
+  "';alert(1);//",
+  '`;alert(1);`',
+  '${alert(1)}',
+  '*/alert(1)/*',
+  '/;alert(1);/',
+  '\nalert(1)',
+  '\u2028alert(1)',
+  '</script><script>alert(1)</script>',
+]
+
+// Templates with the value at different places in a script, and what x should end up as
+const SCRIPT_TEMPLATES: { source: string; expected: (value: string) => unknown }[] = [
+  { source: '<script>var x = {{a}};</script>', expected: (value) => value },
+  { source: '<script>var x = "{{a}}";</script>', expected: (value) => value },
+  { source: "<script>var x = '{{a}}';</script>", expected: (value) => value },
+  { source: '<script>var x = "say \\"{{a}}\\"";</script>', expected: (value) => `say "${value}"` },
+  { source: '<script>var x = `{{a}}`;</script>', expected: (value) => value },
+  { source: '<script>var x = `a ${ {{a}} } b`;</script>', expected: (value) => `a ${value} b` },
+  { source: '<script>var x = `a ${"{{a}}"} b`;</script>', expected: (value) => `a ${value} b` },
+  { source: '<script>var x = { a: {{a}} }.a;</script>', expected: (value) => value },
+  { source: '<script>var x = 1; // {{a}}\n</script>', expected: () => 1 },
+  { source: '<script>var x = 1; /* {{a}} */</script>', expected: () => 1 },
+  { source: '<script>var x = /a{{a}}/.test("a");</script>', expected: () => true },
+  { source: '<script>var x = 4 / 2 / 1; var y = {{a}};</script>', expected: () => 2 },
+  { source: '<script>var s = "/"; var x = {{a}};</script>', expected: (value) => value },
+]
+
+for (const { source, expected } of SCRIPT_TEMPLATES) {
+  test(`script in template: ${source}`, () => {
+    for (const payload of SCRIPT_BREAKOUT_PAYLOADS) {
+      const html = renderTemplate(source, { a: payload }, [])
+      const $ = cheerio.load(html, null, false)
+      assert($('script').length === 1 && $('*').length === 1, `payload closed the script block: ${html}`)
+
+      let alerted = false
+      const alert = () => {
+        alerted = true
+      }
+      const x = new Function('alert', 'document', `${$('script').text()}; return x`)(alert, { cookie: '' })
+      assert(!alerted, `payload ran: ${html}`)
+      assert(x === expected(payload), `x is ${JSON.stringify(x)}: ${html}`)
+    }
+  })
+}
+
+// ---------------------------------------------------------------------------
+// sanitizeHtml
+// ---------------------------------------------------------------------------
+
+const ANIMATION_ELEMENTS = ['animate', 'set', 'animatemotion', 'animatetransform']
+
+/**
+ * Everything in the parsed document that could run script, described for the failure message
+ */
+function findUnsafe(html: string): string[] {
+  const $ = cheerio.load(html)
+  const found: string[] = []
+
+  $('*').each((_, el) => {
+    if (el.type !== 'tag') return
+    const tagName = el.name.toLowerCase()
+
+    if (['script', 'object', 'embed', 'applet', 'base', 'frame', 'frameset'].includes(tagName)) {
+      found.push(`<${tagName}>`)
+    }
+    if (tagName === 'meta' && /refresh/i.test(el.attribs['http-equiv'] ?? '')) {
+      found.push('meta refresh')
+    }
+    if (tagName === 'iframe' && !/^https:\/\//i.test(el.attribs.src ?? '')) {
+      found.push(`iframe src=${el.attribs.src}`)
+    }
+
+    for (const [name, value] of Object.entries(el.attribs)) {
+      const attribute = name.toLowerCase()
+      if (attribute.startsWith('on')) found.push(`${attribute} handler`)
+      if (attribute === 'srcdoc') found.push('srcdoc')
+      if (URL_ATTRIBUTES.has(attribute) && attribute !== 'srcset' && hasScriptScheme(value)) {
+        found.push(`${attribute}=${value}`)
+      }
+      if (attribute === 'srcset' && value.split(',').some((candidate) => hasScriptScheme(candidate.trim().split(/\s+/)[0] ?? ''))) {
+        found.push(`srcset=${value}`)
+      }
+      if (attribute === 'style' && /javascript:|expression\s*\(/i.test(value)) {
+        found.push(`style=${value}`)
+      }
+      if (ANIMATION_ELEMENTS.includes(tagName)) {
+        if (attribute === 'attributename' && /href$/i.test(value)) found.push(`<${tagName}> of ${value}`)
+        if (['values', 'to', 'from', 'by'].includes(attribute) && value.split(';').some(hasScriptScheme)) {
+          found.push(`<${tagName}> ${attribute}=${value}`)
+        }
+      }
+    }
+  })
+
+  return found
+}
+
+const SANITIZER_VECTORS = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=https://evil.example/x.js></SCRIPT>',
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JAVASCRIPT:alert(1)">x</a>',
+  '<a href="  javascript:alert(1)">x</a>',
+  '<a href="java\tscript:alert(1)">x</a>',
+  '<a href="java&#x09;script:alert(1)">x</a>',
+  '<a href="java&Tab;script:alert(1)">x</a>',
+  '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">x</a>',
+  '<a href="&#x6A;avascript&colon;alert(1)">x</a>',
+  '<a href="vbscript:msgbox(1)">x</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+  '<img src="data:image/svg+xml,<svg onload=alert(1)>">',
+  '<img src=x onerror=alert(1)>',
+  '<img src=x OnError="alert(1)">',
+  '<body onload=alert(1)><p>x</p></body>',
+  '<svg onload=alert(1)></svg>',
+  '<details open ontoggle=alert(1)>',
+  '<iframe srcdoc="&lt;script&gt;alert(1)&lt;/script&gt;"></iframe>',
+  '<iframe srcdoc="&lt;img src=x onerror=alert(1)&gt;" src="https://example.com"></iframe>',
+  '<iframe src="javascript:alert(1)"></iframe>',
+  '<iframe src="data:text/html,<script>alert(1)</script>"></iframe>',
+  '<iframe src="/api/customizations"></iframe>',
+  '<frameset><frame src="javascript:alert(1)"></frameset>',
+  '<svg><a><animate attributeName="href" values="javascript:alert(1)"/><text y="20">x</text></a></svg>',
+  '<svg><a><set attributeName="xlink:href" to="javascript:alert(1)"/><text y="20">x</text></a></svg>',
+  '<svg><a><animate attributeName="href" from="javascript:alert(1)" to="https://example.com"/></a></svg>',
+  '<svg><a href="#"><animate attributeName="HREF" values="https://a.example;javascript:alert(1)"/></a></svg>',
+  '<svg><animateMotion values="javascript:alert(1)"/></svg>',
+  '<svg><a xlink:href="javascript:alert(1)"><text y="20">x</text></a></svg>',
+  '<base href="https://evil.example/">',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<meta http-equiv="Refresh" content="0;url=https://evil.example">',
+  '<img srcset="https://example.com/a.png 1x, javascript:alert(1) 2x">',
+  '<img srcset="javascript:alert(1)">',
+  '<picture><source srcset="data:text/html,x 1x"></picture>',
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="javascript:alert(1)">',
+  '<form action="javascript:alert(1)"><button>x</button></form>',
+  '<button formaction="javascript:alert(1)">x</button>',
+  '<video poster="javascript:alert(1)"></video>',
+  '<div style="background:url(javascript:alert(1))">x</div>',
+  '<div style="width: expression(alert(1))">x</div>',
+  '<math><a href="javascript:alert(1)">x</a></math>',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>',
+]
+
+for (const vector of SANITIZER_VECTORS) {
+  test(`sanitizeHtml: ${vector}`, () => {
+    const sanitized = sanitizeHtml(vector)
+    const unsafe = findUnsafe(sanitized)
+    assert(unsafe.length === 0, `kept ${unsafe.join(', ')} in ${sanitized}`)
+    // The published page is parsed again by the browser
+    assert(findUnsafe(sanitizeHtml(sanitized)).length === 0, 'unsafe after a second pass')
+  })
+}
+
+test('sanitizeHtml keeps safe content', () => {
+  const html = [
+    '<a href="https://example.com/listing">Listing</a>',
+    '<a href="mailto:agent@example.com">Email</a>',
+    '<img src="data:image/png;base64,iVBORw0KGgo=" alt="">',
+    '<img srcset="https://example.com/a.png 1x, /b.png 2x">',
+    '<iframe src="https://www.youtube.com/embed/abc"></iframe>',
+    '<svg><rect><animate attributeName="opacity" values="0;1;0" dur="2s"/></rect></svg>',
+    '<div style="color: #1d4ed8">Styled</div>',
+  ].join('')
+  const $ = cheerio.load(sanitizeHtml(html), null, false)
+  assert($('a[href="https://example.com/listing"]').length === 1, 'https link removed')
+  assert($('a[href^="mailto:"]').length === 1, 'mailto link removed')
+  assert($('img[src^="data:image/png"]').length === 1, 'data image removed')
+  assert($('img[srcset]').length === 1, 'safe srcset removed')
+  assert($('iframe[src^="https://www.youtube.com"]').length === 1, 'https iframe removed')
+  assert($('animate').attr('attributeName') === 'opacity', 'opacity animation removed')
+  assert($('div[style]').length === 1, 'inline style removed')
+})
+
+// ---------------------------------------------------------------------------
+
+let failed = 0
+for (const { name, run } of cases) {
+  try {
+    run()
+  } catch (error) {
+    failed++
+    console.error(`✗ ${name}\n    ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+console.log(`${cases.length - failed} passed, ${failed} failed`)
+if (failed > 0) process.exit(1)
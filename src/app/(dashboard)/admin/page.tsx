@@ -12,7 +12,6 @@ interface Stats {
   templates: number
   designs: number
   users: number
-  aiProvider: string
 }
 
 interface DailyActivity {
@@ -20,31 +19,73 @@ interface DailyActivity {
   count: number
 }
 
-// Calculate estimated AI cost
-function calculateEstimatedCost(designCount: number, provider: string): number {
-  // Average tokens per design generation
-  const avgInputTokens = 3000  // HTML + prompt
-  const avgOutputTokens = 5000 // Generated HTML
+interface UsageBucket {
+  key: string
+  label: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
 
-  // Pricing per 1M tokens (as of 2024)
-  const pricing: Record<string, { input: number; output: number }> = {
-    anthropic: { input: 3.00, output: 15.00 },   // Claude Sonnet
-    openai: { input: 2.50, output: 10.00 },      // GPT-4o
+interface AIUsageSummary {
+  days: number
+  totals: {
+    calls: number
+    failedCalls: number
+    inputTokens: number
+    outputTokens: number
+    cost: number
+    avgLatencyMs: number
   }
+  byDay: UsageBucket[]
+  byUser: UsageBucket[]
+  byTemplate: UsageBucket[]
+  byProvider: UsageBucket[]
+}
 
-  const rates = pricing[provider] || pricing.anthropic
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`
+}
 
-  // Cost per design
-  const inputCost = (avgInputTokens * rates.input) / 1_000_000
-  const outputCost = (avgOutputTokens * rates.output) / 1_000_000
-  const costPerDesign = inputCost + outputCost
+function formatTokens(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000
+      ? `${(tokens / 1_000).toFixed(1)}k`
+      : String(tokens)
+}
 
-  return designCount * costPerDesign
+// Top spenders table used for the per-user / per-template / per-provider breakdowns
+function UsageTable({ title, rows }: { title: string; rows: UsageBucket[] }) {
+  return (
+    <Card>
+      <CardContent className="pt-5">
+        <p className="text-sm text-muted-foreground mb-4">{title}</p>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground/70">No AI usage yet</p>
+        ) : (
+          <div className="space-y-2">
+            {rows.slice(0, 5).map((row) => (
+              <div key={row.key} className="flex items-center justify-between gap-4 text-sm">
+                <span className="text-foreground truncate" title={row.label}>{row.label}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {row.calls} calls · {formatTokens(row.inputTokens + row.outputTokens)} tokens ·{' '}
+                  <span className="text-foreground">{formatCost(row.cost)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
 }
 
 export default function AdminDashboard() {
   const [stats, setStats] = useState<Stats | null>(null)
   const [dailyActivity, setDailyActivity] = useState<DailyActivity[]>([])
+  const [usage, setUsage] = useState<AIUsageSummary | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [chartView, setChartView] = useState<'weekly' | 'monthly'>('weekly')
 
@@ -54,13 +95,19 @@ export default function AdminDashboard() {
 
       try {
         // Fetch basic counts
-        const [templatesRes, designsRes, usersRes, settingsRes] = await Promise.all([
+        const [templatesRes, designsRes, usersRes, usageRes] = await Promise.all([
           supabase.from('listing_templates').select('id', { count: 'exact', head: true }),
           supabase.from('customizations').select('id', { count: 'exact', head: true }),
           supabase.from('profiles').select('id', { count: 'exact', head: true }),
-          supabase.from('app_settings').select('value').eq('key', 'ai_provider').single(),
+          fetch('/api/admin/ai-usage?days=30'),
         ])
 
+        // Real AI spend from the usage ledger
+        if (usageRes.ok) {
+          const result = await usageRes.json()
+          setUsage(result.data)
+        }
+
         // Fetch daily activity (designs created per day for the last 30 days)
         const thirtyDaysAgo = new Date()
         thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
@@ -100,7 +147,6 @@ export default function AdminDashboard() {
           templates: templatesRes.count || 0,
           designs: designsRes.count || 0,
           users: usersRes.count || 0,
-          aiProvider: settingsRes.data?.value?.provider || 'anthropic',
         })
       } catch (error) {
         console.error('Error fetching stats:', error)
@@ -130,7 +176,7 @@ export default function AdminDashboard() {
 
   const chartData = getChartData()
   const maxCount = Math.max(...chartData.map(d => d.count), 1)
-  const estimatedCost = stats ? calculateEstimatedCost(stats.designs, stats.aiProvider) : 0
+  const maxDailyCost = Math.max(...(usage?.byDay.map(d => d.cost) ?? []), 0.01)
 
   return (
     <div>
@@ -201,17 +247,17 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
 
-            {/* Estimated AI Cost */}
+            {/* AI Spend */}
             <Card>
               <CardContent className="pt-3">
                 <div className="flex items-start justify-between">
                   <div>
-                    <p className="text-sm text-muted-foreground mb-1">Est. AI Cost</p>
+                    <p className="text-sm text-muted-foreground mb-1">AI Spend</p>
                     <p className="text-xs text-muted-foreground/70 mb-3">
-                      Using {stats?.aiProvider === 'openai' ? 'GPT-4o' : 'Claude Sonnet'}
+                      Last 30 days · {usage?.totals.calls || 0} calls
                     </p>
                     <p className="text-4xl font-light text-foreground">
-                      ${estimatedCost.toFixed(2)}
+                      ${(usage?.totals.cost || 0).toFixed(2)}
                     </p>
                   </div>
                   <div className="w-10 h-10 rounded-lg bg-yellow-100 flex items-center justify-center">
@@ -278,6 +324,44 @@ export default function AdminDashboard() {
             </CardContent>
           </Card>
 
+          {/* AI Usage */}
+          <Card className="mb-6">
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between mb-6">
+                <p className="text-sm text-muted-foreground">AI spend per day (last 30 days)</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatTokens(usage?.totals.inputTokens || 0)} in · {formatTokens(usage?.totals.outputTokens || 0)} out ·
+                  avg {((usage?.totals.avgLatencyMs || 0) / 1000).toFixed(1)}s ·
+                  {' '}{usage?.totals.failedCalls || 0} failed
+                </p>
+              </div>
+
+              <div className="flex items-end justify-between gap-1 px-4" style={{ height: '160px' }}>
+                {(usage?.byDay ?? []).map((item) => {
+                  const barHeight = (item.cost / maxDailyCost) * 140
+                  return (
+                    <div
+                      key={item.key}
+                      className="flex-1 flex flex-col items-center justify-end h-full"
+                      title={`${item.key}: ${formatCost(item.cost)} (${item.calls} calls)`}
+                    >
+                      <div
+                        className="w-full bg-yellow-500/30 rounded-t transition-all hover:bg-yellow-500/50"
+                        style={{ height: `${Math.max(barHeight, 2)}px` }}
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-6">
+            <UsageTable title="Spend by user" rows={usage?.byUser ?? []} />
+            <UsageTable title="Spend by template" rows={usage?.byTemplate ?? []} />
+            <UsageTable title="Spend by provider" rows={usage?.byProvider ?? []} />
+          </div>
+
           {/* Quick Actions */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <Link href="/admin/templates">
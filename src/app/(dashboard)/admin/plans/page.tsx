@@ -4,15 +4,35 @@ import { useState, useEffect } from 'react'
 import { Spinner } from '@/components/ui/spinner'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
-import { Shield, Trash2, Plus, Check } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Shield, Trash2, Plus, Check, Gauge } from 'lucide-react'
 
 interface AllowedPlan {
   id: string
   memberstack_plan_id: string
   plan_name: string
+  monthly_generation_limit: number | null
+  monthly_token_limit: number | null
   created_at: string
 }
 
+// Form state for monthly AI limits; blank means unlimited
+interface QuotaDraft {
+  generations: string
+  tokens: string
+}
+
+function toQuotaDraft(generations: number | null, tokens: number | null): QuotaDraft {
+  return {
+    generations: generations === null ? '' : String(generations),
+    tokens: tokens === null ? '' : String(tokens),
+  }
+}
+
+function parseLimit(value: string): number | null {
+  return value.trim() === '' ? null : Math.max(0, Math.floor(Number(value)))
+}
+
 interface AvailablePlan {
   memberstack_plan_id: string
   plan_name: string
@@ -27,14 +47,34 @@ export default function AdminPlansPage() {
   const [addingPlanId, setAddingPlanId] = useState<string | null>(null)
   const [removingId, setRemovingId] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [quotaDrafts, setQuotaDrafts] = useState<Record<string, QuotaDraft>>({})
+  const [savingQuotaId, setSavingQuotaId] = useState<string | null>(null)
+  const [defaultQuota, setDefaultQuota] = useState<QuotaDraft>({ generations: '', tokens: '' })
+  const [isSavingDefaultQuota, setIsSavingDefaultQuota] = useState(false)
 
   const fetchPlans = async () => {
     try {
-      const res = await fetch('/api/admin/allowed-plans')
+      const [res, defaultQuotaRes] = await Promise.all([
+        fetch('/api/admin/allowed-plans'),
+        fetch('/api/settings?key=ai_default_quota'),
+      ])
       if (!res.ok) throw new Error('Failed to fetch plans')
       const { data } = await res.json()
-      setAllowed(data.allowed ?? [])
+      const allowedPlans: AllowedPlan[] = data.allowed ?? []
+      setAllowed(allowedPlans)
       setAvailable(data.availablePlans ?? [])
+      setQuotaDrafts(Object.fromEntries(allowedPlans.map((plan) => [
+        plan.id,
+        toQuotaDraft(plan.monthly_generation_limit, plan.monthly_token_limit),
+      ])))
+
+      if (defaultQuotaRes.ok) {
+        const { data: setting } = await defaultQuotaRes.json()
+        setDefaultQuota(toQuotaDraft(
+          setting?.value?.monthly_generation_limit ?? null,
+          setting?.value?.monthly_token_limit ?? null
+        ))
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load plans')
     } finally {
@@ -93,6 +133,66 @@ export default function AdminPlansPage() {
     }
   }
 
+  const updateQuotaDraft = (id: string, updates: Partial<QuotaDraft>) => {
+    setQuotaDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...updates } }))
+  }
+
+  const handleSaveQuota = async (id: string) => {
+    const draft = quotaDrafts[id]
+    if (!draft) return
+
+    setSavingQuotaId(id)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/admin/allowed-plans', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id,
+          monthly_generation_limit: parseLimit(draft.generations),
+          monthly_token_limit: parseLimit(draft.tokens),
+        }),
+      })
+
+      if (!res.ok) {
+        const { error: msg } = await res.json()
+        throw new Error(msg || 'Failed to save quota')
+      }
+
+      await fetchPlans()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save quota')
+    } finally {
+      setSavingQuotaId(null)
+    }
+  }
+
+  const handleSaveDefaultQuota = async () => {
+    setIsSavingDefaultQuota(true)
+    setError(null)
+
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          key: 'ai_default_quota',
+          value: {
+            monthly_generation_limit: parseLimit(defaultQuota.generations),
+            monthly_token_limit: parseLimit(defaultQuota.tokens),
+          },
+        }),
+      })
+
+      if (!res.ok) throw new Error('Failed to save default quota')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save default quota')
+    } finally {
+      setIsSavingDefaultQuota(false)
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -125,7 +225,7 @@ export default function AdminPlansPage() {
       <Card className="p-6 mb-6">
         <h2 className="text-lg font-medium text-foreground mb-1">Allowed Plans</h2>
         <p className="text-sm text-muted-foreground mb-4">
-          Users with any of these plans can access the app.
+          Users with any of these plans can access the app. Set monthly AI generation and token limits per plan (blank = unlimited).
           {allowed.length === 0 && ' No plans configured — all authenticated users have access.'}
         </p>
 
@@ -136,26 +236,54 @@ export default function AdminPlansPage() {
                 key={plan.id}
                 className="flex items-center justify-between p-3 rounded-lg border border-border bg-card"
               >
-                <div className="flex items-center gap-2">
-                  <Check className="w-4 h-4 text-green-500" />
-                  <span className="text-sm font-medium text-foreground">{plan.plan_name}</span>
-                  <span className="text-xs text-muted-foreground font-mono">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Check className="w-4 h-4 text-green-500 shrink-0" />
+                  <span className="text-sm font-medium text-foreground truncate">{plan.plan_name}</span>
+                  <span className="text-xs text-muted-foreground font-mono truncate">
                     {plan.memberstack_plan_id}
                   </span>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => handleRemove(plan.id)}
-                  disabled={removingId === plan.id}
-                  className="text-muted-foreground hover:text-destructive"
-                >
-                  {removingId === plan.id ? (
-                    <Spinner size="sm" />
-                  ) : (
-                    <Trash2 className="w-4 h-4" />
-                  )}
-                </Button>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={quotaDrafts[plan.id]?.generations ?? ''}
+                    onChange={(e) => updateQuotaDraft(plan.id, { generations: e.target.value })}
+                    placeholder="Unlimited"
+                    title="AI generations per month"
+                    className="w-28 h-8"
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    value={quotaDrafts[plan.id]?.tokens ?? ''}
+                    onChange={(e) => updateQuotaDraft(plan.id, { tokens: e.target.value })}
+                    placeholder="Unlimited"
+                    title="AI tokens per month"
+                    className="w-32 h-8"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSaveQuota(plan.id)}
+                    disabled={savingQuotaId === plan.id}
+                  >
+                    {savingQuotaId === plan.id ? <Spinner size="sm" /> : 'Save'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(plan.id)}
+                    disabled={removingId === plan.id}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    {removingId === plan.id ? (
+                      <Spinner size="sm" />
+                    ) : (
+                      <Trash2 className="w-4 h-4" />
+                    )}
+                  </Button>
+                </div>
               </div>
             ))}
           </div>
@@ -168,6 +296,45 @@ export default function AdminPlansPage() {
         )}
       </Card>
 
+      {/* AI Quotas */}
+      <Card className="p-6 mb-6">
+        <div className="flex items-center gap-2 mb-1">
+          <Gauge className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-medium text-foreground">Default AI Quota</h2>
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          Monthly AI generations and tokens for users whose plan has no quota row above.
+          Per-plan limits are set next to each allowed plan. Leave blank for unlimited; admins are never limited.
+        </p>
+        <div className="flex items-end gap-3">
+          <div>
+            <label className="text-xs text-muted-foreground">Generations / month</label>
+            <Input
+              type="number"
+              min="0"
+              value={defaultQuota.generations}
+              onChange={(e) => setDefaultQuota((prev) => ({ ...prev, generations: e.target.value }))}
+              placeholder="Unlimited"
+              className="w-40"
+            />
+          </div>
+          <div>
+            <label className="text-xs text-muted-foreground">Tokens / month</label>
+            <Input
+              type="number"
+              min="0"
+              value={defaultQuota.tokens}
+              onChange={(e) => setDefaultQuota((prev) => ({ ...prev, tokens: e.target.value }))}
+              placeholder="Unlimited"
+              className="w-40"
+            />
+          </div>
+          <Button onClick={handleSaveDefaultQuota} disabled={isSavingDefaultQuota}>
+            {isSavingDefaultQuota ? <Spinner size="sm" /> : 'Save Default'}
+          </Button>
+        </div>
+      </Card>
+
       {/* Available Plans from LL */}
       <Card className="p-6">
         <h2 className="text-lg font-medium text-foreground mb-1">Available Plans</h2>
@@ -8,6 +8,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { Plus, Pencil, Trash2, X, Check, ChevronDown, ChevronUp } from 'lucide-react'
 import { formatDateTime } from '@/lib/utils'
+import { PromptLayoutEditor } from '@/components/admin'
 
 interface SystemPrompt {
   id: string
@@ -273,6 +274,11 @@ export default function AdminPromptsPage() {
         </div>
       )}
 
+      {/* Section layout of the generated customization prompt */}
+      <div className="mt-10">
+        <PromptLayoutEditor />
+      </div>
+
       {/* Create/Edit Modal */}
       {showModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80">
@@ -4,27 +4,51 @@ import { useState, useEffect } from 'react'
 import { Spinner } from '@/components/ui/spinner'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
-import { Settings, Sparkles, Check } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Settings, Sparkles, Check, DollarSign, Plus, Trash2 } from 'lucide-react'
 
 type AIProvider = 'anthropic' | 'openai'
 
+// One editable row of the `ai_pricing` setting (USD per 1M tokens)
+interface PricingRow {
+  model: string
+  input: string
+  output: string
+}
+
 export default function AdminSettingsPage() {
   const [provider, setProvider] = useState<AIProvider>('anthropic')
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [saveSuccess, setSaveSuccess] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [pricingRows, setPricingRows] = useState<PricingRow[]>([])
+  const [isSavingPricing, setIsSavingPricing] = useState(false)
+  const [pricingSaveSuccess, setPricingSaveSuccess] = useState(false)
+  const [pricingError, setPricingError] = useState<string | null>(null)
 
   useEffect(() => {
     const fetchSettings = async () => {
       try {
-        const response = await fetch('/api/settings')
+        const [response, pricingResponse] = await Promise.all([
+          fetch('/api/settings'),
+          fetch('/api/settings?key=ai_pricing'),
+        ])
         if (response.ok) {
           const result = await response.json()
           if (result.data?.value?.provider) {
             setProvider(result.data.value.provider)
           }
         }
+        if (pricingResponse.ok) {
+          const result = await pricingResponse.json()
+          const models: Record<string, { input: number; output: number }> = result.data?.value?.models || {}
+          setPricingRows(Object.entries(models).map(([model, price]) => ({
+            model,
+            input: String(price.input),
+            output: String(price.output),
+          })))
+        }
       } catch (err) {
         console.error('Error fetching settings:', err)
       } finally {
@@ -63,6 +87,51 @@ export default function AdminSettingsPage() {
     }
   }
 
+  const updatePricingRow = (index: number, updates: Partial<PricingRow>) => {
+    setPricingRows(prev => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)))
+  }
+
+  const handleSavePricing = async () => {
+    setIsSavingPricing(true)
+    setPricingError(null)
+    setPricingSaveSuccess(false)
+
+    try {
+      const models: Record<string, { input: number; output: number }> = {}
+      for (const row of pricingRows) {
+        const model = row.model.trim()
+        if (!model) continue
+
+        const input = Number(row.input)
+        const output = Number(row.output)
+        if (!Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) {
+          throw new Error(`Invalid price for ${model}`)
+        }
+        models[model] = { input, output }
+      }
+
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          key: 'ai_pricing',
+          value: { models }
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save pricing')
+      }
+
+      setPricingSaveSuccess(true)
+      setTimeout(() => setPricingSaveSuccess(false), 3000)
+    } catch (err) {
+      setPricingError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSavingPricing(false)
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -171,6 +240,95 @@ export default function AdminSettingsPage() {
         </div>
       </Card>
 
+      <Card className="p-6 mt-6">
+        <div className="flex items-center gap-2 mb-2">
+          <DollarSign className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-medium text-foreground">Model Pricing</h2>
+        </div>
+        <p className="text-sm text-muted-foreground mb-6">
+          USD per 1M tokens, used to cost each AI call in the usage ledger. Model names match by prefix,
+          so &quot;gpt-4o&quot; also prices dated versions like &quot;gpt-4o-2024-08-06&quot;.
+        </p>
+
+        <div className="space-y-2 mb-4">
+          <div className="grid grid-cols-[1fr_120px_120px_40px] gap-2 text-xs text-muted-foreground">
+            <span>Model</span>
+            <span>Input</span>
+            <span>Output</span>
+            <span />
+          </div>
+          {pricingRows.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_120px_120px_40px] gap-2">
+              <Input
+                value={row.model}
+                onChange={(e) => updatePricingRow(index, { model: e.target.value })}
+                placeholder="claude-sonnet-4"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={row.input}
+                onChange={(e) => updatePricingRow(index, { input: e.target.value })}
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={row.output}
+                onChange={(e) => updatePricingRow(index, { output: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPricingRows(prev => prev.filter((_, i) => i !== index))}
+                title="Remove model"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPricingRows(prev => [...prev, { model: '', input: '0', output: '0' }])}
+          className="mb-6"
+        >
+          <Plus className="w-4 h-4" />
+          Add Model
+        </Button>
+
+        {pricingError && (
+          <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <p className="text-sm text-destructive">{pricingError}</p>
+          </div>
+        )}
+
+        {pricingSaveSuccess && (
+          <div className="mb-4 p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
+            <p className="text-sm text-green-600 dark:text-green-400">Pricing saved successfully!</p>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSavePricing}
+            disabled={isSavingPricing}
+          >
+            {isSavingPricing ? (
+              <>
+                <Spinner size="sm" className="mr-2" />
+                Saving...
+              </>
+            ) : (
+              'Save Pricing'
+            )}
+          </Button>
+        </div>
+      </Card>
+
       <Card className="p-6 mt-6">
         <h3 className="text-foreground font-medium mb-2">Environment Variables Required</h3>
         <p className="text-sm text-muted-foreground mb-4">
@@ -185,6 +343,10 @@ export default function AdminSettingsPage() {
             <code className="px-2 py-1 bg-muted rounded text-xs text-foreground">OPENAI_API_KEY</code>
             <span className="text-sm text-muted-foreground">- Required for OpenAI</span>
           </div>
+          <div className="flex items-center gap-2">
+            <code className="px-2 py-1 bg-muted rounded text-xs text-foreground">AI_PROVIDER</code>
+            <span className="text-sm text-muted-foreground">- Optional override; set to &quot;fixture&quot; to run the editor offline</span>
+          </div>
         </div>
       </Card>
     </div>
@@ -3,6 +3,7 @@
 import { useRouter } from 'next/navigation'
 import { AppRail } from '@/components/app-rail'
 import { NavTabs } from '@/components/nav-tabs'
+import { AIUsageMeter } from '@/components/ai-usage-meter'
 import { useTheme } from 'next-themes'
 import { createClient } from '@/lib/supabase/client'
 import {
@@ -172,6 +173,9 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
           <NavTabs />
           <div className="flex-1" />
 
+          {/* AI allowance remaining this month */}
+          {profile && <AIUsageMeter />}
+
           {/* Plan Badge */}
           {(profile?.plan_name || llProfile?.planName) && (
             <span className="hidden sm:inline-flex items-center rounded-full bg-purple-100 px-2.5 py-0.5 text-xs font-medium text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">
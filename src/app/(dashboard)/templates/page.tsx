@@ -8,6 +8,7 @@ import { Spinner } from '@/components/ui/spinner'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { LayoutTemplate, Search, Eye, X } from 'lucide-react'
+import { getPrintFormat, getPrintPixelSize } from '@/lib/print-formats'
 
 interface TemplateWithCampaign extends Template {
   campaign?: { id: string; name: string; color: string } | null
@@ -52,6 +53,9 @@ export default function DesignsPage() {
   }, [])
 
   // Filter templates
+  // Preview modal shows one page of the template's print size at half scale
+  const previewPage = getPrintPixelSize(getPrintFormat(previewTemplate?.size))
+
   const filteredTemplates = templates.filter((template) => {
     const matchesSearch =
       template.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -242,8 +246,8 @@ export default function DesignsPage() {
                 <div
                   className="bg-white shadow-2xl"
                   style={{
-                    width: '408px', // 816 * 0.5
-                    height: '528px', // 1056 * 0.5
+                    width: `${previewPage.width * 0.5}px`,
+                    height: `${previewPage.height * 0.5}px`,
                     borderRadius: '10px',
                     overflow: 'hidden',
                   }}
@@ -251,8 +255,8 @@ export default function DesignsPage() {
                   <iframe
                     srcDoc={previewTemplate.html_content}
                     style={{
-                      width: '816px',
-                      height: '1056px',
+                      width: `${previewPage.width}px`,
+                      height: `${previewPage.height}px`,
                       border: 'none',
                       transform: 'scale(0.5)',
                       transformOrigin: 'top left',
@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server'
+import { withAdminGuard } from '@/lib/api/middleware'
+import { apiSuccess, apiError } from '@/lib/api/response'
+import { createServiceClient } from '@/lib/supabase/server'
+
+const PAGE_SIZE = 1000
+const MAX_DAYS = 365
+
+interface UsageRow {
+  user_id: string | null
+  template_id: string | null
+  provider: string
+  model: string
+  input_tokens: number
+  output_tokens: number
+  cost_usd: number | string
+  latency_ms: number
+  status: string
+  created_at: string
+}
+
+interface UsageBucket {
+  key: string
+  label: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+function addToBucket(buckets: Map<string, UsageBucket>, key: string, row: UsageRow) {
+  const bucket = buckets.get(key) ?? { key, label: key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+  bucket.calls++
+  bucket.inputTokens += row.input_tokens
+  bucket.outputTokens += row.output_tokens
+  bucket.cost += Number(row.cost_usd)
+  buckets.set(key, bucket)
+}
+
+function sortByCost(buckets: Map<string, UsageBucket>) {
+  return Array.from(buckets.values()).sort((a, b) => b.cost - a.cost)
+}
+
+/** GET — AI spend from the usage ledger, grouped by day, user, template and provider */
+export const GET = withAdminGuard(async (request: NextRequest) => {
+  const days = Math.min(Math.max(Number(request.nextUrl.searchParams.get('days')) || 30, 1), MAX_DAYS)
+  const since = new Date()
+  // Buckets are UTC days, matching the created_at date prefix
+  since.setUTCDate(since.getUTCDate() - (days - 1))
+  since.setUTCHours(0, 0, 0, 0)
+
+  const admin = await createServiceClient()
+
+  // Page through the window; PostgREST caps each response at 1000 rows
+  const rows: UsageRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from('ai_usage')
+      .select('user_id, template_id, provider, model, input_tokens, output_tokens, cost_usd, latency_ms, status, created_at')
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) return apiError('Failed to fetch AI usage', 500)
+
+    rows.push(...(data as UsageRow[]))
+    if (data.length < PAGE_SIZE) break
+  }
+
+  const byDay = new Map<string, UsageBucket>()
+  for (let i = 0; i < days; i++) {
+    const date = new Date(since)
+    date.setUTCDate(since.getUTCDate() + i)
+    const key = date.toISOString().split('T')[0]
+    byDay.set(key, { key, label: key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 })
+  }
+
+  const byUser = new Map<string, UsageBucket>()
+  const byTemplate = new Map<string, UsageBucket>()
+  const byProvider = new Map<string, UsageBucket>()
+  let totalLatency = 0
+  let failedCalls = 0
+
+  for (const row of rows) {
+    addToBucket(byDay, row.created_at.split('T')[0], row)
+    addToBucket(byUser, row.user_id ?? 'unknown', row)
+    addToBucket(byTemplate, row.template_id ?? 'none', row)
+    addToBucket(byProvider, `${row.provider} / ${row.model}`, row)
+    totalLatency += row.latency_ms
+    if (row.status !== 'success') failedCalls++
+  }
+
+  // Resolve display labels for users and templates
+  const userIds = Array.from(byUser.keys()).filter((id) => id !== 'unknown')
+  const templateIds = Array.from(byTemplate.keys()).filter((id) => id !== 'none')
+
+  const [profilesRes, templatesRes] = await Promise.all([
+    userIds.length > 0
+      ? admin.from('profiles').select('id, email, full_name').in('id', userIds)
+      : Promise.resolve({ data: [] }),
+    templateIds.length > 0
+      ? admin.from('listing_templates').select('id, name').in('id', templateIds)
+      : Promise.resolve({ data: [] }),
+  ])
+
+  for (const profile of profilesRes.data ?? []) {
+    const bucket = byUser.get(profile.id)
+    if (bucket) bucket.label = profile.full_name || profile.email
+  }
+  for (const template of templatesRes.data ?? []) {
+    const bucket = byTemplate.get(template.id)
+    if (bucket) bucket.label = template.name
+  }
+  const unknownUser = byUser.get('unknown')
+  if (unknownUser) unknownUser.label = 'Unknown user'
+  const noTemplate = byTemplate.get('none')
+  if (noTemplate) noTemplate.label = 'No template'
+
+  return apiSuccess({
+    days,
+    totals: {
+      calls: rows.length,
+      failedCalls,
+      inputTokens: rows.reduce((sum, row) => sum + row.input_tokens, 0),
+      outputTokens: rows.reduce((sum, row) => sum + row.output_tokens, 0),
+      cost: rows.reduce((sum, row) => sum + Number(row.cost_usd), 0),
+      avgLatencyMs: rows.length > 0 ? Math.round(totalLatency / rows.length) : 0,
+    },
+    byDay: Array.from(byDay.values()),
+    byUser: sortByCost(byUser),
+    byTemplate: sortByCost(byTemplate),
+    byProvider: sortByCost(byProvider),
+  })
+})
@@ -105,3 +105,28 @@ export const DELETE = withAdminGuard(async (request: NextRequest) => {
   if (error) return apiError('Failed to remove plan', 500)
   return apiSuccess(null)
 })
+
+/** PATCH — set a plan's monthly AI quotas (null = unlimited) */
+export const PATCH = withAdminGuard(async (request: NextRequest) => {
+  const body = await request.json()
+  const { id, monthly_generation_limit, monthly_token_limit } = body
+
+  if (!id) return apiError('id is required', 400)
+
+  for (const limit of [monthly_generation_limit, monthly_token_limit]) {
+    if (limit !== null && (!Number.isInteger(limit) || limit < 0)) {
+      return apiError('Limits must be non-negative integers or null', 400)
+    }
+  }
+
+  const admin = await createServiceClient()
+  const { data, error } = await admin
+    .from('allowed_plans')
+    .update({ monthly_generation_limit, monthly_token_limit })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) return apiError('Failed to update plan quota', 500)
+  return apiSuccess(data)
+})
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { getAIProvider } from '@/lib/ai/provider'
+import { withUsageMetering } from '@/lib/ai/usage'
+import { reserveAIGeneration, quotaExceededResponse } from '@/lib/ai/quota'
+import { CUSTOMIZE_SYSTEM_PROMPT, buildCustomizePrompt, extractHtml, createHtmlDeltaFilter } from '@/lib/ai/prompts'
+import { sanitizeHtml } from '@/lib/html-sanitizer'
+import { createSseStream, SSE_HEADERS } from '@/lib/ai/sse'
+
+const customizeSchema = z.object({
+  htmlContent: z.string().min(1, 'HTML content is required'),
+  fields: z.array(z.object({
+    field_key: z.string(),
+    label: z.string(),
+    field_type: z.string(),
+  })).optional().default([]),
+  values: z.record(z.string(), z.string()).optional().default({}),
+  userPrompt: z.string().optional().default(''),
+  image: z.string().url().optional().nullable(),
+  stream: z.boolean().optional().default(false),
+  // Attribution for the usage ledger
+  customizationId: z.string().uuid().optional().nullable(),
+  templateId: z.string().uuid().optional().nullable(),
+})
+
+// POST /api/ai/customize - Regenerate the HTML with field values, images and instructions
+// With `stream: true` the response is an SSE stream of `delta` events followed by `done` ({ html })
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Parse and validate request body
+    const body = await request.json()
+    const validationResult = customizeSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { htmlContent, fields, values, userPrompt, image, stream, customizationId, templateId } = validationResult.data
+
+    // Enforce the plan's monthly generation / token quota, reserving this generation up front
+    const aiProvider = await getAIProvider(supabase)
+    const usageContext = { operation: 'customize' as const, userId: user.id, customizationId, templateId }
+    const reservation = await reserveAIGeneration(usageContext, aiProvider)
+    if (!reservation.usageId) {
+      return quotaExceededResponse(reservation.quota)
+    }
+
+    const provider = withUsageMetering(aiProvider, { ...usageContext, usageId: reservation.usageId })
+    const completionRequest = {
+      system: CUSTOMIZE_SYSTEM_PROMPT,
+      prompt: buildCustomizePrompt({ htmlContent, fields, values, userPrompt }),
+      imageUrl: image,
+    }
+
+    if (stream) {
+      const body = createSseStream(async (send, signal) => {
+        const filterDelta = createHtmlDeltaFilter()
+        const result = await provider.stream({ ...completionRequest, signal }, (delta) => {
+          const text = filterDelta(delta)
+          if (text) send({ event: 'delta', data: { text } })
+        })
+
+        const html = extractHtml(result.text)
+        if (!html) {
+          console.error(`[ai/customize] ${provider.name} returned no HTML`)
+          send({ event: 'error', data: { error: 'AI returned an empty response' } })
+          return
+        }
+
+        // Deltas are only previewed; the final HTML is what gets saved
+        send({ event: 'done', data: { html: sanitizeHtml(html), provider: provider.name, model: result.model } })
+      }, request.signal)
+
+      return new Response(body, { headers: SSE_HEADERS })
+    }
+
+    const result = await provider.complete({ ...completionRequest, signal: request.signal })
+
+    const html = extractHtml(result.text)
+
+    if (!html) {
+      console.error(`[ai/customize] ${provider.name} returned no HTML`)
+      return NextResponse.json(
+        { error: 'AI returned an empty response' },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ html: sanitizeHtml(html), provider: provider.name, model: result.model })
+  } catch (error) {
+    console.error('Error in POST /api/ai/customize:', error)
+    return NextResponse.json(
+      { error: 'Failed to customize template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { getAIProvider } from '@/lib/ai/provider'
+import { withUsageMetering } from '@/lib/ai/usage'
+import { reserveAIGeneration, quotaExceededResponse } from '@/lib/ai/quota'
+import { EDIT_SYSTEM_PROMPT, buildEditPrompt } from '@/lib/ai/prompts'
+import { EDIT_TOOLS, parseEditOperation, applyEditOperations, EditOperation } from '@/lib/ai/edit-operations'
+
+const editSchema = z.object({
+  htmlContent: z.string().min(1, 'HTML content is required'),
+  userPrompt: z.string().min(1, 'Edit instruction is required'),
+  // Attribution for the usage ledger
+  customizationId: z.string().uuid().optional().nullable(),
+  templateId: z.string().uuid().optional().nullable(),
+})
+
+// POST /api/ai/edit - Apply small, targeted edits to the current HTML via structured operations
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Parse and validate request body
+    const body = await request.json()
+    const validationResult = editSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { htmlContent, userPrompt, customizationId, templateId } = validationResult.data
+
+    // Enforce the plan's monthly generation / token quota, reserving this generation up front
+    const aiProvider = await getAIProvider(supabase)
+    const usageContext = { operation: 'edit' as const, userId: user.id, customizationId, templateId }
+    const reservation = await reserveAIGeneration(usageContext, aiProvider)
+    if (!reservation.usageId) {
+      return quotaExceededResponse(reservation.quota)
+    }
+
+    const provider = withUsageMetering(aiProvider, { ...usageContext, usageId: reservation.usageId })
+    const result = await provider.completeWithTools({
+      system: EDIT_SYSTEM_PROMPT,
+      prompt: buildEditPrompt({ htmlContent, userPrompt }),
+      tools: EDIT_TOOLS,
+      maxTokens: 4000,
+      signal: request.signal,
+    })
+
+    // Drop tool calls that don't validate rather than failing the whole edit
+    const operations: EditOperation[] = []
+    for (const call of result.toolCalls) {
+      const operation = parseEditOperation(call.name, call.input)
+      if (operation) {
+        operations.push(operation)
+      } else {
+        console.warn(`[ai/edit] ignoring invalid ${call.name} call from ${provider.name}`)
+      }
+    }
+
+    if (operations.length === 0) {
+      return NextResponse.json({
+        html: htmlContent,
+        operations: [],
+        message: result.text.trim() || 'No changes were made',
+        provider: provider.name,
+        model: result.model,
+      })
+    }
+
+    const { html, applied } = applyEditOperations(htmlContent, operations)
+
+    return NextResponse.json({
+      html,
+      operations: applied,
+      provider: provider.name,
+      model: result.model,
+    })
+  } catch (error) {
+    console.error('Error in POST /api/ai/edit:', error)
+    return NextResponse.json(
+      { error: 'Failed to edit template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getAIQuotaStatus } from '@/lib/ai/quota'
+
+// GET /api/ai/quota - Current user's monthly AI allowance and usage
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const quota = await getAIQuotaStatus(user.id)
+
+    return NextResponse.json({ data: quota })
+  } catch (error) {
+    console.error('Error in GET /api/ai/quota:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch AI quota' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processRenderJobs } from '@/lib/render-jobs'
+
+// GET /api/cron/render-jobs - Runs due render jobs, including retries (Vercel cron, every minute)
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const processed = await processRenderJobs()
+    return NextResponse.json({ processed })
+  } catch (error) {
+    console.error('Error in GET /api/cron/render-jobs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
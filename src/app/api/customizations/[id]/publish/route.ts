@@ -1,18 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
-import { renderTemplate } from '@/lib/template-renderer'
-import { TemplateField, Customization, Template } from '@/types'
+import { z } from 'zod'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { TemplateSyntaxError } from '@/lib/template-language'
+import {
+  findAvailableSlug,
+  publishedPagePath,
+  renderPublishableHtml,
+  slugify,
+  MAX_SLUG_LENGTH,
+  PUBLISHABLE_CUSTOMIZATION_SELECT,
+  PublishableCustomization,
+  SLUG_PATTERN,
+} from '@/lib/published-pages'
 
 interface RouteParams {
   params: Promise<{ id: string }>
 }
 
-interface CustomizationWithRelations extends Customization {
-  template: Template & { listing_template_fields: TemplateField[] }
-  field_values: { id: string; field_id: string; value: string | null }[]
-}
+const publishSchema = z.object({
+  // Custom address for the page; defaults to the current slug or one made from the name
+  slug: z
+    .string()
+    .max(MAX_SLUG_LENGTH)
+    .regex(SLUG_PATTERN, 'Use lowercase letters, numbers and single hyphens')
+    .optional(),
+})
 
-// POST /api/customizations/[id]/publish - Generate and publish the customization
+// POST /api/customizations/[id]/publish - Publish (or republish) a snapshot of the customization at /p/[slug]
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params
@@ -28,25 +42,25 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       )
     }
 
+    // The body is optional
+    const body = await request.json().catch(() => ({}))
+    const validationResult = publishSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
     // Fetch customization with all related data
     const { data, error: fetchError } = await supabase
       .from('customizations')
-      .select(`
-        *,
-        template:listing_templates (
-          *,
-          listing_template_fields (*)
-        ),
-        field_values (
-          id,
-          field_id,
-          value
-        )
-      `)
+      .select(PUBLISHABLE_CUSTOMIZATION_SELECT)
       .eq('id', id)
       .single()
 
-    const customization = data as unknown as CustomizationWithRelations | null
+    const customization = data as unknown as PublishableCustomization | null
 
     if (fetchError || !customization) {
       return NextResponse.json(
@@ -63,47 +77,76 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    if (!customization.template) {
+    const renderedHtml = await renderPublishableHtml(supabase, customization)
+
+    if (!customization.template || renderedHtml === null) {
       return NextResponse.json(
         { error: 'Template not found' },
         { status: 404 }
       )
     }
 
-    // Build values map from field_values
-    const valuesMap: Record<string, string> = {}
-    if (customization.field_values && customization.template.listing_template_fields) {
-      customization.field_values.forEach((fv: { field_id: string; value: string | null }) => {
-        const field = customization.template.listing_template_fields.find(
-          (tf: { id: string }) => tf.id === fv.field_id
+    // Slugs are unique across all designs, so they're checked with the service client
+    const serviceClient = await createServiceClient()
+    const requestedSlug = validationResult.data.slug
+    let slug: string
+    if (requestedSlug) {
+      if ((await findAvailableSlug(serviceClient, requestedSlug, id)) !== requestedSlug) {
+        return NextResponse.json(
+          { error: 'This address is already taken' },
+          { status: 409 }
         )
-        if (field) {
-          valuesMap[field.field_key] = fv.value || ''
-        }
-      })
+      }
+      slug = requestedSlug
+    } else {
+      slug = customization.slug ?? (await findAvailableSlug(serviceClient, slugify(customization.name) || 'page', id))
     }
 
-    // Render the template with values
-    const renderedHtml = renderTemplate(
-      customization.template.html_content,
-      valuesMap,
-      customization.template.listing_template_fields as TemplateField[]
-    )
+    // The page is frozen as a snapshot so later template edits don't change it. Snapshots and
+    // the publish state are only writable by the service role, after the checks above.
+    const { data: snapshot, error: snapshotError } = await serviceClient
+      .from('publish_snapshots')
+      .insert({
+        customization_id: id,
+        user_id: user.id,
+        html: renderedHtml,
+        template_id: customization.template.id,
+        template_version: customization.template.updated_at ?? null,
+      })
+      .select('id, template_id, template_version, created_at')
+      .single()
 
-    // Generate a unique published URL (in a real app, you'd store this in storage)
-    const publishedUrl = `/preview/${id}`
+    if (snapshotError || !snapshot) {
+      console.error('Error creating publish snapshot:', snapshotError)
+      return NextResponse.json(
+        { error: 'Failed to publish customization' },
+        { status: 500 }
+      )
+    }
+
+    const publishedUrl = publishedPagePath(slug)
+    const publishedAt = snapshot.created_at
 
     // Update customization status
-    const { error: updateError } = await supabase
+    const { error: updateError } = await serviceClient
       .from('customizations')
       .update({
         status: 'published' as const,
-        published_at: new Date().toISOString(),
+        published_at: publishedAt,
         published_url: publishedUrl,
+        live_snapshot_id: snapshot.id,
+        slug,
       })
       .eq('id', id)
 
     if (updateError) {
+      // Another design took the slug since it was checked
+      if (updateError.code === '23505') {
+        return NextResponse.json(
+          { error: 'This address is already taken' },
+          { status: 409 }
+        )
+      }
       console.error('Error updating customization status:', updateError)
       return NextResponse.json(
         { error: 'Failed to publish customization' },
@@ -113,12 +156,20 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({
       data: {
+        slug,
         published_url: publishedUrl,
         rendered_html: renderedHtml,
-        published_at: new Date().toISOString(),
+        published_at: publishedAt,
+        snapshot,
       },
     })
   } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return NextResponse.json(
+        { error: `Template could not be rendered: ${error.message}` },
+        { status: 422 }
+      )
+    }
     console.error('Error in POST /api/customizations/[id]/publish:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -127,31 +178,31 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// GET /api/customizations/[id]/publish - Get the rendered HTML for preview
+// GET /api/customizations/[id]/publish - Get the live snapshot, or a preview render for drafts.
+// Only the owner can use this; visitors open the page at /p/[slug] or through a share link.
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params
     const supabase = await createClient()
 
-    // Fetch customization with all related data (public access for published pages)
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Fetch customization with all related data
     const { data, error: fetchError } = await supabase
       .from('customizations')
-      .select(`
-        *,
-        template:listing_templates (
-          *,
-          listing_template_fields (*)
-        ),
-        field_values (
-          id,
-          field_id,
-          value
-        )
-      `)
+      .select(PUBLISHABLE_CUSTOMIZATION_SELECT)
       .eq('id', id)
       .single()
 
-    const customization = data as unknown as CustomizationWithRelations | null
+    const customization = data as unknown as PublishableCustomization | null
 
     if (fetchError || !customization) {
       return NextResponse.json(
@@ -160,41 +211,66 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    if (!customization.template) {
+    // Drafts are only viewable by their owner, and so is the preview of a published page
+    if (customization.user_id !== user.id) {
       return NextResponse.json(
-        { error: 'Template not found' },
+        { error: 'Customization not found' },
         { status: 404 }
       )
     }
 
-    // Build values map from field_values
-    const valuesMap: Record<string, string> = {}
-    if (customization.field_values && customization.template.listing_template_fields) {
-      customization.field_values.forEach((fv: { field_id: string; value: string | null }) => {
-        const field = customization.template.listing_template_fields.find(
-          (tf: { id: string }) => tf.id === fv.field_id
+    // Published pages show what was published, not the current template
+    if (customization.status === 'published' && customization.live_snapshot_id) {
+      const { data: snapshot, error: snapshotError } = await supabase
+        .from('publish_snapshots')
+        .select('id, html, template_id, template_version, created_at')
+        .eq('id', customization.live_snapshot_id)
+        .single()
+
+      if (snapshotError || !snapshot) {
+        console.error('Error fetching live snapshot:', snapshotError)
+        return NextResponse.json(
+          { error: 'Published page not found' },
+          { status: 404 }
         )
-        if (field) {
-          valuesMap[field.field_key] = fv.value || ''
-        }
+      }
+
+      const { html, ...snapshotDetails } = snapshot
+      return NextResponse.json({
+        data: {
+          rendered_html: html,
+          status: customization.status,
+          published_at: customization.published_at,
+          snapshot: snapshotDetails,
+        },
       })
     }
 
-    // Render the template with values
-    const renderedHtml = renderTemplate(
-      customization.template.html_content,
-      valuesMap,
-      customization.template.listing_template_fields as TemplateField[]
-    )
+    // What publishing would put live
+    const renderedHtml = await renderPublishableHtml(supabase, customization)
+
+    if (renderedHtml === null) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      )
+    }
 
     return NextResponse.json({
       data: {
         rendered_html: renderedHtml,
         status: customization.status,
         published_at: customization.published_at,
+        snapshot: null,
       },
     })
   } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return NextResponse.json(
+        { error: `Template could not be rendered: ${error.message}` },
+        { status: 422 }
+      )
+    }
     console.error('Error in GET /api/customizations/[id]/publish:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
-import { generateThumbnail } from '@/lib/thumbnail-service'
+import { enqueueRenderJob } from '@/lib/render-jobs'
 
 // Validation schema for prompt history and change log items
 const promptHistoryItemSchema = z.object({
@@ -15,6 +15,11 @@ const changeLogItemSchema = z.object({
   id: z.string(),
   description: z.string(),
   timestamp: z.string(),
+  operations: z.array(z.object({
+    operation: z.record(z.string(), z.unknown()),
+    matched: z.number(),
+    description: z.string(),
+  })).optional(),
 })
 
 // Validation schema for updating a customization
@@ -199,25 +204,6 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     if (change_log !== undefined) updateData.change_log = change_log
     if (thumbnail_url !== undefined) updateData.thumbnail_url = thumbnail_url
 
-    // Generate thumbnail if requested and we have rendered_html
-    if (generate_thumbnail) {
-      const htmlToRender = rendered_html || existingCustomization.rendered_html
-      if (htmlToRender) {
-        try {
-          console.log('Generating thumbnail for customization:', id)
-          const thumbnailResult = await generateThumbnail(
-            htmlToRender,
-            name || existingCustomization.name || 'design'
-          )
-          updateData.thumbnail_url = thumbnailResult.url
-          console.log('Thumbnail generated:', thumbnailResult.url)
-        } catch (err) {
-          console.error('Failed to generate thumbnail:', err)
-          // Continue without thumbnail - non-blocking error
-        }
-      }
-    }
-
     // Update customization if there are fields to update
     if (Object.keys(updateData).length > 0) {
       const { error: updateError } = await supabase
@@ -271,6 +257,18 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // Queue the thumbnail so the save returns right away; the client polls the job
+    let thumbnailJobId: string | null = null
+    if (generate_thumbnail && (rendered_html || existingCustomization.rendered_html)) {
+      try {
+        const job = await enqueueRenderJob({ userId: user.id, kind: 'thumbnail', customizationId: id })
+        thumbnailJobId = job.id
+      } catch (err) {
+        console.error('Failed to queue thumbnail:', err)
+        // Continue without thumbnail - non-blocking error
+      }
+    }
+
     // Fetch updated customization
     const { data: updatedCustomization } = await supabase
       .from('customizations')
@@ -307,6 +305,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         ...updatedCustomization,
         values_map: valuesMap,
       },
+      thumbnail_job_id: thumbnailJobId,
     })
   } catch (error) {
     console.error('Error in PUT /api/customizations/[id]:', error)
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+interface RouteParams {
+  params: Promise<{ id: string; linkId: string }>
+}
+
+// DELETE /api/customizations/[id]/share-links/[linkId] - Revoke a share link
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, linkId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Revoked links are kept so the owner can see what was shared
+    const { data: link, error } = await supabase
+      .from('share_links')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', linkId)
+      .eq('customization_id', id)
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .select('id, revoked_at')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error revoking share link:', error)
+      return NextResponse.json(
+        { error: 'Failed to revoke share link' },
+        { status: 500 }
+      )
+    }
+
+    if (!link) {
+      return NextResponse.json(
+        { error: 'Share link not found or already revoked' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ data: link })
+  } catch (error) {
+    console.error('Error in DELETE /api/customizations/[id]/share-links/[linkId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import {
+  createShareToken,
+  sharePagePath,
+  DEFAULT_SHARE_LINK_TTL_HOURS,
+  MAX_SHARE_LINK_TTL_HOURS,
+} from '@/lib/page-access'
+import { ShareLink } from '@/types'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const createShareLinkSchema = z.object({
+  ttl_hours: z.number().int().min(1).max(MAX_SHARE_LINK_TTL_HOURS).optional().default(DEFAULT_SHARE_LINK_TTL_HOURS),
+})
+
+const SHARE_LINK_COLUMNS = 'id, customization_id, user_id, token, expires_at, revoked_at, created_at'
+
+function withUrl(link: ShareLink) {
+  return {
+    ...link,
+    url: sharePagePath(link.token),
+    is_active: !link.revoked_at && new Date(link.expires_at).getTime() > Date.now(),
+  }
+}
+
+// GET /api/customizations/[id]/share-links - List share links, newest first
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // RLS only returns the user's own links
+    const { data: links, error } = await supabase
+      .from('share_links')
+      .select(SHARE_LINK_COLUMNS)
+      .eq('customization_id', id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching share links:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch share links' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: (links as ShareLink[]).map(withUrl),
+    })
+  } catch (error) {
+    console.error('Error in GET /api/customizations/[id]/share-links:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/customizations/[id]/share-links - Create a share link that expires after ttl_hours
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // The body is optional
+    const body = await request.json().catch(() => ({}))
+    const validationResult = createShareLinkSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { data: customization, error: fetchError } = await supabase
+      .from('customizations')
+      .select('id, user_id, status')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !customization) {
+      return NextResponse.json(
+        { error: 'Customization not found' },
+        { status: 404 }
+      )
+    }
+
+    // Verify ownership
+    if (customization.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to share this customization' },
+        { status: 403 }
+      )
+    }
+
+    // Share links open the live snapshot, which drafts don't have
+    if (customization.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Publish the customization before sharing it' },
+        { status: 400 }
+      )
+    }
+
+    const expiresAt = new Date(Date.now() + validationResult.data.ttl_hours * 60 * 60 * 1000)
+
+    const { data: link, error: insertError } = await supabase
+      .from('share_links')
+      .insert({
+        customization_id: id,
+        user_id: user.id,
+        token: createShareToken(),
+        expires_at: expiresAt.toISOString(),
+      })
+      .select(SHARE_LINK_COLUMNS)
+      .single()
+
+    if (insertError || !link) {
+      console.error('Error creating share link:', insertError)
+      return NextResponse.json(
+        { error: 'Failed to create share link' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: withUrl(link as ShareLink) }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/customizations/[id]/share-links:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { publishedPagePath } from '@/lib/published-pages'
+
+interface RouteParams {
+  params: Promise<{ id: string; snapshotId: string }>
+}
+
+// POST /api/customizations/[id]/snapshots/[snapshotId]/rollback - Make an earlier snapshot the live page
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, snapshotId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: customization, error: fetchError } = await supabase
+      .from('customizations')
+      .select('id, user_id, slug')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !customization) {
+      return NextResponse.json(
+        { error: 'Customization not found' },
+        { status: 404 }
+      )
+    }
+
+    // Verify ownership
+    if (customization.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to publish this customization' },
+        { status: 403 }
+      )
+    }
+
+    const { data: snapshot, error: snapshotError } = await supabase
+      .from('publish_snapshots')
+      .select('id, template_id, template_version, created_at')
+      .eq('id', snapshotId)
+      .eq('customization_id', id)
+      .single()
+
+    if (snapshotError || !snapshot) {
+      return NextResponse.json(
+        { error: 'Snapshot not found' },
+        { status: 404 }
+      )
+    }
+
+    // Snapshots are only made by publishing, which assigns the slug
+    if (!customization.slug) {
+      return NextResponse.json(
+        { error: 'Customization has not been published' },
+        { status: 400 }
+      )
+    }
+
+    const publishedUrl = publishedPagePath(customization.slug)
+    const publishedAt = new Date().toISOString()
+
+    // The publish state is only writable by the service role
+    const serviceClient = await createServiceClient()
+    const { error: updateError } = await serviceClient
+      .from('customizations')
+      .update({
+        status: 'published' as const,
+        published_at: publishedAt,
+        published_url: publishedUrl,
+        live_snapshot_id: snapshot.id,
+      })
+      .eq('id', id)
+
+    if (updateError) {
+      console.error('Error rolling back customization:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to roll back customization' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: {
+        slug: customization.slug,
+        published_url: publishedUrl,
+        published_at: publishedAt,
+        snapshot,
+      },
+    })
+  } catch (error) {
+    console.error('Error in POST /api/customizations/[id]/snapshots/[snapshotId]/rollback:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
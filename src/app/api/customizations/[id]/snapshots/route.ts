@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/customizations/[id]/snapshots - List publish snapshots, newest first, marking the live one
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: customization, error: fetchError } = await supabase
+      .from('customizations')
+      .select('id, user_id, live_snapshot_id')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !customization) {
+      return NextResponse.json(
+        { error: 'Customization not found' },
+        { status: 404 }
+      )
+    }
+
+    // Verify ownership
+    if (customization.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to view this customization' },
+        { status: 403 }
+      )
+    }
+
+    // The HTML is left out; the live page or the publish preview shows it
+    const { data: snapshots, error } = await supabase
+      .from('publish_snapshots')
+      .select('id, template_id, template_version, created_at')
+      .eq('customization_id', id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching publish snapshots:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch snapshots' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: snapshots.map((snapshot) => ({
+        ...snapshot,
+        is_live: snapshot.id === customization.live_snapshot_id,
+      })),
+    })
+  } catch (error) {
+    console.error('Error in GET /api/customizations/[id]/snapshots:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
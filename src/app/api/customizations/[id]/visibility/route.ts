@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import {
+  hashPagePassword,
+  MAX_PAGE_PASSWORD_LENGTH,
+  MIN_PAGE_PASSWORD_LENGTH,
+  PAGE_VISIBILITIES,
+} from '@/lib/page-access'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const visibilitySchema = z.object({
+  visibility: z.enum(PAGE_VISIBILITIES),
+  // Required to make a page password-protected; optional when it already has one
+  password: z.string().min(MIN_PAGE_PASSWORD_LENGTH).max(MAX_PAGE_PASSWORD_LENGTH).optional(),
+})
+
+// PUT /api/customizations/[id]/visibility - Set who can open the published page, and its password
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = visibilitySchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { visibility, password } = validationResult.data
+
+    const { data: customization, error: fetchError } = await supabase
+      .from('customizations')
+      .select('id, user_id')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !customization) {
+      return NextResponse.json(
+        { error: 'Customization not found' },
+        { status: 404 }
+      )
+    }
+
+    // Verify ownership
+    if (customization.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Not authorized to update this customization' },
+        { status: 403 }
+      )
+    }
+
+    // Page passwords are only readable with the service role
+    const serviceClient = await createServiceClient()
+
+    if (visibility === 'password') {
+      if (password) {
+        const { error: passwordError } = await serviceClient
+          .from('page_passwords')
+          .upsert({ customization_id: id, password_hash: await hashPagePassword(password) })
+
+        if (passwordError) {
+          console.error('Error saving page password:', passwordError)
+          return NextResponse.json(
+            { error: 'Failed to update visibility' },
+            { status: 500 }
+          )
+        }
+      } else {
+        const { data: existing } = await serviceClient
+          .from('page_passwords')
+          .select('customization_id')
+          .eq('customization_id', id)
+          .maybeSingle()
+
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'A password is required to protect this page' },
+            { status: 400 }
+          )
+        }
+      }
+    } else {
+      // Leaving password protection forgets the password
+      const { error: passwordError } = await serviceClient
+        .from('page_passwords')
+        .delete()
+        .eq('customization_id', id)
+
+      if (passwordError) {
+        console.error('Error removing page password:', passwordError)
+        return NextResponse.json(
+          { error: 'Failed to update visibility' },
+          { status: 500 }
+        )
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('customizations')
+      .update({ visibility })
+      .eq('id', id)
+
+    if (updateError) {
+      console.error('Error updating visibility:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update visibility' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: { visibility },
+    })
+  } catch (error) {
+    console.error('Error in PUT /api/customizations/[id]/visibility:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { validateArtifactHtml } from '@/lib/artifact-import'
+import { enqueueRenderJob } from '@/lib/render-jobs'
+import { PROMPT_TARGETS, isPromptTarget } from '@/lib/prompt-generator'
+
+// Validation schema for importing an AI-generated artifact
+const importCustomizationSchema = z.object({
+  template_id: z.string().uuid('Invalid template ID'),
+  name: z.string().min(1).optional(),
+  html: z.string().min(1, 'HTML is required'),
+  // Prompt target the HTML was generated with, recorded in the change log
+  source: z.string().optional(),
+})
+
+// POST /api/customizations/import - Save HTML from an external AI session as a customization
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Parse and validate request body
+    const body = await request.json()
+    const validationResult = importCustomizationSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { template_id, name, html, source } = validationResult.data
+
+    // Verify template exists and is active
+    const { data: template, error: templateError } = await supabase
+      .from('listing_templates')
+      .select('id, name, is_active, html_content')
+      .eq('id', template_id)
+      .single()
+
+    if (templateError || !template) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!template.is_active) {
+      return NextResponse.json(
+        { error: 'Template is not available' },
+        { status: 400 }
+      )
+    }
+
+    const artifact = validateArtifactHtml(html, template.html_content)
+
+    if (!artifact.valid) {
+      return NextResponse.json(
+        { error: 'The imported HTML cannot be saved', details: artifact.errors },
+        { status: 422 }
+      )
+    }
+
+    const sourceLabel = isPromptTarget(source) ? ` (${PROMPT_TARGETS[source].label})` : ''
+    const designName = name || template.name
+
+    const { data: customization, error: customizationError } = await supabase
+      .from('customizations')
+      .insert({
+        user_id: user.id,
+        template_id,
+        name: designName,
+        status: 'draft',
+        rendered_html: artifact.html,
+        prompt_history: [],
+        change_log: [
+          {
+            id: `change-${Date.now()}`,
+            description: `Imported from an external AI session${sourceLabel}`,
+            timestamp: new Date().toISOString(),
+          },
+        ],
+      })
+      .select()
+      .single()
+
+    if (customizationError) {
+      console.error('Error creating customization:', customizationError)
+      return NextResponse.json(
+        { error: 'Failed to save imported design' },
+        { status: 500 }
+      )
+    }
+
+    // The thumbnail renders in the background; failing to queue it doesn't fail the import
+    let thumbnailJobId: string | null = null
+    try {
+      const job = await enqueueRenderJob({ userId: user.id, kind: 'thumbnail', customizationId: customization.id })
+      thumbnailJobId = job.id
+    } catch (err) {
+      console.error('Failed to queue thumbnail for imported design:', err)
+    }
+
+    return NextResponse.json({ data: customization, thumbnail_job_id: thumbnailJobId }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/customizations/import:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -14,6 +14,11 @@ const changeLogItemSchema = z.object({
   id: z.string(),
   description: z.string(),
   timestamp: z.string(),
+  operations: z.array(z.object({
+    operation: z.record(z.string(), z.unknown()),
+    matched: z.number(),
+    description: z.string(),
+  })).optional(),
 })
 
 // Validation schema for creating a customization
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import OpenAI from 'openai'
+import { createClient } from '@/lib/supabase/server'
+import { recordAIUsage } from '@/lib/ai/usage'
 
 // Lazy initialization to avoid build-time errors
 let openai: OpenAI | null = null
@@ -33,6 +35,10 @@ export async function POST(request: NextRequest) {
       .trim()
       .slice(0, 2000)
 
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    const startedAt = performance.now()
     const completion = await getOpenAI().chat.completions.create({
       model: 'gpt-4o-mini',
       messages: [
@@ -51,6 +57,19 @@ export async function POST(request: NextRequest) {
 
     const description = completion.choices[0]?.message?.content?.trim() || ''
 
+    await recordAIUsage({
+      operation: 'description',
+      userId: user?.id ?? null,
+      provider: 'openai',
+      model: completion.model,
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      },
+      latencyMs: performance.now() - startedAt,
+      status: 'success',
+    })
+
     return NextResponse.json({ description })
   } catch (error) {
     console.error('Description generation error:', error)
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { renderImageExport, ImageExportTooLargeError } from '@/lib/image-export-service'
+import { RenderQueueTimeoutError } from '@/lib/render-service'
+import {
+  DEFAULT_EXPORT_DPI,
+  IMAGE_EXPORT_FORMAT_IDS,
+  MAX_EXPORT_DPI,
+  MIN_EXPORT_DPI,
+  SOCIAL_CROP_IDS,
+} from '@/lib/image-exports'
+
+const imageExportSchema = z.object({
+  html: z.string().min(1, 'HTML content is required'),
+  filename: z.string().optional().default('design'),
+  size: z.string().optional().nullable(),
+  format: z.enum(IMAGE_EXPORT_FORMAT_IDS),
+  dpi: z.number().int().min(MIN_EXPORT_DPI).max(MAX_EXPORT_DPI).optional().default(DEFAULT_EXPORT_DPI),
+  crop: z.enum(SOCIAL_CROP_IDS).optional().nullable(),
+})
+
+// POST /api/export/image - Export the design as JPG, WebP, PNG or SVG, full page or cropped
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validationResult = imageExportSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { filename, ...options } = validationResult.data
+    const { data, contentType } = await renderImageExport(options)
+
+    const safeName = filename.replace(/[^a-zA-Z0-9-_]/g, '_')
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${safeName}.${options.format}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof RenderQueueTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+    if (error instanceof ImageExportTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+
+    console.error('Error in POST /api/export/image:', error)
+    return NextResponse.json({ error: 'Failed to export image' }, { status: 500 })
+  }
+}
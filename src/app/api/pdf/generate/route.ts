@@ -1,148 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server'
-import puppeteer from 'puppeteer-core'
-
-// Local Chrome paths for development
-const LOCAL_CHROME_PATHS = {
-  darwin: '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-  win32: 'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
-  linux: '/usr/bin/google-chrome',
-}
-
-async function getBrowser() {
-  const isDev = process.env.NODE_ENV === 'development'
-
-  if (isDev) {
-    // Use local Chrome for development
-    const platform = process.platform as keyof typeof LOCAL_CHROME_PATHS
-    const executablePath = LOCAL_CHROME_PATHS[platform] || LOCAL_CHROME_PATHS.linux
-
-    return puppeteer.launch({
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-      executablePath,
-      headless: true,
-    })
-  } else {
-    // Use bundled chromium for production (dynamic import for Turbopack compatibility)
-    const chromium = await import('@sparticuz/chromium').then(m => m.default)
-
-    return puppeteer.launch({
-      args: chromium.args,
-      defaultViewport: chromium.defaultViewport,
-      executablePath: await chromium.executablePath(),
-      headless: true,
-    })
-  }
-}
+import { encodePrintReport } from '@/lib/print-ready'
+import { renderPdf } from '@/lib/pdf-service'
+import { RenderQueueTimeoutError } from '@/lib/render-service'
 
 export async function POST(request: NextRequest) {
-  let browser = null
-
   try {
-    const { html, filename } = await request.json()
+    const { html, filename, size, printReady, bleed, cropMarks } = await request.json()
 
     if (!html) {
       return NextResponse.json({ error: 'HTML content is required' }, { status: 400 })
     }
 
-    // Launch headless browser
-    browser = await getBrowser()
-
-    const page = await browser.newPage()
-
-    // Set viewport to letter size (8.5" x 11" at 96dpi)
-    await page.setViewport({
-      width: 816,
-      height: 1056,
-      deviceScaleFactor: 2,
-    })
-
-    // Inject CSS for multi-page PDF support
-    const multiPageCss = `
-      <style>
-        @page {
-          size: letter;
-          margin: 0;
-        }
-        html, body {
-          margin: 0;
-          padding: 0;
-        }
-        /* Support for explicit page elements */
-        .page, [data-page] {
-          width: 8.5in;
-          height: 11in;
-          page-break-after: always;
-          page-break-inside: avoid;
-          overflow: hidden;
-          box-sizing: border-box;
-        }
-        .page:last-child, [data-page]:last-child {
-          page-break-after: auto;
-        }
-      </style>
-    `
+    const { pdf, printReport } = await renderPdf({ html, size, printReady, bleed, cropMarks })
 
-    // Inject multi-page CSS into HTML
-    const htmlWithStyles = html.includes('</head>')
-      ? html.replace('</head>', `${multiPageCss}</head>`)
-      : `${multiPageCss}${html}`
-
-    // Set the HTML content
-    await page.setContent(htmlWithStyles, {
-      waitUntil: ['load', 'networkidle0'],
-    })
-
-    // Wait for fonts to load
-    await page.evaluate(() => {
-      return document.fonts.ready
-    })
-
-    // Wait for all images to load
-    await page.evaluate(async () => {
-      const images = document.querySelectorAll('img')
-      await Promise.all(
-        Array.from(images).map((img) => {
-          if (img.complete) return Promise.resolve()
-          return new Promise((resolve) => {
-            img.addEventListener('load', resolve)
-            img.addEventListener('error', resolve) // Resolve even on error to not block
-          })
-        })
-      )
-    })
-
-    // Additional wait for rendering
-    await new Promise((resolve) => setTimeout(resolve, 500))
-
-    // Generate PDF
-    const pdfBuffer = await page.pdf({
-      format: 'letter',
-      printBackground: true,
-      margin: { top: 0, right: 0, bottom: 0, left: 0 },
-      preferCSSPageSize: true,
-    })
-
-    await browser.close()
-    browser = null
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename || 'document'}.pdf"`,
+    }
+    if (printReport) {
+      headers['X-Print-Report'] = encodePrintReport(printReport)
+    }
 
     // Return the PDF as a downloadable file
-    return new NextResponse(Buffer.from(pdfBuffer), {
-      headers: {
-        'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="${filename || 'document'}.pdf"`,
-      },
-    })
+    return new NextResponse(Buffer.from(pdf), { headers })
   } catch (error) {
+    if (error instanceof RenderQueueTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+
     console.error('PDF generation error:', error)
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     const errorStack = error instanceof Error ? error.stack : ''
     console.error('Error details:', { message: errorMessage, stack: errorStack })
 
-    if (browser) {
-      await browser.close()
-    }
-
     return NextResponse.json(
       { error: 'Failed to generate PDF', details: errorMessage },
       { status: 500 }
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { normalizePromptLayout, promptLayoutSchema } from '@/lib/prompt-layout'
+
+const SETTING_KEY = 'prompt_layout'
+
+// GET /api/prompts/layout - Get the prompt section layout used by the prompt generator
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // app_settings is admin-only under RLS; every user needs the layout to build prompts
+    const admin = await createServiceClient()
+    const { data, error } = await admin
+      .from('app_settings')
+      .select('value')
+      .eq('key', SETTING_KEY)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching prompt layout:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch prompt layout' },
+        { status: 500 }
+      )
+    }
+
+    // Falls back to the default layout when none has been saved
+    return NextResponse.json({ data: normalizePromptLayout(data?.value) })
+  } catch (error) {
+    console.error('Error in GET /api/prompts/layout:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/prompts/layout - Save the prompt section layout (admin only)
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Check if user is authenticated and is admin
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden - Admin access required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = promptLayoutSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const layout = normalizePromptLayout(validationResult.data)
+
+    const { error } = await supabase
+      .from('app_settings')
+      .upsert(
+        { key: SETTING_KEY, value: layout, updated_at: new Date().toISOString() },
+        { onConflict: 'key' }
+      )
+
+    if (error) {
+      console.error('Error saving prompt layout:', error)
+      return NextResponse.json(
+        { error: 'Failed to save prompt layout' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: layout })
+  } catch (error) {
+    console.error('Error in PUT /api/prompts/layout:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
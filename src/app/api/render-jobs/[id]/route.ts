@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { RENDER_JOB_STATUS_COLUMNS } from '@/lib/render-jobs'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// GET /api/render-jobs/[id] - Status and result of one of the user's render jobs
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // RLS limits users to their own jobs
+    const { data: job, error } = await supabase
+      .from('render_jobs')
+      .select(RENDER_JOB_STATUS_COLUMNS)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching render job:', error)
+      return NextResponse.json({ error: 'Failed to fetch render job' }, { status: 500 })
+    }
+
+    if (!job) {
+      return NextResponse.json({ error: 'Render job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: job })
+  } catch (error) {
+    console.error('Error in GET /api/render-jobs/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
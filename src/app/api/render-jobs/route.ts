@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { enqueueRenderJob } from '@/lib/render-jobs'
+import { MAX_BLEED } from '@/lib/print-ready'
+
+// Clients queue exports; thumbnail jobs are queued when a design is saved
+const createRenderJobSchema = z.object({
+  kind: z.literal('pdf'),
+  customization_id: z.string().uuid().optional().nullable(),
+  html: z.string().min(1, 'HTML content is required'),
+  filename: z.string().optional().default('document'),
+  size: z.string().optional().nullable(),
+  printReady: z.boolean().optional(),
+  bleed: z.number().min(0).max(MAX_BLEED).optional(),
+  cropMarks: z.boolean().optional(),
+})
+
+// POST /api/render-jobs - Queue a PDF export; poll /api/render-jobs/[id] for the result.
+// Exports served from the render cache come back already done.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validationResult = createRenderJobSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { kind, customization_id, ...payload } = validationResult.data
+
+    // Jobs are written with the service role, so check the design is the caller's first
+    if (customization_id) {
+      const { data: customization, error: fetchError } = await supabase
+        .from('customizations')
+        .select('id, user_id')
+        .eq('id', customization_id)
+        .single()
+
+      if (fetchError || !customization) {
+        return NextResponse.json({ error: 'Customization not found' }, { status: 404 })
+      }
+
+      if (customization.user_id !== user.id) {
+        return NextResponse.json({ error: 'Not authorized to export this customization' }, { status: 403 })
+      }
+    }
+
+    const job = await enqueueRenderJob({
+      userId: user.id,
+      kind,
+      customizationId: customization_id,
+      payload,
+    })
+
+    return NextResponse.json({ data: job }, { status: job.status === 'done' ? 200 : 202 })
+  } catch (error) {
+    console.error('Error in POST /api/render-jobs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
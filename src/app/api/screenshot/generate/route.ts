@@ -1,107 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server'
-import puppeteer from 'puppeteer-core'
-
-// Local Chrome paths for development
-const LOCAL_CHROME_PATHS = {
-  darwin: '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-  win32: 'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
-  linux: '/usr/bin/google-chrome',
-}
-
-async function getBrowser() {
-  const isDev = process.env.NODE_ENV === 'development'
-
-  if (isDev) {
-    // Use local Chrome for development
-    const platform = process.platform as keyof typeof LOCAL_CHROME_PATHS
-    const executablePath = LOCAL_CHROME_PATHS[platform] || LOCAL_CHROME_PATHS.linux
-
-    return puppeteer.launch({
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-      executablePath,
-      headless: true,
-    })
-  } else {
-    // Use bundled chromium for production (dynamic import for Turbopack compatibility)
-    const chromium = await import('@sparticuz/chromium').then(m => m.default)
-    return puppeteer.launch({
-      args: chromium.args,
-      defaultViewport: chromium.defaultViewport,
-      executablePath: await chromium.executablePath(),
-      headless: true,
-    })
-  }
-}
+import { getPrintFormat, getPrintPixelSize } from '@/lib/print-formats'
+import { withRenderPage, loadRenderContent, RenderQueueTimeoutError } from '@/lib/render-service'
+import { renderCacheKey, getCachedRender, putCachedRender } from '@/lib/render-cache'
 
 export async function POST(request: NextRequest) {
-  let browser = null
-
   try {
-    const { html, filename } = await request.json()
+    const { html, filename, size } = await request.json()
 
     if (!html) {
       return NextResponse.json({ error: 'HTML content is required' }, { status: 400 })
     }
 
-    // Launch headless browser
-    browser = await getBrowser()
-
-    const page = await browser.newPage()
-
-    // Set viewport to letter size width (8.5" at 96dpi)
-    await page.setViewport({
-      width: 816,
-      height: 1056,
-      deviceScaleFactor: 2,
-    })
-
-    // Set the HTML content
-    await page.setContent(html, {
-      waitUntil: ['load', 'networkidle0'],
-    })
-
-    // Wait for fonts to load
-    await page.evaluate(() => {
-      return document.fonts.ready
-    })
-
-    // Wait for all images to load
-    await page.evaluate(async () => {
-      const images = document.querySelectorAll('img')
-      await Promise.all(
-        Array.from(images).map((img) => {
-          if (img.complete) return Promise.resolve()
-          return new Promise((resolve) => {
-            img.addEventListener('load', resolve)
-            img.addEventListener('error', resolve) // Resolve even on error to not block
-          })
-        })
-      )
-    })
-
-    // Additional wait for rendering
-    await new Promise((resolve) => setTimeout(resolve, 500))
-
-    // Get the actual content height
-    const bodyHeight = await page.evaluate(() => {
-      return document.body.scrollHeight
-    })
-
-    // Resize viewport to fit content
-    await page.setViewport({
-      width: 816,
-      height: Math.max(bodyHeight, 1056),
-      deviceScaleFactor: 2,
+    const format = getPrintFormat(size)
+    const cacheKey = renderCacheKey('png', html, { size: format.id })
+    const cached = await getCachedRender<null>(cacheKey)
+    const cachedBuffer = cached ? await cached.read().catch(() => null) : null
+
+    const screenshotBuffer = cachedBuffer ?? await withRenderPage(async (page) => {
+      // Viewport is the template's print size at 96dpi
+      const { width, height } = getPrintPixelSize(format)
+      await loadRenderContent(page, html, { width, height, deviceScaleFactor: 2 })
+
+      // Get the actual content height
+      const bodyHeight = await page.evaluate(() => {
+        return document.body.scrollHeight
+      })
+
+      // Resize viewport to fit content
+      await page.setViewport({
+        width,
+        height: Math.max(bodyHeight, height),
+        deviceScaleFactor: 2,
+      })
+
+      // Take screenshot
+      return page.screenshot({
+        type: 'png',
+        fullPage: true,
+      })
     })
 
-    // Take screenshot
-    const screenshotBuffer = await page.screenshot({
-      type: 'png',
-      fullPage: true,
-    })
-
-    await browser.close()
-    browser = null
+    if (!cachedBuffer) {
+      await putCachedRender(cacheKey, Buffer.from(screenshotBuffer), { extension: 'png', metadata: null })
+    }
 
     // Return the PNG as a downloadable file
     return new NextResponse(Buffer.from(screenshotBuffer), {
@@ -111,12 +52,12 @@ export async function POST(request: NextRequest) {
       },
     })
   } catch (error) {
-    console.error('Screenshot generation error:', error)
-
-    if (browser) {
-      await browser.close()
+    if (error instanceof RenderQueueTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
     }
 
+    console.error('Screenshot generation error:', error)
+
     return NextResponse.json(
       { error: 'Failed to generate screenshot' },
       { status: 500 }
@@ -1,7 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { DEFAULT_MODEL_PRICING } from '@/lib/ai/usage'
+
+// Returned when a setting has not been saved yet
+const SETTING_DEFAULTS: Record<string, unknown> = {
+  ai_provider: { provider: 'anthropic' },
+  ai_pricing: { models: DEFAULT_MODEL_PRICING },
+  ai_default_quota: { monthly_generation_limit: null, monthly_token_limit: null },
+}
+
+// Settings with a known shape are validated before saving
+const SETTING_SCHEMAS: Record<string, z.ZodType> = {
+  ai_pricing: z.object({
+    models: z.record(
+      z.string().min(1),
+      z.object({
+        input: z.number().min(0),
+        output: z.number().min(0),
+      })
+    ),
+  }),
+  ai_default_quota: z.object({
+    monthly_generation_limit: z.number().int().min(0).nullable(),
+    monthly_token_limit: z.number().int().min(0).nullable(),
+  }),
+}
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const supabase = await createClient()
 
@@ -21,18 +47,20 @@ export async function GET() {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    // Get AI provider setting
+    // Defaults to the AI provider setting
+    const key = request.nextUrl.searchParams.get('key') || 'ai_provider'
+
     const { data, error } = await supabase
       .from('app_settings')
       .select('*')
-      .eq('key', 'ai_provider')
+      .eq('key', key)
       .maybeSingle()
 
     if (error) throw error
 
     // Return default if not set
     return NextResponse.json({
-      data: data || { key: 'ai_provider', value: { provider: 'anthropic' } }
+      data: data || { key, value: SETTING_DEFAULTS[key] ?? null }
     })
   } catch (error) {
     console.error('Error fetching settings:', error)
@@ -66,6 +94,17 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Key and value are required' }, { status: 400 })
     }
 
+    const schema = SETTING_SCHEMAS[key]
+    if (schema) {
+      const validationResult = schema.safeParse(value)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: validationResult.error.issues },
+          { status: 400 }
+        )
+      }
+    }
+
     // Upsert the setting
     const { data, error } = await supabase
       .from('app_settings')
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { lintTemplate, hasBlockingLintErrors } from '@/lib/template-lint'
+import { DEFAULT_PRINT_FORMAT } from '@/lib/print-formats'
 
 // Validation schema for template fields
 const fieldSchema = z.object({
@@ -29,7 +31,9 @@ const updateTemplateSchema = z.object({
   system_prompt_id: z.string().uuid().optional().nullable(),
   template_prompt: z.string().optional().nullable(),
   artifact_url: z.string().url().optional().nullable().or(z.literal('')),
+  size: z.string().optional().nullable(), // Print format id (see print-formats.ts)
   fields: z.array(fieldSchema).optional(),
+  force: z.boolean().optional().default(false), // Save despite placeholder lint errors
 })
 
 interface RouteParams {
@@ -134,12 +138,18 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    const { fields, ...templateData } = validationResult.data
+    const { fields, force, ...templateData } = validationResult.data
 
     // Check if template exists
     const { data: existingTemplate, error: fetchError } = await supabase
       .from('listing_templates')
-      .select('id')
+      .select(`
+        id,
+        html_content,
+        listing_template_fields (
+          field_key
+        )
+      `)
       .eq('id', id)
       .single()
 
@@ -150,6 +160,28 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       )
     }
 
+    // Reject placeholder errors unless the admin chose to save anyway; unchanged parts come from the saved template
+    if (!force && (templateData.html_content !== undefined || fields !== undefined)) {
+      const { data: profileFields } = await supabase
+        .from('profile_fields')
+        .select('field_key')
+
+      const lint = lintTemplate({
+        htmlContent: templateData.html_content ?? existingTemplate.html_content,
+        fieldKeys: (fields ?? existingTemplate.listing_template_fields ?? []).map(
+          (field: { field_key: string }) => field.field_key
+        ),
+        profileFieldKeys: (profileFields ?? []).map((field) => field.field_key),
+      })
+
+      if (hasBlockingLintErrors(lint)) {
+        return NextResponse.json(
+          { error: 'Template has placeholder errors', lint },
+          { status: 422 }
+        )
+      }
+    }
+
     // Update template
     const updateData: Record<string, unknown> = {}
     if (templateData.name !== undefined) updateData.name = templateData.name
@@ -161,6 +193,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     if (templateData.system_prompt_id !== undefined) updateData.system_prompt_id = templateData.system_prompt_id || null
     if (templateData.template_prompt !== undefined) updateData.template_prompt = templateData.template_prompt || null
     if (templateData.artifact_url !== undefined) updateData.artifact_url = templateData.artifact_url || null
+    if (templateData.size !== undefined) updateData.size = templateData.size || DEFAULT_PRINT_FORMAT
 
     if (Object.keys(updateData).length > 0) {
       const { error: updateError } = await supabase
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { lintTemplate, hasBlockingLintErrors } from '@/lib/template-lint'
+import { DEFAULT_PRINT_FORMAT } from '@/lib/print-formats'
 
 // Validation schema for creating a template
 const fieldSchema = z.object({
@@ -28,7 +30,9 @@ const createTemplateSchema = z.object({
   system_prompt_id: z.string().uuid().optional().nullable(),
   template_prompt: z.string().optional().nullable(),
   artifact_url: z.string().url().optional().or(z.literal('')).nullable(),
+  size: z.string().optional().nullable(), // Print format id (see print-formats.ts)
   fields: z.array(fieldSchema).optional(),
+  force: z.boolean().optional().default(false), // Save despite placeholder lint errors
 })
 
 // GET /api/templates - List all templates
@@ -111,7 +115,27 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { fields, ...templateData } = validationResult.data
+    const { fields, force, ...templateData } = validationResult.data
+
+    // Reject placeholder errors unless the admin chose to save anyway
+    if (!force) {
+      const { data: profileFields } = await supabase
+        .from('profile_fields')
+        .select('field_key')
+
+      const lint = lintTemplate({
+        htmlContent: templateData.html_content,
+        fieldKeys: (fields ?? []).map((field) => field.field_key),
+        profileFieldKeys: (profileFields ?? []).map((field) => field.field_key),
+      })
+
+      if (hasBlockingLintErrors(lint)) {
+        return NextResponse.json(
+          { error: 'Template has placeholder errors', lint },
+          { status: 422 }
+        )
+      }
+    }
 
     // Insert template
     const { data: template, error: templateError } = await supabase
@@ -126,6 +150,7 @@ export async function POST(request: NextRequest) {
         system_prompt_id: templateData.system_prompt_id || null,
         template_prompt: templateData.template_prompt || null,
         artifact_url: templateData.artifact_url || null,
+        size: templateData.size || DEFAULT_PRINT_FORMAT,
       })
       .select()
       .single()
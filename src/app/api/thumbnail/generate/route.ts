@@ -1,18 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { generateThumbnail } from '@/lib/thumbnail-service'
+import { RenderQueueTimeoutError } from '@/lib/render-service'
 
 export async function POST(request: NextRequest) {
   try {
-    const { html, name } = await request.json()
+    const { html, name, size } = await request.json()
 
     if (!html) {
       return NextResponse.json({ error: 'HTML content is required' }, { status: 400 })
     }
 
-    const result = await generateThumbnail(html, name)
+    const result = await generateThumbnail(html, name, size)
 
     return NextResponse.json(result)
   } catch (error) {
+    if (error instanceof RenderQueueTimeoutError) {
+      return NextResponse.json({ error: error.message }, { status: 503 })
+    }
+
     console.error('Thumbnail generation error:', error)
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     return NextResponse.json(
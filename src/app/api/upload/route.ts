@@ -1,19 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import ImageKit from 'imagekit'
-
-// Lazy initialization to avoid build errors when env vars are missing
-let imagekitClient: ImageKit | null = null
-
-function getImageKitClient(): ImageKit {
-  if (!imagekitClient) {
-    imagekitClient = new ImageKit({
-      publicKey: process.env.IMAGEKIT_PUBLIC_KEY!,
-      privateKey: process.env.IMAGEKIT_PRIVATE_KEY!,
-      urlEndpoint: process.env.IMAGEKIT_URL_ENDPOINT!,
-    })
-  }
-  return imagekitClient
-}
+import { getImageKitClient } from '@/lib/imagekit'
 
 export async function POST(request: NextRequest) {
   try {
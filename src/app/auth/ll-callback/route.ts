@@ -126,7 +126,7 @@ export async function GET(request: NextRequest) {
     }
   }
 
-  // 4. Create or find Supabase Auth user
+  // 4. Create or find Supabase Auth user (active_plan_ids is synced too; AI quotas key off it)
   const { data: created, error: createErr } = await admin.auth.admin.createUser({
     email,
     email_confirm: true,
@@ -161,6 +161,7 @@ export async function GET(request: NextRequest) {
         id: newUserId,
         email,
         plan_name: planName ?? existingProfile.plan_name,
+        active_plan_ids: activePlanIds,
         updated_at: new Date().toISOString(),
       })
 
@@ -179,6 +180,7 @@ export async function GET(request: NextRequest) {
           first_name: displayName,
           memberstack_id: memberstackId,
           plan_name: planName,
+          active_plan_ids: activePlanIds,
         }, { onConflict: 'id' })
     }
   } else {
@@ -197,7 +199,7 @@ export async function GET(request: NextRequest) {
     if (existingProfile) {
       await admin
         .from('profiles')
-        .update({ plan_name: planName })
+        .update({ plan_name: planName, active_plan_ids: activePlanIds })
         .eq('id', existingProfile.id)
     } else {
       // Try to find by email in auth users
@@ -212,6 +214,7 @@ export async function GET(request: NextRequest) {
             email,
             memberstack_id: memberstackId,
             plan_name: planName,
+            active_plan_ids: activePlanIds,
           }, { onConflict: 'id' })
       }
     }
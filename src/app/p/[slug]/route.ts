@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createBackgroundClient } from '@/lib/supabase/server'
+import {
+  buildPublishedPageHtml,
+  publishedPageError,
+  publishedPagePath,
+  publishedPageResponse,
+  snapshotLegacyPage,
+  PRIVATE_PAGE_CACHE_CONTROL,
+  PUBLISHED_PAGE_CACHE_CONTROL,
+} from '@/lib/published-pages'
+import {
+  buildPasswordPageHtml,
+  getPasswordRetryAfter,
+  hasPageAccess,
+  pageAccessCookie,
+  pageAccessCookieName,
+  recordFailedPasswordAttempt,
+  verifyPagePassword,
+} from '@/lib/page-access'
+import { PageVisibility } from '@/types'
+
+interface RouteParams {
+  params: Promise<{ slug: string }>
+}
+
+interface PublishedPage {
+  id: string
+  name: string
+  thumbnail_url: string | null
+  visibility: PageVisibility
+  html: string
+  // Only loaded for password-protected pages
+  passwordHash: string | null
+}
+
+// GET /p/[slug] - Serve a published design as a standalone page
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug } = await params
+    const page = await findPublishedPage(slug)
+
+    if (!page) {
+      return publishedPageError('Page not found', 404)
+    }
+
+    const accessCookie = request.cookies.get(pageAccessCookieName(slug))?.value
+    if (page.passwordHash && !hasPageAccess(accessCookie, slug, page.passwordHash)) {
+      return passwordPageResponse(request, page)
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+    const body = buildPublishedPageHtml(page.html, {
+      title: page.name,
+      url: new URL(publishedPagePath(slug), origin).toString(),
+      imageUrl: page.thumbnail_url,
+    })
+
+    if (page.passwordHash) {
+      return publishedPageResponse(request, body, { cacheControl: PRIVATE_PAGE_CACHE_CONTROL, noindex: true })
+    }
+
+    return publishedPageResponse(request, body, {
+      cacheControl: PUBLISHED_PAGE_CACHE_CONTROL,
+      noindex: page.visibility === 'unlisted',
+    })
+  } catch (error) {
+    console.error('Error in GET /p/[slug]:', error)
+    return publishedPageError('Internal server error', 500)
+  }
+}
+
+// POST /p/[slug] - Check the password for a password-protected page
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { slug } = await params
+    const page = await findPublishedPage(slug)
+
+    if (!page) {
+      return publishedPageError('Page not found', 404)
+    }
+
+    const pageUrl = new URL(publishedPagePath(slug), request.url)
+
+    // The page was made public since the form was shown
+    if (!page.passwordHash) {
+      return NextResponse.redirect(pageUrl, 303)
+    }
+
+    // Failed attempts are throttled per page and visitor so passwords can't be guessed
+    const supabase = createBackgroundClient()
+    const ip = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown'
+    const retryAfter = await getPasswordRetryAfter(supabase, page.id, ip)
+
+    if (retryAfter > 0) {
+      const minutes = Math.ceil(retryAfter / 60)
+      const response = passwordPageResponse(
+        request,
+        page,
+        `Too many attempts. Try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.`,
+        429
+      )
+      response.headers.set('Retry-After', String(retryAfter))
+      return response
+    }
+
+    const formData = await request.formData().catch(() => null)
+    const password = formData?.get('password')
+
+    if (typeof password !== 'string' || !(await verifyPagePassword(password, page.passwordHash))) {
+      await recordFailedPasswordAttempt(supabase, page.id, ip)
+      return passwordPageResponse(request, page, 'Incorrect password')
+    }
+
+    const cookie = pageAccessCookie(slug, page.passwordHash)
+    const response = NextResponse.redirect(pageUrl, 303)
+    response.cookies.set(cookie.name, cookie.value, cookie.options)
+    return response
+  } catch (error) {
+    console.error('Error in POST /p/[slug]:', error)
+    return publishedPageError('Internal server error', 500)
+  }
+}
+
+/**
+ * Loads the live snapshot of a page visitors may open. Private pages and password-protected
+ * pages without a password are treated as missing.
+ */
+async function findPublishedPage(slug: string): Promise<PublishedPage | null> {
+  // Visitors aren't signed in, so the page is looked up with the service role
+  const supabase = createBackgroundClient()
+  const { data: page, error } = await supabase
+    .from('customizations')
+    .select('id, name, thumbnail_url, visibility, live_snapshot_id, live_snapshot:publish_snapshots!live_snapshot_id (html)')
+    .eq('slug', slug)
+    .eq('status', 'published')
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to fetch published page: ${error.message}`)
+
+  if (!page || page.visibility === 'private') return null
+
+  let passwordHash: string | null = null
+  if (page.visibility === 'password') {
+    const { data: password, error: passwordError } = await supabase
+      .from('page_passwords')
+      .select('password_hash')
+      .eq('customization_id', page.id)
+      .maybeSingle()
+
+    if (passwordError) throw new Error(`Failed to fetch page password: ${passwordError.message}`)
+    if (!password) return null
+    passwordHash = password.password_hash
+  }
+
+  // Pages serve the snapshot that is live, never the current design. Pages published before
+  // snapshots existed get one on their first visit.
+  const snapshot = page.live_snapshot as unknown as { html: string } | null
+  const html = snapshot?.html ?? (page.live_snapshot_id ? null : await snapshotLegacyPage(supabase, page.id))
+  if (!html) return null
+
+  return {
+    id: page.id,
+    name: page.name,
+    thumbnail_url: page.thumbnail_url,
+    visibility: page.visibility,
+    html,
+    passwordHash,
+  }
+}
+
+function passwordPageResponse(request: NextRequest, page: PublishedPage, error?: string, status = 401): NextResponse {
+  return publishedPageResponse(request, buildPasswordPageHtml({ title: page.name, error }), {
+    cacheControl: PRIVATE_PAGE_CACHE_CONTROL,
+    noindex: true,
+    status,
+  })
+}
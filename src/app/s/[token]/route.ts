@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server'
+import { createBackgroundClient } from '@/lib/supabase/server'
+import {
+  buildPublishedPageHtml,
+  publishedPageError,
+  publishedPageResponse,
+  snapshotLegacyPage,
+  PRIVATE_PAGE_CACHE_CONTROL,
+} from '@/lib/published-pages'
+import { sharePagePath } from '@/lib/page-access'
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+interface SharedCustomization {
+  id: string
+  name: string
+  thumbnail_url: string | null
+  status: string
+  live_snapshot_id: string | null
+  live_snapshot: { html: string } | null
+}
+
+// GET /s/[token] - Serve a published design through a share link, whatever its visibility
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params
+
+    // Visitors aren't signed in, so the link is looked up with the service role
+    const supabase = createBackgroundClient()
+    const { data: link, error } = await supabase
+      .from('share_links')
+      .select(`
+        expires_at,
+        revoked_at,
+        customization:customizations (
+          id,
+          name,
+          thumbnail_url,
+          status,
+          live_snapshot_id,
+          live_snapshot:publish_snapshots!live_snapshot_id (html)
+        )
+      `)
+      .eq('token', token)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching share link:', error)
+      return publishedPageError('Internal server error', 500)
+    }
+
+    if (!link) {
+      return publishedPageError('Page not found', 404)
+    }
+
+    if (link.revoked_at || new Date(link.expires_at).getTime() <= Date.now()) {
+      return publishedPageError('This link has expired', 410)
+    }
+
+    // Drafts and unpublished designs can't be shared
+    const customization = link.customization as unknown as SharedCustomization | null
+    if (!customization || customization.status !== 'published') {
+      return publishedPageError('Page not found', 404)
+    }
+
+    // Pages published before snapshots existed get one on their first visit
+    const html = customization.live_snapshot?.html
+      ?? (customization.live_snapshot_id ? null : await snapshotLegacyPage(supabase, customization.id))
+    if (!html) {
+      return publishedPageError('Page not found', 404)
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+    const body = buildPublishedPageHtml(html, {
+      title: customization.name,
+      url: new URL(sharePagePath(token), origin).toString(),
+      imageUrl: customization.thumbnail_url,
+    })
+
+    // Not cached, so revoked and expired links stop working at once
+    return publishedPageResponse(request, body, { cacheControl: PRIVATE_PAGE_CACHE_CONTROL, noindex: true })
+  } catch (error) {
+    console.error('Error in GET /s/[token]:', error)
+    return publishedPageError('Internal server error', 500)
+  }
+}
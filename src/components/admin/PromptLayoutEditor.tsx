@@ -0,0 +1,272 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Spinner } from '@/components/ui/spinner'
+import { ChevronDown, ChevronUp, Check, RotateCcw, Pencil } from 'lucide-react'
+import {
+  PromptLayout,
+  PromptLayoutSection,
+  DEFAULT_PROMPT_LAYOUT,
+  PROMPT_SECTIONS,
+  PROMPT_VARIABLES,
+} from '@/lib/prompt-layout'
+import { PROMPT_TARGETS, PromptTarget, DEFAULT_PROMPT_TARGET, getDefaultSectionText } from '@/lib/prompt-generator'
+
+/**
+ * Admin editor for the order, visibility and wording of the generated prompt's sections
+ */
+export function PromptLayoutEditor() {
+  const [layout, setLayout] = useState<PromptLayout>(DEFAULT_PROMPT_LAYOUT)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  // Defaults for output format/requirements differ per target; preview them for one target at a time
+  const [previewTarget, setPreviewTarget] = useState<PromptTarget>(DEFAULT_PROMPT_TARGET)
+
+  useEffect(() => {
+    async function fetchLayout() {
+      try {
+        const response = await fetch('/api/prompts/layout')
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to fetch prompt layout')
+        }
+
+        setLayout(result.data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchLayout()
+  }, [])
+
+  const updateSection = (index: number, updates: Partial<PromptLayoutSection>) => {
+    setSaved(false)
+    setLayout((prev) => ({
+      ...prev,
+      sections: prev.sections.map((section, i) => (i === index ? { ...section, ...updates } : section)),
+    }))
+  }
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= layout.sections.length) return
+
+    setSaved(false)
+    setLayout((prev) => {
+      const sections = [...prev.sections]
+      ;[sections[index], sections[target]] = [sections[target], sections[index]]
+      return { ...prev, sections }
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/prompts/layout', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(layout),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save prompt layout')
+      }
+
+      setLayout(result.data)
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save prompt layout')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleResetAll = () => {
+    if (!confirm('Reset the prompt layout to the default order and wording?')) return
+    setSaved(false)
+    setEditingId(null)
+    setLayout(DEFAULT_PROMPT_LAYOUT)
+  }
+
+  return (
+    <div className="bg-card rounded-2xl border border-border overflow-hidden">
+      <div className="flex items-start justify-between gap-4 px-5 py-4 border-b border-border">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Prompt Layout</h2>
+          <p className="text-sm text-muted-foreground mt-0.5">
+            Reorder, disable or reword the sections of the generated customization prompt.
+            Use {PROMPT_VARIABLES.map((v) => `{{${v}}}`).join(', ')} in overrides.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button variant="outline" size="sm" onClick={handleResetAll} disabled={isLoading || isSaving}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={isLoading || isSaving}>
+            {isSaving ? (
+              <>
+                <Spinner size="sm" className="mr-2" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Check className="w-4 h-4 mr-2" />
+                {saved ? 'Saved' : 'Save Layout'}
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-destructive/10 border-b border-destructive/20 px-5 py-3">
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Spinner />
+        </div>
+      ) : (
+        <div className="divide-y divide-border">
+          {layout.sections.map((section, index) => {
+            const info = PROMPT_SECTIONS[section.id]
+            const defaultText = getDefaultSectionText(section.id, previewTarget)
+            const isEditing = editingId === section.id
+
+            return (
+              <div key={section.id} className={section.enabled ? '' : 'opacity-60'}>
+                <div className="flex items-center gap-3 px-5 py-3">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => moveSection(index, -1)}
+                      disabled={index === 0}
+                      className="p-0.5 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === layout.sections.length - 1}
+                      className="p-0.5 text-muted-foreground hover:text-foreground disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-sm font-medium text-foreground">{info.label}</h3>
+                      {section.override !== null && (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-primary/10 text-primary border border-primary/20">
+                          Custom
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{info.description}</p>
+                  </div>
+
+                  {info.overridable && (
+                    <button
+                      onClick={() => setEditingId(isEditing ? null : section.id)}
+                      className="p-2 text-muted-foreground hover:text-foreground hover:bg-accent rounded-lg transition-colors"
+                      title="Edit text"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  )}
+                  <Switch
+                    checked={section.enabled}
+                    onCheckedChange={(enabled) => updateSection(index, { enabled })}
+                  />
+                </div>
+
+                {isEditing && defaultText !== null && (
+                  <div className="px-5 pb-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-1">
+                        {(Object.keys(PROMPT_TARGETS) as PromptTarget[]).map((target) => (
+                          <button
+                            key={target}
+                            onClick={() => setPreviewTarget(target)}
+                            className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                              previewTarget === target
+                                ? 'bg-primary/10 text-primary'
+                                : 'text-muted-foreground hover:text-foreground hover:bg-accent'
+                            }`}
+                          >
+                            {PROMPT_TARGETS[target].label}
+                          </button>
+                        ))}
+                      </div>
+                      {section.override !== null && (
+                        <Button variant="ghost" size="sm" onClick={() => updateSection(index, { override: null })}>
+                          <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
+                          Use default
+                        </Button>
+                      )}
+                    </div>
+                    <Textarea
+                      value={section.override ?? defaultText}
+                      onChange={(e) => updateSection(index, { override: e.target.value })}
+                      rows={10}
+                      className="font-mono text-sm"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {section.override === null
+                        ? `Showing the default text for ${PROMPT_TARGETS[previewTarget].label}. Editing it applies your text to every target.`
+                        : 'This text replaces the default for every target.'}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {!isLoading && (
+        <div className="flex items-center justify-between gap-4 px-5 py-4 border-t border-border">
+          <div>
+            <Label htmlFor="token-warning-threshold">Token warning threshold</Label>
+            <p className="text-xs text-muted-foreground mt-0.5">
+              Users are warned when a generated prompt is estimated to be larger than this
+            </p>
+          </div>
+          <Input
+            id="token-warning-threshold"
+            type="number"
+            min={1000}
+            step={1000}
+            value={layout.tokenWarningThreshold}
+            onChange={(e) => {
+              setSaved(false)
+              setLayout((prev) => ({ ...prev, tokenWarningThreshold: Number(e.target.value) }))
+            }}
+            className="w-32"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import Image from 'next/image'
 import { TemplateWithFields, Campaign } from '@/types'
@@ -22,8 +22,19 @@ import {
   Upload,
   Plus,
   Check,
+  AlertCircle,
+  AlertTriangle,
 } from 'lucide-react'
 import { TemplateFieldsEditor, TemplateFieldData } from './TemplateFieldsEditor'
+import { lintTemplate, TemplateLintIssue } from '@/lib/template-lint'
+import {
+  PRINT_FORMATS,
+  DEFAULT_PRINT_FORMAT,
+  customPrintSize,
+  getPrintFormat,
+  isKnownPrintSize,
+  parseCustomPrintSize,
+} from '@/lib/print-formats'
 
 // Keep TemplateFieldsEditor import for future use - currently hidden
 
@@ -46,7 +57,10 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
   // Form state
   const [name, setName] = useState(template?.name || '')
   const [description, setDescription] = useState(template?.description || '')
-  const [size, setSize] = useState(template?.size || '8.5x11 inches')
+  const [size, setSize] = useState(template?.size || DEFAULT_PRINT_FORMAT)
+  // Custom sizes are stored as "custom:<width>x<height>"; older templates may just say "custom"
+  const isCustomSize = size === 'custom' || size.startsWith('custom:')
+  const [customWidth = '', customHeight = ''] = size.startsWith('custom:') ? size.slice('custom:'.length).split('x') : []
   const [htmlContent, setHtmlContent] = useState(template?.html_content || '')
   const [thumbnailUrl, setThumbnailUrl] = useState(template?.thumbnail_url || '')
   const [isActive, setIsActive] = useState(template?.is_active ?? true)
@@ -84,9 +98,13 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
   const [editCampaignColor, setEditCampaignColor] = useState('')
   const [isSavingCampaign, setIsSavingCampaign] = useState(false)
 
+  // Profile field keys are valid placeholders too; null until loaded
+  const [profileFieldKeys, setProfileFieldKeys] = useState<string[] | null>(null)
+
   // UI state
   const [isSaving, setIsSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [canForceSave, setCanForceSave] = useState(false)
 
   // Thumbnail state
   const [isGeneratingThumbnail, setIsGeneratingThumbnail] = useState(false)
@@ -143,10 +161,33 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
       }
     }
 
+    const fetchProfileFields = async () => {
+      try {
+        const response = await fetch('/api/profile-fields')
+        const result = await response.json()
+        if (response.ok) {
+          setProfileFieldKeys((result.data || []).map((f: { field_key: string }) => f.field_key))
+        }
+      } catch (err) {
+        console.error('Error fetching profile fields:', err)
+      }
+    }
+
     fetchCampaigns()
     fetchSystemPrompts()
+    fetchProfileFields()
   }, [])
 
+  // Live placeholder lint; the API runs the same check on save
+  const lintIssues = useMemo<TemplateLintIssue[] | null>(() => {
+    if (profileFieldKeys === null || !htmlContent.trim()) return null
+    return lintTemplate({
+      htmlContent,
+      fieldKeys: templateFields.map((f) => f.field_key),
+      profileFieldKeys,
+    })
+  }, [htmlContent, templateFields, profileFieldKeys])
+
   // Auto-generate thumbnail when HTML content changes
   const generateThumbnail = useCallback(async (html: string) => {
     if (!html.trim() || html === lastHtmlRef.current) return
@@ -162,6 +203,7 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
         body: JSON.stringify({
           html,
           name: name || 'template',
+          size,
         }),
       })
 
@@ -178,7 +220,7 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
     } finally {
       setIsGeneratingThumbnail(false)
     }
-  }, [name])
+  }, [name, size])
 
   // Debounced auto-generation when HTML changes (only if not using custom thumbnail)
   useEffect(() => {
@@ -424,7 +466,7 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
     }
   }
 
-  const handleSave = async () => {
+  const handleSave = async (force = false) => {
     if (!name.trim()) {
       setError('Template name is required')
       return
@@ -436,6 +478,7 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
 
     setIsSaving(true)
     setError(null)
+    setCanForceSave(false)
 
     try {
       const url = isNew ? '/api/templates' : `/api/templates/${template?.id}`
@@ -447,7 +490,7 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
         body: JSON.stringify({
           name,
           description: description || null,
-          size: size || '8.5x11 inches',
+          size: size || DEFAULT_PRINT_FORMAT,
           html_content: htmlContent,
           thumbnail_url: thumbnailUrl || null,
           is_active: isActive,
@@ -465,12 +508,18 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
             is_required: f.is_required,
             display_order: f.display_order,
           })),
+          force,
         }),
       })
 
       const result = await response.json()
 
       if (!response.ok) {
+        // Placeholder errors can be overridden; the issues are listed under the HTML
+        if (response.status === 422 && result.lint) {
+          setCanForceSave(true)
+          throw new Error('This template has placeholder errors. Fix them or save anyway.')
+        }
         throw new Error(result.error || 'Failed to save template')
       }
 
@@ -489,7 +538,7 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
           <ArrowLeft className="w-4 h-4 mr-2" />
           Back to Templates
         </Button>
-        <Button variant="default" onClick={handleSave} disabled={isSaving}>
+        <Button variant="default" onClick={() => handleSave()} disabled={isSaving}>
           {isSaving ? (
             <>
               <Spinner size="sm" className="mr-2" />
@@ -506,7 +555,14 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
 
       {error && (
         <Alert variant="destructive">
-          <AlertDescription>{error}</AlertDescription>
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>{error}</span>
+            {canForceSave && (
+              <Button variant="outline" size="sm" onClick={() => handleSave(true)} disabled={isSaving}>
+                Save Anyway
+              </Button>
+            )}
+          </AlertDescription>
         </Alert>
       )}
 
@@ -560,22 +616,54 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
                 <Label htmlFor="size" required>Print Size</Label>
                 <Select
                   id="size"
-                  value={size}
-                  onChange={(e) => setSize(e.target.value)}
+                  value={isCustomSize ? 'custom' : size}
+                  onChange={(e) => {
+                    // Custom sizes start from the current page size
+                    const format = getPrintFormat(size)
+                    setSize(e.target.value === 'custom' ? customPrintSize(format.width, format.height) : e.target.value)
+                  }}
                 >
-                  <option value="8.5x11 inches">8.5 x 11 inches (Letter)</option>
-                  <option value="8.5x14 inches">8.5 x 14 inches (Legal)</option>
-                  <option value="11x17 inches">11 x 17 inches (Tabloid)</option>
-                  <option value="A4">A4 (210 x 297 mm)</option>
-                  <option value="A5">A5 (148 x 210 mm)</option>
-                  <option value="5x7 inches">5 x 7 inches</option>
-                  <option value="4x6 inches">4 x 6 inches (Postcard)</option>
-                  <option value="6x9 inches">6 x 9 inches</option>
-                  <option value="9x12 inches">9 x 12 inches</option>
-                  <option value="custom">Custom (specify in description)</option>
+                  {!isKnownPrintSize(size) && !isCustomSize && (
+                    <option value={size}>{size} (not in the catalogue, rendered as Letter)</option>
+                  )}
+                  {Object.values(PRINT_FORMATS).map((format) => (
+                    <option key={format.id} value={format.id}>
+                      {format.label} ({format.dimensions})
+                    </option>
+                  ))}
+                  <option value="custom">Custom size</option>
                 </Select>
+                {isCustomSize && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={48}
+                      step={0.125}
+                      value={customWidth}
+                      onChange={(e) => setSize(`custom:${e.target.value}x${customHeight}`)}
+                      placeholder="Width (in)"
+                      aria-label="Custom width in inches"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      max={48}
+                      step={0.125}
+                      value={customHeight}
+                      onChange={(e) => setSize(`custom:${customWidth}x${e.target.value}`)}
+                      placeholder="Height (in)"
+                      aria-label="Custom height in inches"
+                    />
+                  </div>
+                )}
+                {isCustomSize && !parseCustomPrintSize(size) && (
+                  <p className="text-xs text-destructive">
+                    Enter a width and height between 1 and 48 inches. Until then the template renders as Letter.
+                  </p>
+                )}
                 <p className="text-xs text-muted-foreground">
-                  This size will be included in the generated prompt to ensure Claude creates content that fits this printable size.
+                  Previews, thumbnails and PDFs use this size, and it is included in the generated prompt so the design fits the page.
                 </p>
               </div>
 
@@ -872,6 +960,37 @@ export function TemplateEditor({ template, isNew = false }: TemplateEditorProps)
               />
             </div>
 
+            {/* Placeholder Lint */}
+            {lintIssues && (
+              lintIssues.length === 0 ? (
+                <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Check className="w-3.5 h-3.5 text-green-500" />
+                  All placeholders match template or profile fields
+                </p>
+              ) : (
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {lintIssues.map((issue, index) => (
+                    <li
+                      key={index}
+                      className={`flex items-start gap-2 text-xs ${
+                        issue.severity === 'error' ? 'text-destructive' : 'text-yellow-600 dark:text-yellow-400'
+                      }`}
+                    >
+                      {issue.severity === 'error' ? (
+                        <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                      ) : (
+                        <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                      )}
+                      <span>
+                        {issue.line !== undefined && <span className="font-mono">Line {issue.line}: </span>}
+                        {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+
             {/* Thumbnail Section */}
             <div className="space-y-3 pt-4 border-t border-border">
               <div className="flex items-center justify-between">
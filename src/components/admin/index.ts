@@ -1,2 +1,3 @@
 export * from './TemplateEditor'
 export * from './TemplateFieldsEditor'
+export * from './PromptLayoutEditor'
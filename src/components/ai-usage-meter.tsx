@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Sparkles } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { AIQuotaStatus } from '@/lib/ai/quota'
+
+/** Dispatched on window after an AI generation so the meter refreshes */
+export const AI_USAGE_CHANGED_EVENT = 'ai-usage-changed'
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000
+      ? `${Math.round(tokens / 1_000)}k`
+      : String(tokens)
+}
+
+/**
+ * Compact header meter showing how much of the monthly AI allowance is left.
+ * Hidden for unlimited plans.
+ */
+export function AIUsageMeter() {
+  const [quota, setQuota] = useState<AIQuotaStatus | null>(null)
+
+  useEffect(() => {
+    async function fetchQuota() {
+      try {
+        const res = await fetch('/api/ai/quota')
+        if (!res.ok) return
+        const { data } = await res.json()
+        setQuota(data)
+      } catch (err) {
+        console.warn('[ai-usage-meter] failed to load quota:', err)
+      }
+    }
+
+    fetchQuota()
+    window.addEventListener(AI_USAGE_CHANGED_EVENT, fetchQuota)
+    return () => window.removeEventListener(AI_USAGE_CHANGED_EVENT, fetchQuota)
+  }, [])
+
+  if (!quota || (quota.monthlyGenerationLimit === null && quota.monthlyTokenLimit === null)) {
+    return null
+  }
+
+  // Show whichever limit is closest to running out
+  const generationRatio = quota.monthlyGenerationLimit
+    ? quota.generationsUsed / quota.monthlyGenerationLimit
+    : quota.monthlyGenerationLimit === 0 ? 1 : 0
+  const tokenRatio = quota.monthlyTokenLimit
+    ? quota.tokensUsed / quota.monthlyTokenLimit
+    : quota.monthlyTokenLimit === 0 ? 1 : 0
+  const ratio = Math.min(Math.max(generationRatio, tokenRatio), 1)
+
+  const label = quota.monthlyGenerationLimit !== null && generationRatio >= tokenRatio
+    ? `${Math.max(quota.monthlyGenerationLimit - quota.generationsUsed, 0)} of ${quota.monthlyGenerationLimit} generations left`
+    : `${formatTokens(Math.max((quota.monthlyTokenLimit ?? 0) - quota.tokensUsed, 0))} of ${formatTokens(quota.monthlyTokenLimit ?? 0)} tokens left`
+
+  const resetDate = new Date(quota.resetsAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+  return (
+    <div
+      className="hidden md:flex items-center gap-2 text-xs text-muted-foreground"
+      title={`${quota.generationsUsed} generations and ${formatTokens(quota.tokensUsed)} tokens used this month. Resets ${resetDate}.`}
+    >
+      <Sparkles className="w-3.5 h-3.5" />
+      <div className="w-20 h-1.5 rounded-full bg-muted overflow-hidden">
+        <div
+          className={cn(
+            'h-full rounded-full transition-all',
+            ratio >= 1 ? 'bg-destructive' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-primary'
+          )}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+      <span className={cn(ratio >= 1 && 'text-destructive')}>{label}</span>
+    </div>
+  )
+}
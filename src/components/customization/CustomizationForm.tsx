@@ -6,13 +6,33 @@ import Image from 'next/image'
 import { TemplateWithFields } from '@/types'
 import { LivePreview, LivePreviewHandle } from './LivePreview'
 import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { Spinner } from '@/components/ui/spinner'
 import { Textarea } from '@/components/ui/textarea'
 import { createClient } from '@/lib/supabase/client'
 import { downloadPdfClientSide, generatePdfFromPreview } from '@/lib/client-pdf'
+import { PrintReport, MIN_PRINT_DPI } from '@/lib/print-ready'
+import { waitForRenderJob, RenderJobStatus } from '@/lib/client-render-jobs'
+import type { PdfJobResult } from '@/lib/render-jobs'
+import { DEFAULT_EXPORT_DPI, EXPORT_DPI_OPTIONS, IMAGE_EXPORT_FORMATS, IMAGE_EXPORT_FORMAT_IDS, SOCIAL_CROPS, ImageExportFormat, SocialCropId } from '@/lib/image-exports'
 import { toast } from 'sonner'
-import { Save, Download, ArrowLeft, X, FileText, MessageSquare, History, User, Bot, ImagePlus, ChevronDown, Pencil, Check, Undo2, CheckCircle2 } from 'lucide-react'
+import { Save, Download, ArrowLeft, X, FileText, MessageSquare, History, User, Bot, ImagePlus, ChevronDown, Pencil, Check, Undo2, CheckCircle2, Square, Printer, AlertTriangle, Image as ImageIcon } from 'lucide-react'
 import { Input } from '@/components/ui/input'
+import type { AppliedEditOperation } from '@/lib/ai/edit-operations'
+import { readSseStream } from '@/lib/ai/sse'
+import { AI_USAGE_CHANGED_EVENT } from '@/components/ai-usage-meter'
+
+// Minimum time between incremental preview updates while streaming
+const STREAM_FLUSH_INTERVAL_MS = 150
 
 interface PromptHistoryItem {
   id: string
@@ -27,6 +47,7 @@ interface ChangeLogItem {
   id: string
   description: string
   timestamp: Date | string
+  operations?: AppliedEditOperation[] // Structured edits applied by /api/ai/edit
 }
 
 interface ProfileFieldInfo {
@@ -80,6 +101,7 @@ export function CustomizationForm({
   // AI state - use saved rendered HTML if available, otherwise use template
   const [isGenerating, setIsGenerating] = useState(false)
   const [renderedHtml, setRenderedHtml] = useState(initialRenderedHtml || template.html_content)
+  const [streamingHtml, setStreamingHtml] = useState<string | null>(null)
   const [userPrompt, setUserPrompt] = useState('')
   const [promptHistory, setPromptHistory] = useState<PromptHistoryItem[]>(initialPromptHistory)
   const [changeLog, setChangeLog] = useState<ChangeLogItem[]>(initialChangeLog)
@@ -88,10 +110,16 @@ export function CustomizationForm({
   const previewRef = useRef<LivePreviewHandle>(null)
   const chatEndRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const [attachedImage, setAttachedImage] = useState<string | null>(null)
   const [isUploadingImage, setIsUploadingImage] = useState(false)
   const [isMobileChatOpen, setIsMobileChatOpen] = useState(false)
   const [showPdfSuccess, setShowPdfSuccess] = useState(false)
+  // Preflight results of the last print-ready PDF, shown in the success modal
+  const [printReport, setPrintReport] = useState<PrintReport | null>(null)
+  const [isExportingPrintPdf, setIsExportingPrintPdf] = useState(false)
+  const [isExportingImage, setIsExportingImage] = useState(false)
+  const [exportDpi, setExportDpi] = useState<number>(DEFAULT_EXPORT_DPI)
 
   // Check if any values have content (from profile or template values)
   const hasValues = Object.values(values).some(v => v && v.trim())
@@ -113,6 +141,8 @@ export function CustomizationForm({
     }
 
     setIsGenerating(true)
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
 
     // Add user prompt to history if provided
     if (promptToUse || imageToUse) {
@@ -129,6 +159,9 @@ export function CustomizationForm({
     // Clear attached image after sending
     setAttachedImage(null)
 
+    // Set when the AI routes reject the request with 429 (monthly quota used up)
+    let quotaMessage: string | null = null
+
     try {
       const fieldsToUse = profileFields.length > 0 ? profileFields : (template.template_fields || [])
       const valuesToUse = profileFields.length > 0 ? initialValues : values
@@ -137,6 +170,8 @@ export function CustomizationForm({
       // Use fast tool-based editing for simple text prompts (no image, no field values)
       const useFastEdit = promptToUse && !imageToUse && !hasFieldValues
 
+      let appliedOperations: AppliedEditOperation[] | undefined
+
       if (useFastEdit) {
         // Try fast tool-based editing first
         const response = await fetch('/api/ai/edit', {
@@ -145,17 +180,24 @@ export function CustomizationForm({
           body: JSON.stringify({
             htmlContent: renderedHtml,
             userPrompt: promptToUse,
+            customizationId,
+            templateId: template.id,
           }),
+          signal: abortController.signal,
         })
 
+        if (response.status === 429) {
+          quotaMessage = (await response.json()).error
+        }
         if (!response.ok) {
           throw new Error('Failed to edit')
         }
 
         const data = await response.json()
-        let newHtml = data.html
+        const newHtml = data.html
+        appliedOperations = ((data.operations || []) as AppliedEditOperation[]).filter(op => op.matched > 0)
 
-        if (newHtml) {
+        if (newHtml && appliedOperations.length > 0) {
           setRenderedHtml(newHtml)
           setHasUnsavedChanges(true) // Trigger auto-save after AI change
         }
@@ -163,14 +205,16 @@ export function CustomizationForm({
         // Add system response with HTML snapshot for revert
         const systemResponse: PromptHistoryItem = {
           id: `response-${Date.now()}`,
-          prompt: 'Template updated successfully',
+          prompt: appliedOperations.length > 0
+            ? appliedOperations.map(op => op.description).join('\n')
+            : data.message || 'No changes were made',
           timestamp: new Date(),
           type: 'system',
-          htmlSnapshot: newHtml || renderedHtml
+          htmlSnapshot: appliedOperations.length > 0 ? newHtml : renderedHtml
         }
         setPromptHistory(prev => [...prev, systemResponse])
       } else {
-        // Regular request for images or field values
+        // Regular request for images or field values, streamed into the preview as it is generated
         const response = await fetch('/api/ai/customize', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -180,15 +224,44 @@ export function CustomizationForm({
             values: valuesToUse || {},
             userPrompt: promptToUse,
             image: imageToUse,
+            stream: true,
+            customizationId,
+            templateId: template.id,
           }),
+          signal: abortController.signal,
         })
 
+        if (response.status === 429) {
+          quotaMessage = (await response.json()).error
+        }
         if (!response.ok) {
           throw new Error('Failed to customize')
         }
 
-        const data = await response.json()
-        const newHtml = data.html
+        let partialHtml = ''
+        let lastFlush = 0
+        let newHtml: string | null = null
+
+        await readSseStream(response, (event) => {
+          if (event.event === 'delta') {
+            partialHtml += event.data.text
+            // Throttle preview updates so large documents don't re-render on every token
+            if (Date.now() - lastFlush > STREAM_FLUSH_INTERVAL_MS) {
+              lastFlush = Date.now()
+              setStreamingHtml(partialHtml)
+            }
+          } else if (event.event === 'done') {
+            newHtml = event.data.html as string
+          } else {
+            throw new Error(event.data.error)
+          }
+        })
+
+        if (!newHtml) {
+          throw new Error('Stream ended before generation finished')
+        }
+
+        setStreamingHtml(null)
         setRenderedHtml(newHtml)
         setHasUnsavedChanges(true) // Trigger auto-save after AI change
 
@@ -203,32 +276,52 @@ export function CustomizationForm({
         setPromptHistory(prev => [...prev, systemResponse])
       }
 
-      // Add to change log
-      const changeDescription = promptToUse
-        ? `Applied: "${promptToUse.length > 50 ? promptToUse.slice(0, 50) + '...' : promptToUse}"`
-        : 'Regenerated with field values'
+      // Add to change log (skip edits that matched nothing)
+      if (appliedOperations?.length !== 0) {
+        const changeDescription = promptToUse
+          ? `Applied: "${promptToUse.length > 50 ? promptToUse.slice(0, 50) + '...' : promptToUse}"`
+          : 'Regenerated with field values'
 
-      const newChange: ChangeLogItem = {
-        id: `change-${Date.now()}`,
-        description: changeDescription,
-        timestamp: new Date()
+        const newChange: ChangeLogItem = {
+          id: `change-${Date.now()}`,
+          description: changeDescription,
+          timestamp: new Date(),
+          operations: appliedOperations,
+        }
+        setChangeLog(prev => [...prev, newChange])
       }
-      setChangeLog(prev => [...prev, newChange])
 
     } catch (error) {
-      console.error('AI customization error:', error)
+      // Cancelled generations keep the previous HTML and are noted in the history
+      const cancelled = abortController.signal.aborted
+      if (!cancelled) {
+        console.error('AI customization error:', error)
+      }
       const errorResponse: PromptHistoryItem = {
         id: `error-${Date.now()}`,
-        prompt: 'Failed to generate. Please try again.',
+        prompt: cancelled ? 'Generation cancelled' : quotaMessage || 'Failed to generate. Please try again.',
         timestamp: new Date(),
         type: 'system'
       }
       setPromptHistory(prev => [...prev, errorResponse])
       // Keep current state on error - don't revert
     } finally {
+      abortControllerRef.current = null
+      setStreamingHtml(null)
       setIsGenerating(false)
+      window.dispatchEvent(new Event(AI_USAGE_CHANGED_EVENT))
     }
-  }, [template.html_content, template.template_fields, values, hasValues, hasProfileValues, renderedHtml, profileFields, initialValues, attachedImage])
+  }, [template.html_content, template.template_fields, values, hasValues, hasProfileValues, renderedHtml, profileFields, initialValues, attachedImage, customizationId, template.id])
+
+  // Abort the in-flight AI request; the server cancels the upstream provider call
+  const handleCancelGeneration = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  // Abort any in-flight generation when leaving the editor
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
 
   const handleRegenerate = () => {
     generateAiHtml(userPrompt, attachedImage)
@@ -422,6 +515,13 @@ export function CustomizationForm({
       setHasUnsavedChanges(false)
       setSaveSuccess(true)
 
+      // The thumbnail renders in the background after the save
+      if (result.thumbnail_job_id) {
+        waitForRenderJob(result.thumbnail_job_id)
+          .then(() => toast.success('Design thumbnail updated'))
+          .catch((err) => console.error('Thumbnail render failed:', err))
+      }
+
       if (!customizationId && result.data?.id) {
         router.replace(`/designs/${result.data.id}`)
       } else {
@@ -451,6 +551,7 @@ export function CustomizationForm({
 
   const handleDownloadPdf = async () => {
     setIsGeneratingPdf(true)
+    setPrintReport(null)
     const filename = name.replace(/[^a-z0-9]/gi, '_').toLowerCase()
 
     try {
@@ -461,6 +562,7 @@ export function CustomizationForm({
         body: JSON.stringify({
           html: renderedHtml,
           filename,
+          size: template.size,
         }),
       })
 
@@ -494,7 +596,10 @@ export function CustomizationForm({
 
         if (previewBody) {
           console.log('[PDF] Capturing from live preview...')
-          const blob = await generatePdfFromPreview(previewBody, filename)
+          const blob = await generatePdfFromPreview(previewBody, filename, template.size).catch((vectorError) => {
+            console.warn('[PDF] Vector PDF failed, capturing as image:', vectorError)
+            return generatePdfFromPreview(previewBody, filename, template.size, { mode: 'raster' })
+          })
 
           // Download the blob
           const url = URL.createObjectURL(blob)
@@ -508,7 +613,10 @@ export function CustomizationForm({
         } else {
           // Fallback to HTML rendering
           console.log('[PDF] Falling back to HTML rendering...')
-          await downloadPdfClientSide(renderedHtml, filename)
+          await downloadPdfClientSide(renderedHtml, filename, template.size).catch((vectorError) => {
+            console.warn('[PDF] Vector PDF failed, capturing as image:', vectorError)
+            return downloadPdfClientSide(renderedHtml, filename, template.size, { mode: 'raster' })
+          })
         }
 
         setShowPdfSuccess(true)
@@ -523,6 +631,108 @@ export function CustomizationForm({
     }
   }
 
+  // Print-ready PDFs render in a background job so large exports aren't cut off by request
+  // timeouts. Bleed and crop marks need server rendering, so there is no browser fallback.
+  const handleDownloadPrintPdf = async () => {
+    setIsExportingPrintPdf(true)
+    const filename = `${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_print`
+
+    try {
+      const response = await fetch('/api/render-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind: 'pdf',
+          customization_id: customizationId ?? null,
+          html: renderedHtml,
+          filename,
+          size: template.size,
+          printReady: true,
+        }),
+      })
+
+      const queued = await response.json()
+
+      if (!response.ok) {
+        throw new Error(queued.error || 'Failed to start print-ready PDF')
+      }
+
+      // Repeat exports of an unchanged design come back done from the render cache
+      let job = queued.data as RenderJobStatus
+      if (job.status !== 'done') {
+        toast.info('Preparing your print-ready PDF...')
+        job = await waitForRenderJob(job.id)
+      }
+      const result = job.result as unknown as PdfJobResult
+
+      // Browsers ignore the download attribute on cross-origin links, so fetch the file first
+      const fileResponse = await fetch(result.url)
+      if (!fileResponse.ok) {
+        throw new Error('Failed to download print-ready PDF')
+      }
+
+      setPrintReport(result.printReport)
+
+      const blob = await fileResponse.blob()
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${filename}.pdf`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      setShowPdfSuccess(true)
+    } catch (error) {
+      console.error('Print-ready PDF error:', error)
+      toast.error('Failed to generate print-ready PDF')
+    } finally {
+      setIsExportingPrintPdf(false)
+    }
+  }
+
+  const handleExportImage = async (format: ImageExportFormat, crop: SocialCropId | null = null) => {
+    setIsExportingImage(true)
+    const baseName = name.replace(/[^a-z0-9]/gi, '_').toLowerCase()
+    const filename = crop ? `${baseName}_${crop}` : `${baseName}_${exportDpi}dpi`
+
+    try {
+      const response = await fetch('/api/export/image', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          html: renderedHtml,
+          filename,
+          size: template.size,
+          format,
+          dpi: exportDpi,
+          crop,
+        }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to export image')
+      }
+
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${filename}.${format}`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Image export error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to export image')
+    } finally {
+      setIsExportingImage(false)
+    }
+  }
+
   const handleClose = () => {
     router.push('/templates')
   }
@@ -576,6 +786,44 @@ export function CustomizationForm({
             <p className="text-sm text-gray-400 mb-6">
               Your file has been downloaded successfully.
             </p>
+            {printReport && (printReport.lowResolutionImages.length > 0 || printReport.failedFonts.length > 0 || printReport.outOfGamutColors.length > 0) && (
+              <div className="text-left text-sm bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 mb-6 space-y-2">
+                <p className="flex items-center gap-2 text-amber-300 font-medium">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  Check before sending to the printer
+                </p>
+                {printReport.lowResolutionImages.length > 0 && (
+                  <div>
+                    <p className="text-gray-300">Images below {MIN_PRINT_DPI} DPI may print blurry:</p>
+                    <ul className="mt-1 space-y-0.5 text-xs text-gray-400">
+                      {printReport.lowResolutionImages.map((image) => (
+                        <li key={image.src} className="truncate" title={image.src}>
+                          {image.effectiveDpi} DPI - {image.src}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {printReport.failedFonts.length > 0 && (
+                  <p className="text-gray-300">
+                    Fonts that failed to load and were replaced: {printReport.failedFonts.join(', ')}
+                  </p>
+                )}
+                {printReport.outOfGamutColors.length > 0 && (
+                  <div>
+                    <p className="text-gray-300">Colors too saturated for CMYK print will look duller on paper:</p>
+                    <ul className="mt-1 flex flex-wrap gap-2 text-xs text-gray-400">
+                      {printReport.outOfGamutColors.map((color) => (
+                        <li key={color.color} className="flex items-center gap-1">
+                          <span className="w-3 h-3 rounded-sm border border-white/20" style={{ backgroundColor: color.color }} />
+                          {color.color}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
             <Button
               variant="default"
               onClick={() => setShowPdfSuccess(false)}
@@ -674,6 +922,69 @@ export function CustomizationForm({
               </>
             )}
           </Button>
+          <Button
+            variant="outline"
+            onClick={handleDownloadPrintPdf}
+            disabled={isExportingPrintPdf}
+            className="hidden sm:flex px-2 sm:px-3"
+            size="sm"
+            title="Print-ready PDF with bleed and crop marks"
+          >
+            {isExportingPrintPdf ? (
+              <Spinner size="sm" />
+            ) : (
+              <>
+                <Printer className="w-4 h-4 sm:mr-2" />
+                <span className="hidden md:inline">Print</span>
+              </>
+            )}
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={isExportingImage}
+                className="hidden sm:flex px-2 sm:px-3"
+                size="sm"
+                title="Export as an image"
+              >
+                {isExportingImage ? (
+                  <Spinner size="sm" />
+                ) : (
+                  <>
+                    <ImageIcon className="w-4 h-4 sm:mr-2" />
+                    <span className="hidden md:inline">Image</span>
+                  </>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+              <DropdownMenuLabel>Resolution</DropdownMenuLabel>
+              <DropdownMenuRadioGroup value={String(exportDpi)} onValueChange={(value) => setExportDpi(Number(value))}>
+                {EXPORT_DPI_OPTIONS.map((dpi) => (
+                  // Keep the menu open so a format can be picked next
+                  <DropdownMenuRadioItem key={dpi} value={String(dpi)} onSelect={(e) => e.preventDefault()}>
+                    {dpi} DPI
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Full page</DropdownMenuLabel>
+              {IMAGE_EXPORT_FORMAT_IDS.map((format) => (
+                <DropdownMenuItem key={format} onSelect={() => handleExportImage(format)}>
+                  {IMAGE_EXPORT_FORMATS[format].label}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Social &amp; email (JPG)</DropdownMenuLabel>
+              {Object.values(SOCIAL_CROPS).map((crop) => (
+                <DropdownMenuItem key={crop.id} onSelect={() => handleExportImage('jpg', crop.id)}>
+                  {crop.label}
+                  <span className="ml-auto text-xs text-gray-500">{crop.width}x{crop.height}</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
@@ -691,8 +1002,10 @@ export function CustomizationForm({
             <LivePreview
               ref={previewRef}
               htmlContent={renderedHtml}
+              size={template.size}
               fullHeight
               isLoading={isGenerating}
+              streamingHtml={streamingHtml}
             />
           </div>
         </div>
@@ -804,7 +1117,7 @@ export function CustomizationForm({
                               className="max-w-full rounded mb-2 max-h-32 object-contain"
                             />
                           )}
-                          <p className="text-sm">{item.prompt}</p>
+                          <p className="text-sm whitespace-pre-line">{item.prompt}</p>
                           <div className="flex items-center justify-between gap-2 mt-1">
                             <p className="text-[10px] opacity-50">
                               {formatTime(item.timestamp)}
@@ -847,6 +1160,15 @@ export function CustomizationForm({
                         className="bg-[#2a2a2a] rounded-lg px-3 py-2 border border-white/5"
                       >
                         <p className="text-sm text-gray-300">{item.description}</p>
+                        {item.operations && item.operations.length > 0 && (
+                          <ul className="mt-1 space-y-0.5">
+                            {item.operations.map((op, index) => (
+                              <li key={index} className="text-xs text-gray-500 font-mono truncate">
+                                {op.description}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
                         <p className="text-[10px] text-gray-500 mt-1">
                           {formatTime(item.timestamp)}
                         </p>
@@ -905,29 +1227,31 @@ export function CustomizationForm({
                     )}
                   </button>
                 </div>
-                <Button
-                  onClick={handleRegenerate}
-                  disabled={isGenerating || (!userPrompt.trim() && !hasValues && !attachedImage)}
-                  className="w-full"
-                >
-                  {isGenerating ? (
-                    <>
-                      <Spinner size="sm" className="mr-2" />
-                      Generating...
-                    </>
-                  ) : (
-                    <>
-                      <Image
-                        src="/claude-loading-animation.svg"
-                        alt="Claude"
-                        width={16}
-                        height={16}
-                        className="mr-2"
-                      />
-                      Generate with Claude
-                    </>
-                  )}
-                </Button>
+                {isGenerating ? (
+                  <Button
+                    onClick={handleCancelGeneration}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <Square className="w-4 h-4 mr-2" />
+                    Stop generating
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleRegenerate}
+                    disabled={!userPrompt.trim() && !hasValues && !attachedImage}
+                    className="w-full"
+                  >
+                    <Image
+                      src="/claude-loading-animation.svg"
+                      alt="Claude"
+                      width={16}
+                      height={16}
+                      className="mr-2"
+                    />
+                    Generate with Claude
+                  </Button>
+                )}
               </div>
             </div>
           </div>
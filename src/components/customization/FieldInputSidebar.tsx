@@ -5,10 +5,15 @@ import Image from 'next/image'
 import { useTheme } from 'next-themes'
 import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
-import { Copy, Check, Loader2, FileDown, FileCode } from 'lucide-react'
+import { Switch } from '@/components/ui/switch'
+import { Copy, Check, Loader2, FileDown, FileCode, AlertTriangle, Save } from 'lucide-react'
 import { TemplateField } from '@/types/database'
-import { generateClaudePrompt } from '@/lib/prompt-generator'
+import { generatePrompt, PROMPT_TARGETS, DEFAULT_PROMPT_TARGET, isPromptTarget, PromptTarget } from '@/lib/prompt-generator'
+import { PromptLayout, DEFAULT_PROMPT_LAYOUT, DEFAULT_TOKEN_WARNING_THRESHOLD } from '@/lib/prompt-layout'
+import { compactHtml, estimateTokens, restoreEmbeddedAssets, CompactionResult } from '@/lib/prompt-compaction'
 import { downloadPdfClientSide } from '@/lib/client-pdf'
+import { getPrintFormat, describePrintFormat } from '@/lib/print-formats'
+import { createClient } from '@/lib/supabase/client'
 
 interface ProfileField {
   id: string
@@ -54,6 +59,13 @@ export function FieldInputSidebar({
   const [copied, setCopied] = useState(false)
   const [isPromptGenerated, setIsPromptGenerated] = useState(false)
   const [mounted, setMounted] = useState(false)
+  const [promptTarget, setPromptTarget] = useState<PromptTarget>(DEFAULT_PROMPT_TARGET)
+  const [compactEnabled, setCompactEnabled] = useState(false)
+  const [tokenEstimate, setTokenEstimate] = useState<{ tokens: number; uncompactedTokens: number | null }>({
+    tokens: 0,
+    uncompactedTokens: null,
+  })
+  const [tokenWarningThreshold, setTokenWarningThreshold] = useState(DEFAULT_TOKEN_WARNING_THRESHOLD)
   const { theme } = useTheme()
 
   // Prevent hydration mismatch
@@ -67,6 +79,8 @@ export function FieldInputSidebar({
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false)
   const [pdfError, setPdfError] = useState('')
   const [isDragActive, setIsDragActive] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importErrors, setImportErrors] = useState<string[]>([])
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const loaderSteps = [
@@ -77,10 +91,48 @@ export function FieldInputSidebar({
 
   const valuesRef = useRef(values)
   valuesRef.current = values
-
-  // Load saved values and generate prompt on mount
+  const promptTargetRef = useRef(promptTarget)
+  promptTargetRef.current = promptTarget
+  // Admin-defined section layout; only read when building the prompt
+  const promptLayoutRef = useRef<PromptLayout>(DEFAULT_PROMPT_LAYOUT)
+  const compactEnabledRef = useRef(compactEnabled)
+  compactEnabledRef.current = compactEnabled
+  // Compaction of a large template is not free, so it is kept until the HTML changes
+  const compactionRef = useRef<{ source: string; result: CompactionResult } | null>(null)
+
+  // Load saved values, prompt target preference and layout, then generate prompt on mount
   useEffect(() => {
     const loadAndGenerate = async () => {
+      try {
+        const supabase = createClient()
+        const { data: { user } } = await supabase.auth.getUser()
+        if (user) {
+          const { data: profile } = await supabase
+            .from('profiles')
+            .select('prompt_target')
+            .eq('id', user.id)
+            .maybeSingle()
+
+          if (isPromptTarget(profile?.prompt_target)) {
+            promptTargetRef.current = profile.prompt_target
+            setPromptTarget(profile.prompt_target)
+          }
+        }
+      } catch (err) {
+        console.error('Error loading prompt target:', err)
+      }
+
+      try {
+        const response = await fetch('/api/prompts/layout')
+        if (response.ok) {
+          const result = await response.json()
+          promptLayoutRef.current = result.data
+          setTokenWarningThreshold(result.data.tokenWarningThreshold)
+        }
+      } catch (err) {
+        console.error('Error loading prompt layout:', err)
+      }
+
       try {
         const response = await fetch(`/api/templates/${templateId}/values`)
         if (response.ok) {
@@ -103,23 +155,46 @@ export function FieldInputSidebar({
     loadAndGenerate()
   }, [templateId])
 
-  const triggerGeneration = useCallback(() => {
-    setShowLoader(true)
-    setLoaderStep(0)
-
-    // Generate prompt using ref for latest values
-    const prompt = generateClaudePrompt({
+  // Generate prompt using refs for latest values, target, layout and compaction mode
+  const updatePrompt = useCallback(() => {
+    const input = {
       htmlContent,
       templateName,
-      templateSize: templateSize || '8.5x11 inches',
+      templateSize: describePrintFormat(getPrintFormat(templateSize)),
       templateFields,
       templateFieldValues: valuesRef.current,
       profileFields,
       profileValues,
       systemPrompt,
       templatePrompt: templatePrompt || undefined,
-    })
-    setGeneratedPrompt(prompt)
+    }
+    const fullPrompt = generatePrompt(input, promptTargetRef.current, promptLayoutRef.current)
+
+    if (!compactEnabledRef.current) {
+      setGeneratedPrompt(fullPrompt)
+      setTokenEstimate({ tokens: estimateTokens(fullPrompt), uncompactedTokens: null })
+      return
+    }
+
+    if (compactionRef.current?.source !== htmlContent) {
+      compactionRef.current = { source: htmlContent, result: compactHtml(htmlContent) }
+    }
+    const { html, embeddedAssets } = compactionRef.current.result
+    const compactPrompt = generatePrompt(
+      { ...input, htmlContent: html, embeddedAssets },
+      promptTargetRef.current,
+      promptLayoutRef.current
+    )
+
+    setGeneratedPrompt(compactPrompt)
+    setTokenEstimate({ tokens: estimateTokens(compactPrompt), uncompactedTokens: estimateTokens(fullPrompt) })
+  }, [htmlContent, templateName, templateSize, templateFields, profileFields, profileValues, systemPrompt, templatePrompt])
+
+  const triggerGeneration = useCallback(() => {
+    setShowLoader(true)
+    setLoaderStep(0)
+
+    updatePrompt()
 
     // Step through loader messages
     setTimeout(() => setLoaderStep(1), 800)
@@ -131,7 +206,38 @@ export function FieldInputSidebar({
       setIsPromptGenerated(true)
       setCopied(false)
     }, 2400)
-  }, [htmlContent, templateName, templateSize, templateFields, profileFields, profileValues, systemPrompt, templatePrompt])
+  }, [updatePrompt])
+
+  // Switch target: re-render the prompt in place and remember the choice on the profile
+  const handleTargetChange = async (target: PromptTarget) => {
+    promptTargetRef.current = target
+    setPromptTarget(target)
+    updatePrompt()
+    setCopied(false)
+
+    try {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      if (user) {
+        await supabase
+          .from('profiles')
+          .update({ prompt_target: target })
+          .eq('id', user.id)
+      }
+    } catch (err) {
+      console.error('Error saving prompt target:', err)
+    }
+  }
+
+  const handleCompactChange = (enabled: boolean) => {
+    compactEnabledRef.current = enabled
+    setCompactEnabled(enabled)
+    updatePrompt()
+    setCopied(false)
+  }
+
+  const targetInfo = PROMPT_TARGETS[promptTarget]
+  const isOverTokenThreshold = tokenEstimate.tokens > tokenWarningThreshold
 
   const handleCopyPrompt = async () => {
     try {
@@ -139,10 +245,13 @@ export function FieldInputSidebar({
       setCopied(true)
       toast.success('Prompt copied to clipboard')
 
-      // Open Claude after 1.5 seconds
-      setTimeout(() => {
-        window.open('https://claude.ai/new', '_blank')
-      }, 1500)
+      // Open the target chat app after 1.5 seconds
+      if (targetInfo.appUrl) {
+        const appUrl = targetInfo.appUrl
+        setTimeout(() => {
+          window.open(appUrl, '_blank')
+        }, 1500)
+      }
 
       // Reset copied state after delay
       setTimeout(() => {
@@ -162,12 +271,14 @@ export function FieldInputSidebar({
 
   const processFile = (file: File) => {
     setPdfError('')
+    setImportErrors([])
     setUploadedFileName(file.name)
 
     const reader = new FileReader()
     reader.onload = (event) => {
       const content = event.target?.result as string
-      setUploadedHtml(content)
+      // A compacted prompt left references in place of inline images and fonts
+      setUploadedHtml(restoreEmbeddedAssets(content, compactionRef.current?.result.embeddedAssets ?? []))
     }
     reader.onerror = () => {
       setPdfError('Failed to read file')
@@ -219,6 +330,7 @@ export function FieldInputSidebar({
           html: uploadedHtml,
           filename: `${filename}-outlined`,
           outlined: true,
+          size: templateSize,
         }),
       })
 
@@ -241,8 +353,11 @@ export function FieldInputSidebar({
       toast.info('Generating PDF in browser...')
 
       try {
-        // Fallback to client-side PDF generation
-        await downloadPdfClientSide(uploadedHtml, filename)
+        // Fallback to client-side PDF generation, as an image if the vector PDF fails
+        await downloadPdfClientSide(uploadedHtml, filename, templateSize).catch((vectorError) => {
+          console.warn('[PDF] Vector PDF failed, capturing as image:', vectorError)
+          return downloadPdfClientSide(uploadedHtml, filename, templateSize, { mode: 'raster' })
+        })
         toast.success('PDF downloaded successfully')
       } catch (clientError) {
         console.error('Client PDF generation error:', clientError)
@@ -254,6 +369,49 @@ export function FieldInputSidebar({
     }
   }
 
+  // Save the AI-generated HTML as a customization so it shows up in the user's designs
+  const handleSaveDesign = async () => {
+    if (!uploadedHtml.trim()) return
+
+    setIsImporting(true)
+    setImportErrors([])
+
+    try {
+      const response = await fetch('/api/customizations/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          template_id: templateId,
+          name: templateName,
+          html: uploadedHtml,
+          source: promptTarget,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        if (Array.isArray(result.details) && result.details.every((d: unknown) => typeof d === 'string')) {
+          setImportErrors(result.details)
+        }
+        throw new Error(result.error || 'Failed to save design')
+      }
+
+      const customizationId = result.data.id
+      toast.success('Design saved to My Designs', {
+        action: {
+          label: 'View',
+          onClick: () => window.open(`/preview/${customizationId}`, '_blank'),
+        },
+      })
+    } catch (err) {
+      console.error('Error importing design:', err)
+      toast.error(err instanceof Error ? err.message : 'Failed to save design')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
   return (
     <div className="h-full flex flex-col bg-card border-r border-border relative">
       {/* Content */}
@@ -330,19 +488,64 @@ export function FieldInputSidebar({
               <h4 className="text-base font-medium text-foreground">Your prompt is ready</h4>
             </div>
 
+            {/* Prompt Target */}
+            <div className="space-y-2">
+              <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Prompt For</span>
+              <div className="grid grid-cols-4 gap-1 bg-muted rounded-lg p-1">
+                {(Object.keys(PROMPT_TARGETS) as PromptTarget[]).map((target) => (
+                  <button
+                    key={target}
+                    onClick={() => handleTargetChange(target)}
+                    title={PROMPT_TARGETS[target].description}
+                    className={`px-2 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                      promptTarget === target
+                        ? 'bg-primary text-primary-foreground'
+                        : 'text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    {PROMPT_TARGETS[target].label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">{targetInfo.description}</p>
+            </div>
+
             {/* Prompt Preview */}
             <div className="space-y-[12px]">
               <div className="flex items-center justify-between">
                 <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Generated Prompt</span>
-                <span className="text-xs text-muted-foreground">{generatedPrompt.length.toLocaleString()} chars</span>
+                <span
+                  className={`text-xs ${isOverTokenThreshold ? 'text-yellow-600 dark:text-yellow-400' : 'text-muted-foreground'}`}
+                  title="Estimated at about 4 characters per token"
+                >
+                  ~{tokenEstimate.tokens.toLocaleString()} tokens
+                  {tokenEstimate.uncompactedTokens !== null && (
+                    <> (was ~{tokenEstimate.uncompactedTokens.toLocaleString()})</>
+                  )}
+                </span>
               </div>
+              <label className="flex items-center justify-between gap-3 cursor-pointer">
+                <span className="text-xs text-muted-foreground">
+                  Compact HTML (strip comments and whitespace, shorten inline styles and embedded images)
+                </span>
+                <Switch checked={compactEnabled} onCheckedChange={handleCompactChange} />
+              </label>
+              {isOverTokenThreshold && (
+                <div className="flex items-start gap-2 rounded-lg border border-yellow-500/30 bg-yellow-500/10 px-3 py-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-yellow-600 dark:text-yellow-400" />
+                  <p className="text-xs text-yellow-700 dark:text-yellow-300">
+                    This prompt is larger than {tokenWarningThreshold.toLocaleString()} tokens and may be too long to paste.
+                    {!compactEnabled && ' Try turning on Compact HTML.'}
+                  </p>
+                </div>
+              )}
               <div className="bg-muted border border-border rounded-xl p-4 overflow-hidden">
                 <pre className="text-xs text-foreground whitespace-pre-wrap font-mono leading-relaxed line-clamp-5">
                   {generatedPrompt}
                 </pre>
               </div>
 
-              {/* Copy Button with Claude logo */}
+              {/* Copy Button with target logo/label */}
               <Button
                 onClick={handleCopyPrompt}
                 className="w-full h-14 text-base"
@@ -351,15 +554,20 @@ export function FieldInputSidebar({
                 {copied ? (
                   <>
                     <Check className="w-5 h-5" />
-                    <span>Copied! Opening Claude...</span>
+                    <span>{targetInfo.appUrl ? `Copied! Opening ${targetInfo.label}...` : 'Copied!'}</span>
                   </>
-                ) : (
+                ) : promptTarget === 'claude-artifact' ? (
                   <>
                     <Copy className="w-4 h-4" />
                     <span>Copy</span>
                     <Image src={mounted && theme === 'dark' ? '/claude.svg' : '/dark-claude.svg'} alt="Claude" width={70} height={18} className="opacity-70" />
                     <span>Prompt</span>
                   </>
+                ) : (
+                  <>
+                    <Copy className="w-4 h-4" />
+                    <span>Copy {promptTarget === 'api-messages' ? 'JSON Payload' : `${targetInfo.label} Prompt`}</span>
+                  </>
                 )}
               </Button>
             </div>
@@ -372,7 +580,7 @@ export function FieldInputSidebar({
             {/* Step 2 */}
             <div className="flex items-center gap-3">
               <span className="px-2 py-0.5 rounded bg-secondary text-muted-foreground text-xs font-medium">Step 2</span>
-              <h4 className="text-base font-medium text-foreground">Convert Claude HTML to Print-Ready PDF</h4>
+              <h4 className="text-base font-medium text-foreground">Convert AI HTML to Print-Ready PDF</h4>
             </div>
 
             {/* PDF Upload Area */}
@@ -415,6 +623,13 @@ export function FieldInputSidebar({
               {pdfError && (
                 <p className="text-xs text-destructive">{pdfError}</p>
               )}
+              {importErrors.length > 0 && (
+                <ul className="text-xs text-destructive list-disc pl-4 space-y-0.5">
+                  {importErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
 
               {/* Generate Button */}
               <Button
@@ -434,6 +649,25 @@ export function FieldInputSidebar({
                   </>
                 )}
               </Button>
+
+              <Button
+                onClick={handleSaveDesign}
+                disabled={isImporting || !uploadedHtml.trim()}
+                variant="outline"
+                className="w-full h-12"
+              >
+                {isImporting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Saving design...
+                  </>
+                ) : (
+                  <>
+                    <Save className="w-4 h-4 mr-2" />
+                    Save to My Designs
+                  </>
+                )}
+              </Button>
             </div>
 
           </div>
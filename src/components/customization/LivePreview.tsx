@@ -5,14 +5,16 @@ import { Button } from '@/components/ui/button'
 import { Spinner } from '@/components/ui/spinner'
 import { AiLoader } from '@/components/ui/ai-loader'
 import { Camera, Maximize2, Minimize2, ZoomIn, ZoomOut } from 'lucide-react'
-
-// Letter size width (8.5" at 96dpi) - height will be auto based on content
-const LETTER_WIDTH = 816
+import { getPrintFormat, getPrintPixelSize } from '@/lib/print-formats'
 
 interface LivePreviewProps {
   htmlContent: string
+  /** Template print size; the preview is as wide as the page (height follows the content) */
+  size?: string | null
   fullHeight?: boolean
   isLoading?: boolean
+  /** Partial HTML from an in-flight AI generation, written into the preview as it arrives */
+  streamingHtml?: string | null
   onRefresh?: () => void
 }
 
@@ -24,13 +26,16 @@ export interface LivePreviewHandle {
 }
 
 export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
-  function LivePreview({ htmlContent, fullHeight = false, isLoading = false, onRefresh }, ref) {
+  function LivePreview({ htmlContent, size = null, fullHeight = false, isLoading = false, streamingHtml = null, onRefresh }, ref) {
     const [isFullscreen, setIsFullscreen] = useState(false)
     const [scale, setScale] = useState(1)
     const [isTakingScreenshot, setIsTakingScreenshot] = useState(false)
     const [iframeHeight, setIframeHeight] = useState(600)
     const containerRef = useRef<HTMLDivElement>(null)
     const iframeRef = useRef<HTMLIFrameElement>(null)
+    const writtenLengthRef = useRef(0)
+    const isStreaming = streamingHtml !== null
+    const pageWidth = getPrintPixelSize(getPrintFormat(size)).width
 
     // Auto-resize iframe based on content height
     const updateIframeHeight = useCallback(() => {
@@ -50,6 +55,23 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
       return () => clearTimeout(timer)
     }, [htmlContent, updateIframeHeight])
 
+    // While streaming, append only the new part of the document instead of reloading the iframe.
+    // The streaming iframe is keyed separately, so it is replaced by a fresh srcDoc frame when done.
+    useEffect(() => {
+      const doc = iframeRef.current?.contentDocument
+      if (streamingHtml === null || !doc) {
+        writtenLengthRef.current = 0
+        return
+      }
+
+      if (writtenLengthRef.current === 0) {
+        doc.open()
+      }
+      doc.write(streamingHtml.slice(writtenLengthRef.current))
+      writtenLengthRef.current = streamingHtml.length
+      updateIframeHeight()
+    }, [streamingHtml, updateIframeHeight])
+
     // Zoom controls
     const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2]
     const MIN_ZOOM = 0.25
@@ -79,6 +101,7 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
           body: JSON.stringify({
             html: htmlContent,
             filename: `preview-${Date.now()}`,
+            size,
           }),
         })
 
@@ -101,7 +124,7 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
       } finally {
         setIsTakingScreenshot(false)
       }
-    }, [htmlContent])
+    }, [htmlContent, size])
 
     // Expose iframe document, rendered HTML, and screenshot functions to parent
     useImperativeHandle(ref, () => ({
@@ -127,6 +150,16 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
       </div>
     )
 
+    // Non-blocking indicator shown once streamed content is visible
+    const StreamingIndicator = () => (
+      <div className="flex items-center gap-1.5 text-xs text-[#f5d5d5]">
+        <Spinner size="sm" />
+        Streaming...
+      </div>
+    )
+
+    const showLoadingOverlay = isLoading && !isStreaming
+
     if (isFullscreen) {
       return (
         <div className="fixed inset-0 z-50 bg-[#141414]">
@@ -139,10 +172,11 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
               Exit Fullscreen
             </Button>
           </div>
-          {isLoading && <LoadingOverlay />}
+          {showLoadingOverlay && <LoadingOverlay />}
           <iframe
+            key={isStreaming ? 'stream' : 'static'}
             ref={iframeRef}
-            srcDoc={htmlContent}
+            srcDoc={isStreaming ? undefined : htmlContent}
             className="w-full h-full"
             title="Live Preview"
             sandbox="allow-same-origin allow-scripts"
@@ -156,10 +190,11 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
       return (
         <div ref={containerRef} className="h-full flex flex-col bg-[#1a1a1a] relative">
           {/* Loading overlay outside scrollable area to cover entire container */}
-          {isLoading && <LoadingOverlay />}
+          {showLoadingOverlay && <LoadingOverlay />}
           <div className="flex items-center justify-between px-4 py-2 bg-[#1a1a1a] border-b border-white/5 shrink-0">
             <div className="flex items-center gap-2">
               <span className="text-sm font-medium text-gray-300">Live Preview</span>
+              {isStreaming && <StreamingIndicator />}
             </div>
             <div className="flex items-center gap-1">
               {/* Zoom Controls */}
@@ -180,11 +215,12 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
                   transformOrigin: 'top center',
                 }}
               >
-                <div className="bg-white shadow-lg rounded-lg overflow-hidden" style={{ width: `${LETTER_WIDTH}px`, minHeight: '600px' }}>
+                <div className="bg-white shadow-lg rounded-lg overflow-hidden" style={{ width: `${pageWidth}px`, minHeight: '600px' }}>
                   <iframe
+                    key={isStreaming ? 'stream' : 'static'}
                     ref={iframeRef}
-                    srcDoc={htmlContent}
-                    style={{ width: `${LETTER_WIDTH}px`, height: `${iframeHeight}px`, minHeight: '600px', border: 'none' }}
+                    srcDoc={isStreaming ? undefined : htmlContent}
+                    style={{ width: `${pageWidth}px`, height: `${iframeHeight}px`, minHeight: '600px', border: 'none' }}
                     title="Live Preview"
                     sandbox="allow-same-origin allow-scripts"
                     onLoad={updateIframeHeight}
@@ -202,6 +238,7 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
         <div className="flex items-center justify-between px-4 py-2 bg-[#2a2a2a] border-b border-white/5">
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-gray-300">Live Preview</span>
+            {isStreaming && <StreamingIndicator />}
           </div>
           <div className="flex gap-2">
             <Button variant="ghost" size="sm" onClick={takeScreenshot} disabled={isTakingScreenshot} title="Take Screenshot">
@@ -213,7 +250,7 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
           </div>
         </div>
         <div className="p-4 overflow-auto relative" style={{ maxHeight: '70vh' }}>
-          {isLoading && <LoadingOverlay />}
+          {showLoadingOverlay && <LoadingOverlay />}
           <div
             style={{
               transform: `scale(${scale})`,
@@ -223,8 +260,9 @@ export const LivePreview = forwardRef<LivePreviewHandle, LivePreviewProps>(
           >
             <div className="bg-white shadow-lg rounded-lg overflow-hidden">
               <iframe
+                key={isStreaming ? 'stream' : 'static'}
                 ref={iframeRef}
-                srcDoc={htmlContent}
+                srcDoc={isStreaming ? undefined : htmlContent}
                 className="w-full"
                 style={{ minHeight: '600px' }}
                 title="Live Preview"
@@ -6,6 +6,7 @@ import { StaticPreview } from './StaticPreview'
 import { FieldInputSidebar } from './FieldInputSidebar'
 import { Button } from '@/components/ui/button'
 import { ArrowLeft } from 'lucide-react'
+import { DEFAULT_PRINT_FORMAT } from '@/lib/print-formats'
 
 interface ProfileField {
   id: string
@@ -45,7 +46,7 @@ export function PromptGenerator({ template, profileFields, profileValues }: Prom
           </Button>
           <div>
             <h1 className="font-semibold text-lg text-foreground">{template.name}</h1>
-            <p className="text-xs text-muted-foreground">Build your personalized prompt for Claude</p>
+            <p className="text-xs text-muted-foreground">Build your personalized AI prompt</p>
           </div>
         </div>
       </div>
@@ -57,7 +58,7 @@ export function PromptGenerator({ template, profileFields, profileValues }: Prom
           <FieldInputSidebar
             templateId={template.id}
             templateName={template.name}
-            templateSize={template.size || '8.5x11 inches'}
+            templateSize={template.size || DEFAULT_PRINT_FORMAT}
             htmlContent={template.html_content}
             templateFields={template.template_fields}
             profileFields={profileFields}
@@ -69,7 +70,7 @@ export function PromptGenerator({ template, profileFields, profileValues }: Prom
 
         {/* Preview - Full width on mobile, 50% on desktop */}
         <div className="w-full md:w-1/2 overflow-hidden md:border-l border-border pb-[70vh] md:pb-0">
-          <StaticPreview htmlContent={template.html_content} />
+          <StaticPreview htmlContent={template.html_content} size={template.size} />
         </div>
       </div>
 
@@ -78,7 +79,7 @@ export function PromptGenerator({ template, profileFields, profileValues }: Prom
         <FieldInputSidebar
           templateId={template.id}
           templateName={template.name}
-          templateSize={template.size || '8.5x11 inches'}
+          templateSize={template.size || DEFAULT_PRINT_FORMAT}
           htmlContent={template.html_content}
           templateFields={template.template_fields}
           profileFields={profileFields}
@@ -3,16 +3,16 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { ZoomIn, ZoomOut } from 'lucide-react'
-
-// Letter size dimensions (8.5" x 11" at 96dpi)
-const LETTER_WIDTH = 816
-const LETTER_HEIGHT = 1056
+import { getPrintFormat, getPrintPixelSize } from '@/lib/print-formats'
 
 interface StaticPreviewProps {
   htmlContent: string
+  /** Template print size; the preview shows one page at this size */
+  size?: string | null
 }
 
-export function StaticPreview({ htmlContent }: StaticPreviewProps) {
+export function StaticPreview({ htmlContent, size = null }: StaticPreviewProps) {
+  const { width: pageWidth, height: pageHeight } = getPrintPixelSize(getPrintFormat(size))
   const [scale, setScale] = useState(0.4)
   const containerRef = useRef<HTMLDivElement>(null)
 
@@ -26,13 +26,13 @@ export function StaticPreview({ htmlContent }: StaticPreviewProps) {
     const containerWidth = containerRef.current.clientWidth - 80
     const containerHeight = containerRef.current.clientHeight - 80
 
-    const scaleX = containerWidth / LETTER_WIDTH
-    const scaleY = containerHeight / LETTER_HEIGHT
+    const scaleX = containerWidth / pageWidth
+    const scaleY = containerHeight / pageHeight
 
     // Use the smaller scale to fit both dimensions, with some margin
     const fitScale = Math.min(scaleX, scaleY) * 0.95
     return Math.max(0.25, Math.min(fitScale, 1))
-  }, [])
+  }, [pageWidth, pageHeight])
 
   // Set initial scale on mount and window resize
   useEffect(() => {
@@ -65,8 +65,8 @@ export function StaticPreview({ htmlContent }: StaticPreviewProps) {
   }
 
   // Calculate scaled dimensions
-  const scaledWidth = LETTER_WIDTH * scale
-  const scaledHeight = LETTER_HEIGHT * scale
+  const scaledWidth = pageWidth * scale
+  const scaledHeight = pageHeight * scale
 
   // Calculate responsive border radius (20px at scale 1, down to 8px at smaller scales)
   const borderRadius = Math.max(8, Math.round(20 * scale))
@@ -101,8 +101,8 @@ export function StaticPreview({ htmlContent }: StaticPreviewProps) {
         <iframe
           srcDoc={htmlContent}
           style={{
-            width: `${LETTER_WIDTH}px`,
-            height: `${LETTER_HEIGHT}px`,
+            width: `${pageWidth}px`,
+            height: `${pageHeight}px`,
             border: 'none',
             transform: `scale(${scale})`,
             transformOrigin: 'top left',
@@ -3,6 +3,7 @@
 import { TemplateField } from '@/types'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { formatHex, parseColor } from '@/lib/color'
 
 interface ColorPickerFieldProps {
   field: TemplateField
@@ -12,6 +13,10 @@ interface ColorPickerFieldProps {
 }
 
 export function ColorPickerField({ field, value, onChange, error }: ColorPickerFieldProps) {
+  // The native picker only takes #rrggbb, so other syntaxes show as their nearest sRGB color
+  const parsed = parseColor(value)
+  const swatchValue = parsed ? formatHex(parsed) : '#000000'
+
   return (
     <div className="space-y-2">
       <Label htmlFor={field.field_key} required={field.is_required}>
@@ -21,8 +26,9 @@ export function ColorPickerField({ field, value, onChange, error }: ColorPickerF
         <input
           type="color"
           id={field.field_key}
-          value={value || '#000000'}
+          value={swatchValue}
           onChange={(e) => onChange(e.target.value)}
+          title={parsed && swatchValue !== value.trim().toLowerCase() ? `Shown as ${swatchValue}` : undefined}
           className="h-9 w-9 rounded-xl cursor-pointer appearance-none overflow-hidden"
           style={{ padding: 0 }}
         />
@@ -39,8 +39,13 @@ export function TemplatePreviewModal({
     fetchTemplateWithFields()
   }, [template.id])
 
-  // Generate preview with default values
-  const previewHtml = renderTemplate(template.html_content, {}, fields)
+  // Generate preview with default values; show the raw HTML if the template has syntax errors
+  let previewHtml = template.html_content
+  try {
+    previewHtml = renderTemplate(template.html_content, {}, fields)
+  } catch (err) {
+    console.error('Failed to render template preview:', err)
+  }
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
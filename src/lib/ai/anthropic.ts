@@ -0,0 +1,115 @@
+import Anthropic from '@anthropic-ai/sdk'
+import type { AIProvider, AICompletionRequest, AICompletionResult, AIToolRequest, AIToolResult } from './types'
+
+const ANTHROPIC_MODEL = 'claude-sonnet-4-20250514'
+const DEFAULT_MAX_TOKENS = 16000
+
+// Lazy initialization to avoid build-time errors
+let anthropic: Anthropic | null = null
+
+function getAnthropic() {
+  if (!anthropic) {
+    anthropic = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    })
+  }
+  return anthropic
+}
+
+function buildUserContent(request: AICompletionRequest): Anthropic.ContentBlockParam[] {
+  const content: Anthropic.ContentBlockParam[] = []
+
+  if (request.imageUrl) {
+    content.push({
+      type: 'image',
+      source: { type: 'url', url: request.imageUrl },
+    })
+  }
+  content.push({ type: 'text', text: request.prompt })
+
+  return content
+}
+
+function collectText(message: Anthropic.Message): string {
+  return message.content
+    .map((block) => (block.type === 'text' ? block.text : ''))
+    .join('')
+}
+
+export const anthropicProvider: AIProvider = {
+  name: 'anthropic',
+  model: ANTHROPIC_MODEL,
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const message = await getAnthropic().messages.create({
+      model: ANTHROPIC_MODEL,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      system: request.system,
+      messages: [{ role: 'user', content: buildUserContent(request) }],
+    }, { signal: request.signal })
+
+    return {
+      text: collectText(message),
+      model: message.model,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+      },
+    }
+  },
+
+  async completeWithTools(request: AIToolRequest): Promise<AIToolResult> {
+    const message = await getAnthropic().messages.create({
+      model: ANTHROPIC_MODEL,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      system: request.system,
+      messages: [{ role: 'user', content: buildUserContent(request) }],
+      tools: request.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+      })),
+      tool_choice: { type: 'any' },
+    }, { signal: request.signal })
+
+    return {
+      text: collectText(message),
+      model: message.model,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+      },
+      toolCalls: message.content
+        .filter((block) => block.type === 'tool_use')
+        .map((block) => ({ name: block.name, input: block.input })),
+    }
+  },
+
+  async stream(request: AICompletionRequest, onDelta: (text: string) => void): Promise<AICompletionResult> {
+    const stream = getAnthropic().messages.stream({
+      model: ANTHROPIC_MODEL,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      system: request.system,
+      messages: [{ role: 'user', content: buildUserContent(request) }],
+    }, { signal: request.signal })
+
+    stream.on('text', onDelta)
+    // message_start reports input tokens and each message_delta the output tokens so far
+    stream.on('streamEvent', (_event, snapshot) => {
+      request.onUsage?.(
+        { inputTokens: snapshot.usage.input_tokens, outputTokens: snapshot.usage.output_tokens },
+        snapshot.model
+      )
+    })
+    const message = await stream.finalMessage()
+
+    return {
+      text: collectText(message),
+      model: message.model,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+      },
+    }
+  },
+}
@@ -0,0 +1,165 @@
+import * as cheerio from 'cheerio'
+import { URL_ATTRIBUTES } from '@/lib/html-context'
+import { isAllowedUrl } from '@/lib/html-sanitizer'
+import { z } from 'zod'
+import type { AIToolDefinition } from './types'
+
+const selector = z.string().min(1).describe('CSS selector for the element(s) to change, e.g. "h1.headline" or ".agent-card img"')
+
+const editOperationSchemas = {
+  replace_text: z.object({
+    selector,
+    text: z.string().describe('New plain-text content for the matched element(s)'),
+  }),
+  set_attribute: z.object({
+    selector,
+    name: z.string().min(1).describe('Attribute name, e.g. "href" or "alt"'),
+    value: z.string().describe('New attribute value'),
+  }),
+  set_style: z.object({
+    selector,
+    property: z.string().min(1).describe('CSS property in kebab-case, e.g. "font-size"'),
+    value: z.string().describe('CSS value, e.g. "48px" or "#c0392b"; empty string removes the property'),
+  }),
+  replace_image: z.object({
+    selector,
+    src: z.string().url().describe('New image URL'),
+    alt: z.string().optional().describe('Optional new alt text'),
+  }),
+  remove_element: z.object({
+    selector,
+  }),
+}
+
+export type EditOperationType = keyof typeof editOperationSchemas
+
+export type EditOperation = {
+  [K in EditOperationType]: { type: K } & z.infer<(typeof editOperationSchemas)[K]>
+}[EditOperationType]
+
+export interface AppliedEditOperation {
+  operation: EditOperation
+  matched: number
+  description: string
+}
+
+const TOOL_DESCRIPTIONS: Record<EditOperationType, string> = {
+  replace_text: 'Replace the text content of every element matching the selector.',
+  set_attribute: 'Set an attribute on every element matching the selector.',
+  set_style: 'Set one inline CSS property on every element matching the selector.',
+  replace_image: 'Swap the src (and optionally alt) of every <img> matching the selector.',
+  remove_element: 'Remove every element matching the selector from the document.',
+}
+
+// Providers expect a bare object schema without the $schema dialect marker
+function toToolSchema(schema: z.ZodType): Record<string, unknown> {
+  const jsonSchema = z.toJSONSchema(schema) as Record<string, unknown>
+  delete jsonSchema.$schema
+  return jsonSchema
+}
+
+/**
+ * Tool definitions exposed to the model by /api/ai/edit
+ */
+export const EDIT_TOOLS: AIToolDefinition[] = (Object.keys(editOperationSchemas) as EditOperationType[]).map(
+  (name) => ({
+    name,
+    description: TOOL_DESCRIPTIONS[name],
+    inputSchema: toToolSchema(editOperationSchemas[name]),
+  })
+)
+
+/**
+ * Validates a raw tool call from the model. Returns null for unknown tools or bad input.
+ */
+export function parseEditOperation(name: string, input: unknown): EditOperation | null {
+  if (!Object.hasOwn(editOperationSchemas, name)) return null
+
+  const result = editOperationSchemas[name as EditOperationType].safeParse(input)
+  if (!result.success) return null
+
+  return { type: name, ...result.data } as EditOperation
+}
+
+/**
+ * Applies edit operations to an HTML document in order.
+ * Operations whose selector is invalid or matches nothing are reported with matched = 0.
+ */
+export function applyEditOperations(
+  html: string,
+  operations: EditOperation[]
+): { html: string; applied: AppliedEditOperation[] } {
+  const $ = cheerio.load(html)
+  const applied: AppliedEditOperation[] = []
+
+  for (const operation of operations) {
+    let elements
+    try {
+      elements = $(operation.selector)
+    } catch {
+      applied.push({ operation, matched: 0, description: describeEditOperation(operation) })
+      continue
+    }
+
+    switch (operation.type) {
+      case 'replace_text':
+        elements.text(operation.text)
+        break
+
+      case 'set_attribute':
+        // Never let the model introduce event handlers, script URLs or inline documents
+        if (
+          /^on/i.test(operation.name) ||
+          operation.name.toLowerCase() === 'srcdoc' ||
+          (URL_ATTRIBUTES.has(operation.name.toLowerCase()) && !isAllowedUrl(operation.value))
+        ) {
+          applied.push({ operation, matched: 0, description: describeEditOperation(operation) })
+          continue
+        }
+        elements.attr(operation.name, operation.value)
+        break
+
+      case 'set_style':
+        elements.css(operation.property, operation.value)
+        break
+
+      case 'replace_image':
+        if (!isAllowedUrl(operation.src)) {
+          applied.push({ operation, matched: 0, description: describeEditOperation(operation) })
+          continue
+        }
+        elements = elements.filter('img')
+        elements.attr('src', operation.src)
+        if (operation.alt !== undefined) {
+          elements.attr('alt', operation.alt)
+        }
+        break
+
+      case 'remove_element':
+        elements.remove()
+        break
+    }
+
+    applied.push({ operation, matched: elements.length, description: describeEditOperation(operation) })
+  }
+
+  return { html: $.html(), applied }
+}
+
+/**
+ * Human-readable summary of an operation for prompt history and the change log
+ */
+export function describeEditOperation(operation: EditOperation): string {
+  switch (operation.type) {
+    case 'replace_text':
+      return `Replaced text in ${operation.selector}`
+    case 'set_attribute':
+      return `Set ${operation.name} on ${operation.selector}`
+    case 'set_style':
+      return `Set ${operation.property}: ${operation.value} on ${operation.selector}`
+    case 'replace_image':
+      return `Swapped image ${operation.selector}`
+    case 'remove_element':
+      return `Removed ${operation.selector}`
+  }
+}
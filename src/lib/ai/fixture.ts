@@ -0,0 +1,60 @@
+import type { AIProvider, AICompletionRequest, AICompletionResult, AIToolRequest, AIToolResult } from './types'
+import { estimateTokens } from './usage'
+
+const FIXTURE_MODEL = 'fixture-echo'
+const STREAM_CHUNK_SIZE = 256
+
+function echoHtml(prompt: string): string {
+  const match = prompt.match(/```html\s*\n([\s\S]*?)\n```/)
+  return match ? match[1] : ''
+}
+
+/**
+ * Deterministic offline provider for local development and tests.
+ * Echoes back the first ```html block found in the prompt, so the editor
+ * round-trips without network access or API keys, and never requests tool calls
+ * (so surgical edits are a no-op). Enable with AI_PROVIDER=fixture.
+ */
+export const fixtureProvider: AIProvider = {
+  name: 'fixture',
+  model: FIXTURE_MODEL,
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const text = echoHtml(request.prompt)
+
+    return {
+      text,
+      model: FIXTURE_MODEL,
+      usage: {
+        inputTokens: estimateTokens(request.system) + estimateTokens(request.prompt),
+        outputTokens: estimateTokens(text),
+      },
+    }
+  },
+
+  async completeWithTools(request: AIToolRequest): Promise<AIToolResult> {
+    return {
+      text: '',
+      model: FIXTURE_MODEL,
+      usage: {
+        inputTokens: estimateTokens(request.system) + estimateTokens(request.prompt),
+        outputTokens: 0,
+      },
+      toolCalls: [],
+    }
+  },
+
+  async stream(request: AICompletionRequest, onDelta: (text: string) => void): Promise<AICompletionResult> {
+    const result = await fixtureProvider.complete(request)
+
+    // Fixed-size chunks keep the stream deterministic
+    for (let i = 0; i < result.text.length; i += STREAM_CHUNK_SIZE) {
+      if (request.signal?.aborted) {
+        throw new DOMException('The operation was aborted', 'AbortError')
+      }
+      onDelta(result.text.slice(i, i + STREAM_CHUNK_SIZE))
+    }
+
+    return result
+  },
+}
@@ -0,0 +1,126 @@
+import OpenAI from 'openai'
+import type { AIProvider, AICompletionRequest, AICompletionResult, AIToolRequest, AIToolResult } from './types'
+
+const OPENAI_MODEL = 'gpt-4o'
+const DEFAULT_MAX_TOKENS = 16000
+
+// Lazy initialization to avoid build-time errors
+let openai: OpenAI | null = null
+
+function getOpenAI() {
+  if (!openai) {
+    openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    })
+  }
+  return openai
+}
+
+function buildMessages(request: AICompletionRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const content: OpenAI.Chat.ChatCompletionContentPart[] = [
+    { type: 'text', text: request.prompt },
+  ]
+
+  if (request.imageUrl) {
+    content.push({ type: 'image_url', image_url: { url: request.imageUrl } })
+  }
+
+  return [
+    { role: 'system', content: request.system },
+    { role: 'user', content },
+  ]
+}
+
+function parseArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return null
+  }
+}
+
+export const openaiProvider: AIProvider = {
+  name: 'openai',
+  model: OPENAI_MODEL,
+
+  async complete(request: AICompletionRequest): Promise<AICompletionResult> {
+    const completion = await getOpenAI().chat.completions.create({
+      model: OPENAI_MODEL,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages: buildMessages(request),
+    }, { signal: request.signal })
+
+    return {
+      text: completion.choices[0]?.message?.content ?? '',
+      model: completion.model,
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      },
+    }
+  },
+
+  async completeWithTools(request: AIToolRequest): Promise<AIToolResult> {
+    const completion = await getOpenAI().chat.completions.create({
+      model: OPENAI_MODEL,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages: buildMessages(request),
+      tools: request.tools.map((tool) => ({
+        type: 'function' as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.inputSchema,
+        },
+      })),
+      tool_choice: 'required',
+    }, { signal: request.signal })
+
+    const message = completion.choices[0]?.message
+
+    return {
+      text: message?.content ?? '',
+      model: completion.model,
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      },
+      toolCalls: (message?.tool_calls ?? [])
+        .filter((call) => call.type === 'function')
+        .map((call) => ({ name: call.function.name, input: parseArguments(call.function.arguments) })),
+    }
+  },
+
+  async stream(request: AICompletionRequest, onDelta: (text: string) => void): Promise<AICompletionResult> {
+    const stream = await getOpenAI().chat.completions.create({
+      model: OPENAI_MODEL,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages: buildMessages(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    }, { signal: request.signal })
+
+    let text = ''
+    let model: string = OPENAI_MODEL
+    let usage = { inputTokens: 0, outputTokens: 0 }
+
+    for await (const chunk of stream) {
+      model = chunk.model || model
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) {
+        text += delta
+        onDelta(delta)
+      }
+      // The final chunk carries usage and has no choices
+      if (chunk.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens,
+          outputTokens: chunk.usage.completion_tokens,
+        }
+        request.onUsage?.(usage, model)
+      }
+    }
+
+    return { text, model, usage }
+  },
+}
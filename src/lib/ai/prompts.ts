@@ -0,0 +1,115 @@
+interface PromptField {
+  field_key: string
+  label: string
+  field_type: string
+}
+
+interface CustomizePromptInput {
+  htmlContent: string
+  fields: PromptField[]
+  values: Record<string, string>
+  userPrompt?: string
+}
+
+interface EditPromptInput {
+  htmlContent: string
+  userPrompt: string
+}
+
+export const CUSTOMIZE_SYSTEM_PROMPT = `You are an expert HTML email and print designer customizing real estate marketing templates.
+You receive a complete HTML document plus user information and instructions.
+Return ONLY the complete, modified HTML document starting with <!DOCTYPE html>.
+Do not wrap the output in markdown fences and do not add any explanation.
+Preserve the existing layout, structure and print dimensions unless explicitly asked to change them.`
+
+export const EDIT_SYSTEM_PROMPT = `You are an expert HTML designer making small, targeted edits to an existing document.
+You cannot rewrite the document. Instead, call the provided edit tools, one call per change.
+Use the most specific CSS selector that matches exactly the element(s) the instruction refers to,
+based on the tags, classes and ids in the current HTML.
+Change only what the instruction asks for.`
+
+/**
+ * Builds the user message for a full customization pass (field values, images, free-form instructions)
+ */
+export function buildCustomizePrompt(input: CustomizePromptInput): string {
+  const { htmlContent, fields, values, userPrompt } = input
+
+  let prompt = ''
+
+  const filled = fields.filter((f) => values[f.field_key] && values[f.field_key].trim())
+  if (filled.length > 0) {
+    prompt += `## User Information\n`
+    filled.forEach((field) => {
+      const value = values[field.field_key]
+      if (field.field_type === 'image') {
+        prompt += `- ${field.label} (image URL, use as <img src>): ${value}\n`
+      } else if (field.field_type === 'color') {
+        prompt += `- ${field.label}: ${value} (apply to accent elements)\n`
+      } else {
+        prompt += `- ${field.label}: ${value}\n`
+      }
+    })
+    prompt += '\n'
+  }
+
+  if (userPrompt && userPrompt.trim()) {
+    prompt += `## Instructions\n${userPrompt.trim()}\n\n`
+  } else {
+    prompt += `## Instructions\nReplace placeholder variables (like {{variable_name}}) and sample content with the user information above.\n\n`
+  }
+
+  prompt += `## Current HTML\n\n\`\`\`html\n${htmlContent}\n\`\`\`\n`
+
+  return prompt
+}
+
+/**
+ * Builds the user message for a small, targeted edit of the current document
+ */
+export function buildEditPrompt(input: EditPromptInput): string {
+  return `## Edit Instruction
+${input.userPrompt.trim()}
+
+## Current HTML
+
+\`\`\`html
+${input.htmlContent}
+\`\`\`
+`
+}
+
+/**
+ * Pulls the HTML document out of a model response, tolerating markdown fences and chatter
+ */
+export function extractHtml(text: string): string {
+  const fenced = text.match(/```(?:html)?\s*\n([\s\S]*?)\n```/i)
+  const candidate = (fenced ? fenced[1] : text).trim()
+
+  const start = candidate.search(/<!DOCTYPE html|<html/i)
+  if (start > 0) {
+    return candidate.slice(start)
+  }
+
+  return candidate
+}
+
+/**
+ * Filters streamed model output so only the HTML document reaches the client.
+ * Anything before <!DOCTYPE html> / <html> (preamble, an opening ``` fence) is dropped;
+ * the final `done` event still carries the fully cleaned document from extractHtml.
+ */
+export function createHtmlDeltaFilter(): (delta: string) => string {
+  let buffer = ''
+  let started = false
+
+  return (delta) => {
+    if (started) return delta
+
+    buffer += delta
+    const start = buffer.search(/<!DOCTYPE html|<html/i)
+    if (start === -1) return ''
+
+    started = true
+    return buffer.slice(start)
+  }
+}
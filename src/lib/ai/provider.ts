@@ -0,0 +1,44 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AIProvider, AIProviderName } from './types'
+import { anthropicProvider } from './anthropic'
+import { openaiProvider } from './openai'
+import { fixtureProvider } from './fixture'
+
+export type { AIProvider, AIProviderName } from './types'
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  anthropic: anthropicProvider,
+  openai: openaiProvider,
+  fixture: fixtureProvider,
+}
+
+const DEFAULT_PROVIDER: AIProviderName = 'anthropic'
+
+function isProviderName(value: unknown): value is AIProviderName {
+  return typeof value === 'string' && Object.hasOwn(PROVIDERS, value)
+}
+
+/**
+ * Resolves the AI provider for the current request.
+ * AI_PROVIDER env var wins (use "fixture" to run offline), then the
+ * `ai_provider` row in app_settings, then Anthropic.
+ */
+export async function getAIProvider(supabase: SupabaseClient): Promise<AIProvider> {
+  const override = process.env.AI_PROVIDER
+  if (isProviderName(override)) {
+    return PROVIDERS[override]
+  }
+
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', 'ai_provider')
+    .maybeSingle()
+
+  if (error) {
+    console.warn('[ai] failed to read ai_provider setting, using default:', error.message)
+  }
+
+  const configured = data?.value?.provider
+  return PROVIDERS[isProviderName(configured) ? configured : DEFAULT_PROVIDER]
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import type { AIProvider } from './types'
+import type { AIUsageContext } from './usage'
+
+/** Monthly limits; null means unlimited */
+export interface AIQuotaLimits {
+  monthlyGenerationLimit: number | null
+  monthlyTokenLimit: number | null
+}
+
+export interface AIQuotaStatus extends AIQuotaLimits {
+  /** Plan the limits came from, or null for the default quota */
+  planName: string | null
+  generationsUsed: number
+  tokensUsed: number
+  /** ISO timestamp when usage resets (start of next UTC month) */
+  resetsAt: string
+  exceeded: boolean
+}
+
+interface PlanQuotaRow {
+  memberstack_plan_id: string
+  plan_name: string
+  monthly_generation_limit: number | null
+  monthly_token_limit: number | null
+}
+
+const UNLIMITED: AIQuotaLimits = { monthlyGenerationLimit: null, monthlyTokenLimit: null }
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+}
+
+function startOfNextMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+}
+
+// null (unlimited) beats any number
+function mostGenerous(a: number | null, b: number | null): number | null {
+  if (a === null || b === null) return null
+  return Math.max(a, b)
+}
+
+/**
+ * Matches the user's plan to allowed_plans rows: by the Memberstack plan ids synced
+ * during the ll-callback, then by plan name (allowed_plans names are "<plan> (<interval>)").
+ */
+function matchPlanRows(rows: PlanQuotaRow[], activePlanIds: string[], planName: string | null): PlanQuotaRow[] {
+  const byId = rows.filter((row) => activePlanIds.includes(row.memberstack_plan_id))
+  if (byId.length > 0 || !planName) return byId
+
+  return rows.filter((row) => row.plan_name === planName || row.plan_name.startsWith(`${planName} (`))
+}
+
+/**
+ * Resolves the user's monthly AI quota and how much of it has been used this month
+ */
+export async function getAIQuotaStatus(userId: string): Promise<AIQuotaStatus> {
+  const admin = await createServiceClient()
+  const now = new Date()
+
+  const [profileRes, plansRes, defaultRes, usageRes] = await Promise.all([
+    admin.from('profiles').select('role, plan_name, active_plan_ids').eq('id', userId).maybeSingle(),
+    admin.from('allowed_plans').select('memberstack_plan_id, plan_name, monthly_generation_limit, monthly_token_limit'),
+    admin.from('app_settings').select('value').eq('key', 'ai_default_quota').maybeSingle(),
+    admin.rpc('ai_usage_totals', { p_user_id: userId, p_since: startOfMonth(now).toISOString() }),
+  ])
+
+  if (usageRes.error) {
+    throw new Error(`Failed to read AI usage: ${usageRes.error.message}`)
+  }
+
+  const profile = profileRes.data
+  const totals = usageRes.data?.[0] ?? { generations: 0, tokens: 0 }
+  const generationsUsed = Number(totals.generations)
+  const tokensUsed = Number(totals.tokens)
+
+  let limits: AIQuotaLimits
+  let planName: string | null = null
+
+  if (profile && ['admin', 'superadmin'].includes(profile.role)) {
+    limits = UNLIMITED
+  } else {
+    const matched = matchPlanRows(plansRes.data ?? [], profile?.active_plan_ids ?? [], profile?.plan_name ?? null)
+
+    if (matched.length > 0) {
+      planName = profile?.plan_name ?? matched[0].plan_name
+      limits = {
+        monthlyGenerationLimit: matched.map((row) => row.monthly_generation_limit).reduce(mostGenerous),
+        monthlyTokenLimit: matched.map((row) => row.monthly_token_limit).reduce(mostGenerous),
+      }
+    } else {
+      limits = {
+        monthlyGenerationLimit: defaultRes.data?.value?.monthly_generation_limit ?? null,
+        monthlyTokenLimit: defaultRes.data?.value?.monthly_token_limit ?? null,
+      }
+    }
+  }
+
+  const exceeded =
+    (limits.monthlyGenerationLimit !== null && generationsUsed >= limits.monthlyGenerationLimit) ||
+    (limits.monthlyTokenLimit !== null && tokensUsed >= limits.monthlyTokenLimit)
+
+  return {
+    ...limits,
+    planName,
+    generationsUsed,
+    tokensUsed,
+    resetsAt: startOfNextMonth(now).toISOString(),
+    exceeded,
+  }
+}
+
+export interface AIGenerationReservation {
+  // Pending ai_usage row for withUsageMetering to settle; null when the quota is used up
+  usageId: string | null
+  quota: AIQuotaStatus
+}
+
+/**
+ * Reserves one generation against the user's monthly quota before the provider is called.
+ * The limit check and the pending ai_usage row are one database call, so parallel requests
+ * can't all pass a check made before any of them was recorded.
+ */
+export async function reserveAIGeneration(
+  context: AIUsageContext & { userId: string },
+  provider: Pick<AIProvider, 'name' | 'model'>
+): Promise<AIGenerationReservation> {
+  const quota = await getAIQuotaStatus(context.userId)
+  if (quota.exceeded) return { usageId: null, quota }
+
+  const admin = await createServiceClient()
+  const { data, error } = await admin.rpc('reserve_ai_generation', {
+    p_user_id: context.userId,
+    p_since: startOfMonth(new Date()).toISOString(),
+    p_generation_limit: quota.monthlyGenerationLimit,
+    p_token_limit: quota.monthlyTokenLimit,
+    p_operation: context.operation,
+    p_provider: provider.name,
+    p_model: provider.model,
+    p_customization_id: context.customizationId ?? null,
+    p_template_id: context.templateId ?? null,
+  })
+
+  if (error) {
+    throw new Error(`Failed to reserve AI generation: ${error.message}`)
+  }
+
+  // Other requests used up the quota since it was read
+  if (!data) return { usageId: null, quota: { ...quota, exceeded: true } }
+
+  return { usageId: data as string, quota }
+}
+
+/**
+ * 429 response for AI routes when the user is out of quota
+ */
+export function quotaExceededResponse(status: AIQuotaStatus): NextResponse {
+  const retryAfter = Math.max(Math.ceil((Date.parse(status.resetsAt) - Date.now()) / 1000), 0)
+  const resetDate = new Date(status.resetsAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' })
+
+  return NextResponse.json(
+    {
+      error: `You've used your AI allowance for this month. It resets on ${resetDate}.`,
+      quota: status,
+    },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  )
+}
@@ -0,0 +1,90 @@
+/**
+ * Minimal server-sent events plumbing shared by the streaming /api/ai routes and their client.
+ * Events: `delta` ({ text }), `done` (route-specific payload), `error` ({ error }).
+ */
+
+export type SseEvent =
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'done'; data: Record<string, unknown> }
+  | { event: 'error'; data: { error: string } }
+
+type SseSend = (event: SseEvent) => void
+
+/**
+ * Creates an SSE response body. `run` receives a send function and an AbortSignal
+ * that fires when the client disconnects, so upstream provider calls can be cancelled.
+ */
+export function createSseStream(
+  run: (send: SseSend, signal: AbortSignal) => Promise<void>,
+  requestSignal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const controller = new AbortController()
+  requestSignal?.addEventListener('abort', () => controller.abort())
+
+  return new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send: SseSend = ({ event, data }) => {
+        if (controller.signal.aborted) return
+        streamController.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      try {
+        await run(send, controller.signal)
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('[ai/sse] stream failed:', error)
+          send({ event: 'error', data: { error: 'Generation failed' } })
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          streamController.close()
+        }
+      }
+    },
+    cancel() {
+      controller.abort()
+    },
+  })
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+}
+
+/**
+ * Reads an SSE response on the client, dispatching each event to onEvent
+ */
+export async function readSseStream(
+  response: Response,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+
+    let boundary
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const raw = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+
+      const eventLine = raw.match(/^event: (.+)$/m)
+      const dataLine = raw.match(/^data: (.+)$/m)
+      if (eventLine && dataLine) {
+        onEvent({ event: eventLine[1], data: JSON.parse(dataLine[1]) } as SseEvent)
+      }
+    }
+  }
+}
@@ -0,0 +1,57 @@
+export type AIProviderName = 'anthropic' | 'openai' | 'fixture'
+
+export interface AICompletionRequest {
+  system: string
+  prompt: string
+  imageUrl?: string | null
+  maxTokens?: number
+  /** Aborts the upstream provider call, e.g. when the client disconnects */
+  signal?: AbortSignal
+  /** Called with the usage so far as streaming providers report it, so cut-off calls can still be metered */
+  onUsage?: (usage: AIUsage, model: string) => void
+}
+
+export interface AIUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface AICompletionResult {
+  text: string
+  model: string
+  usage: AIUsage
+}
+
+export interface AIToolDefinition {
+  name: string
+  description: string
+  /** JSON Schema for the tool input */
+  inputSchema: Record<string, unknown>
+}
+
+export interface AIToolCall {
+  name: string
+  input: unknown
+}
+
+export interface AIToolRequest extends AICompletionRequest {
+  tools: AIToolDefinition[]
+}
+
+export interface AIToolResult extends AICompletionResult {
+  toolCalls: AIToolCall[]
+}
+
+/**
+ * A text-completion backend used by the /api/ai routes.
+ * Implementations must be stateless so a single instance can serve concurrent requests.
+ */
+export interface AIProvider {
+  name: AIProviderName
+  /** Default model, reported for calls that fail before the provider returns one */
+  model: string
+  complete(request: AICompletionRequest): Promise<AICompletionResult>
+  completeWithTools(request: AIToolRequest): Promise<AIToolResult>
+  /** Streams text deltas to onDelta as they arrive and resolves with the full result */
+  stream(request: AICompletionRequest, onDelta: (text: string) => void): Promise<AICompletionResult>
+}
@@ -0,0 +1,224 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createServiceClient } from '@/lib/supabase/server'
+import type { AIProvider, AICompletionRequest, AICompletionResult, AIUsage } from './types'
+
+export type AIOperation = 'customize' | 'edit' | 'description'
+
+export type AIUsageStatus = 'pending' | 'success' | 'error' | 'cancelled'
+
+/**
+ * Who and what an AI call is billed to
+ */
+export interface AIUsageContext {
+  operation: AIOperation
+  userId: string | null
+  customizationId?: string | null
+  templateId?: string | null
+  // Pending ai_usage row reserved against the quota (reserveAIGeneration); the call settles it
+  usageId?: string | null
+}
+
+export interface AIUsageEntry extends AIUsageContext {
+  provider: string
+  model: string
+  usage: AIUsage
+  latencyMs: number
+  status: AIUsageStatus
+}
+
+/** USD per 1M tokens */
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+/** Keyed by model name prefix (e.g. "gpt-4o" prices "gpt-4o-2024-08-06") */
+export type ModelPricing = Record<string, ModelPrice>
+
+// Fallback used until the `ai_pricing` row exists in app_settings
+export const DEFAULT_MODEL_PRICING: ModelPricing = {
+  'claude-sonnet-4': { input: 3.0, output: 15.0 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10.0 },
+  'fixture-echo': { input: 0, output: 0 },
+}
+
+/**
+ * Reads per-model pricing from the `ai_pricing` app setting
+ */
+export async function getModelPricing(supabase: SupabaseClient): Promise<ModelPricing> {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', 'ai_pricing')
+    .maybeSingle()
+
+  if (error) {
+    console.warn('[ai] failed to read ai_pricing setting, using defaults:', error.message)
+  }
+
+  return data?.value?.models ?? DEFAULT_MODEL_PRICING
+}
+
+/**
+ * Finds the price for a model, preferring the longest matching prefix
+ */
+export function findModelPrice(pricing: ModelPricing, model: string): ModelPrice | null {
+  const key = Object.keys(pricing)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return key ? pricing[key] : null
+}
+
+export function calculateCost(pricing: ModelPricing, model: string, usage: AIUsage): number {
+  const price = findModelPrice(pricing, model)
+  if (!price) return 0
+
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for calls the provider didn't report usage for
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Usage for a call that failed or was cancelled: what the provider reported before it stopped,
+ * topped up with an estimate of the text streamed since. Calls that streamed nothing, reported
+ * nothing and weren't cancelled are taken to have failed before the provider billed them.
+ */
+function partialUsage(
+  request: AICompletionRequest,
+  reported: AIUsage | null,
+  streamedText: string,
+  cancelled: boolean
+): AIUsage {
+  if (!reported && !streamedText && !cancelled) {
+    return { inputTokens: 0, outputTokens: 0 }
+  }
+
+  return {
+    inputTokens: reported?.inputTokens ?? estimateTokens(request.system) + estimateTokens(request.prompt),
+    outputTokens: Math.max(reported?.outputTokens ?? 0, estimateTokens(streamedText)),
+  }
+}
+
+/**
+ * Writes a row to the ai_usage ledger, or settles the reserved row when there is one.
+ * Never throws: metering must not break the AI call.
+ */
+export async function recordAIUsage(entry: AIUsageEntry): Promise<void> {
+  try {
+    const supabase = await createServiceClient()
+    const pricing = await getModelPricing(supabase)
+    if (!findModelPrice(pricing, entry.model)) {
+      console.warn(`[ai] no pricing configured for model ${entry.model}`)
+    }
+
+    const row = {
+      user_id: entry.userId,
+      customization_id: entry.customizationId ?? null,
+      template_id: entry.templateId ?? null,
+      operation: entry.operation,
+      provider: entry.provider,
+      model: entry.model,
+      input_tokens: entry.usage.inputTokens,
+      output_tokens: entry.usage.outputTokens,
+      cost_usd: calculateCost(pricing, entry.model, entry.usage),
+      latency_ms: Math.round(entry.latencyMs),
+      status: entry.status,
+    }
+
+    const { error } = entry.usageId
+      ? await supabase.from('ai_usage').update(row).eq('id', entry.usageId)
+      : await supabase.from('ai_usage').insert(row)
+
+    if (error) {
+      console.error('[ai] failed to record usage:', error.message)
+    }
+  } catch (error) {
+    console.error('[ai] failed to record usage:', error)
+  }
+}
+
+/**
+ * Wraps a provider so every call is timed and written to the usage ledger.
+ * Failed and cancelled calls are recorded with the usage the provider streamed
+ * before it stopped, or an estimate from the prompt and the text streamed so far.
+ * A reserved row (context.usageId) is settled by the first call; later calls add rows.
+ */
+export function withUsageMetering(provider: AIProvider, context: AIUsageContext): AIProvider {
+  let usageId = context.usageId ?? null
+  const takeUsageId = () => {
+    const id = usageId
+    usageId = null
+    return id
+  }
+
+  async function meter<R extends AICompletionRequest, T extends AICompletionResult>(
+    request: R,
+    call: (request: R, onStreamed: (text: string) => void) => Promise<T>
+  ): Promise<T> {
+    const startedAt = performance.now()
+    const partial: { usage: AIUsage | null; model: string; text: string } = {
+      usage: null,
+      model: provider.model,
+      text: '',
+    }
+
+    try {
+      const result = await call(
+        {
+          ...request,
+          onUsage: (usage, model) => {
+            partial.usage = usage
+            partial.model = model
+            request.onUsage?.(usage, model)
+          },
+        },
+        (text) => {
+          partial.text += text
+        }
+      )
+      await recordAIUsage({
+        ...context,
+        usageId: takeUsageId(),
+        provider: provider.name,
+        model: result.model,
+        usage: result.usage,
+        latencyMs: performance.now() - startedAt,
+        status: 'success',
+      })
+      return result
+    } catch (error) {
+      const cancelled = request.signal?.aborted ?? false
+      await recordAIUsage({
+        ...context,
+        usageId: takeUsageId(),
+        provider: provider.name,
+        model: partial.model,
+        usage: partialUsage(request, partial.usage, partial.text, cancelled),
+        latencyMs: performance.now() - startedAt,
+        status: cancelled ? 'cancelled' : 'error',
+      })
+      throw error
+    }
+  }
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    complete: (request) => meter(request, (metered) => provider.complete(metered)),
+    completeWithTools: (request) => meter(request, (metered) => provider.completeWithTools(metered)),
+    stream: (request, onDelta) =>
+      meter(request, (metered, onStreamed) =>
+        provider.stream(metered, (text) => {
+          onStreamed(text)
+          onDelta(text)
+        })
+      ),
+  }
+}
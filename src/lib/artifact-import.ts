@@ -0,0 +1,67 @@
+import * as cheerio from 'cheerio'
+import { extractPlaceholders } from '@/lib/template-renderer'
+import { URL_ATTRIBUTES } from '@/lib/html-context'
+import { isAllowedUrl } from '@/lib/html-sanitizer'
+
+export interface ArtifactValidationResult {
+  valid: boolean
+  errors: string[]
+  // The HTML document, unwrapped from a markdown code fence if it was pasted from chat
+  html: string
+}
+
+// Artifacts copied from the chat instead of downloaded arrive as ```html ... ```
+function unwrapCodeFence(content: string): string {
+  const fenced = content.match(/```(?:html)?\s*\n([\s\S]*?)\n?```/i)
+  return (fenced ? fenced[1] : content).trim()
+}
+
+/**
+ * Checks HTML produced in an external AI session before it is saved as a customization:
+ * it must be an HTML document with visible content, contain no scripts, and have every
+ * placeholder from the template filled in.
+ */
+export function validateArtifactHtml(content: string, templateHtml: string): ArtifactValidationResult {
+  const html = unwrapCodeFence(content)
+  const errors: string[] = []
+
+  if (!/<(!doctype\s+html|html|body)[\s>]/i.test(html)) {
+    return { valid: false, errors: ['The file is not an HTML document'], html }
+  }
+
+  const $ = cheerio.load(html)
+
+  if ($('body').children().length === 0 && !$('body').text().trim()) {
+    errors.push('The HTML document has no content')
+  }
+
+  if ($('script').length > 0) {
+    errors.push('Scripts are not allowed in imported designs')
+  }
+
+  const eventHandlers = new Set<string>()
+  let hasUnsafeUrl = false
+  $('*').each((_, el) => {
+    if (el.type !== 'tag') return
+    for (const [name, value] of Object.entries(el.attribs)) {
+      if (/^on/i.test(name)) eventHandlers.add(name.toLowerCase())
+      if (URL_ATTRIBUTES.has(name.toLowerCase()) && !isAllowedUrl(value)) {
+        hasUnsafeUrl = true
+      }
+    }
+  })
+  if (eventHandlers.size > 0) {
+    errors.push(`Inline event handlers are not allowed (${Array.from(eventHandlers).join(', ')})`)
+  }
+  if (hasUnsafeUrl) {
+    errors.push('Unsafe URLs such as javascript: links are not allowed')
+  }
+
+  const expected = new Set(extractPlaceholders(templateHtml))
+  const unfilled = extractPlaceholders(html).filter((key) => expected.has(key))
+  if (unfilled.length > 0) {
+    errors.push(`Placeholders were not filled in: ${unfilled.map((key) => `{{${key}}}`).join(', ')}`)
+  }
+
+  return { valid: errors.length === 0, errors, html }
+}
@@ -1,66 +1,91 @@
 import * as htmlToImage from 'html-to-image'
 import jsPDF from 'jspdf'
+import { getPrintFormat, getPrintPixelSize, PrintFormat } from '@/lib/print-formats'
+import { drawVectorPages } from '@/lib/client-vector-pdf'
+import { formatRgb, parseColor } from '@/lib/color'
 
 /**
- * Convert CSS lab() and other modern color functions to hex/rgb
- * html2canvas doesn't support lab(), lch(), oklch(), oklab() colors
+ * Vector PDFs keep text selectable and sharp at any zoom. Raster PDFs are page screenshots;
+ * they are the fallback for designs the vector renderer can't reproduce.
+ */
+export type ClientPdfMode = 'vector' | 'raster'
+
+export interface ClientPdfOptions {
+  mode?: ClientPdfMode
+}
+
+/**
+ * Converts CSS lab(), lch(), oklab(), oklch() and color() values to sRGB rgb() colors
+ * for raster capture
  */
 function convertModernColors(html: string): string {
-  let converted = html
-
-  // Replace lab() with RGB approximation based on lightness
-  converted = converted.replace(/lab\([^)]+\)/gi, (match) => {
-    const values = match.match(/lab\(\s*([\d.]+)%?\s+([\d.-]+)\s+([\d.-]+)/i)
-    if (values) {
-      const l = parseFloat(values[1])
-      const gray = Math.round((l / 100) * 255)
-      return `rgb(${gray}, ${gray}, ${gray})`
-    }
-    return '#808080'
+  return html.replace(/\b(?:oklab|oklch|lab|lch|color)\([^)]*\)/gi, (match) => {
+    const color = parseColor(match)
+    return color ? formatRgb(color) : match
+  })
+}
+
+/**
+ * Draws the pages as vector content into a PDF at the print size, in CSS pixels
+ */
+async function generateVectorPdf(pages: HTMLElement[], format: PrintFormat): Promise<Blob> {
+  const { width, height } = getPrintPixelSize(format)
+  const pdf = new jsPDF({
+    orientation: format.orientation,
+    unit: 'px',
+    format: [width, height],
+    hotfixes: ['px_scaling'],
   })
 
-  // Replace other modern color functions
-  converted = converted.replace(/oklch\([^)]+\)/gi, '#808080')
-  converted = converted.replace(/oklab\([^)]+\)/gi, '#808080')
-  converted = converted.replace(/lch\([^)]+\)/gi, '#808080')
+  await drawVectorPages(pdf, pages, { width, height })
 
-  return converted
+  console.log('[PDF] Vector PDF generated successfully')
+  return pdf.output('blob')
 }
 
 /**
- * Generates a PDF by capturing the live preview element as an image.
+ * Generates a PDF from the live preview element.
  * Supports multi-page documents with .page or [data-page] elements.
- * Uses html-to-image which preserves text spacing better than html2canvas.
+ * Vector mode (the default) redraws the page as PDF text and shapes; raster mode captures
+ * each page as an image with html-to-image.
  */
 export async function generatePdfFromPreview(
   previewElement: HTMLElement | null,
-  filename: string
+  filename: string,
+  size?: string | null,
+  { mode = 'vector' }: ClientPdfOptions = {}
 ): Promise<Blob> {
   if (!previewElement) {
     throw new Error('Preview element not found')
   }
 
-  console.log('[PDF] Capturing preview element with html-to-image...')
-
   // Check for multiple page elements
-  const pageElements = previewElement.querySelectorAll('.page, [data-page]')
+  const pageElements = previewElement.querySelectorAll<HTMLElement>('.page, [data-page]')
   const hasMultiplePages = pageElements.length > 1
 
-  // Create PDF with letter size
+  // Create PDF at the template's print size
+  const format = getPrintFormat(size)
+
+  if (mode === 'vector') {
+    console.log('[PDF] Drawing preview element as vector PDF...')
+    return generateVectorPdf(hasMultiplePages ? Array.from(pageElements) : [previewElement], format)
+  }
+
+  console.log('[PDF] Capturing preview element with html-to-image...')
+  const pageWidth = format.width
+  const pageHeight = format.height
+
   const pdf = new jsPDF({
-    orientation: 'portrait',
+    orientation: format.orientation,
     unit: 'in',
-    format: 'letter',
+    format: [pageWidth, pageHeight],
   })
 
-  const pageWidth = 8.5
-  const pageHeight = 11
-
   if (hasMultiplePages) {
     console.log(`[PDF] Found ${pageElements.length} pages`)
 
     for (let i = 0; i < pageElements.length; i++) {
-      const pageEl = pageElements[i] as HTMLElement
+      const pageEl = pageElements[i]
 
       // Capture each page
       const dataUrl = await htmlToImage.toPng(pageEl, {
@@ -129,20 +154,25 @@ export async function generatePdfFromPreview(
  */
 export async function generatePdfClientSide(
   html: string,
-  filename: string
+  filename: string,
+  size?: string | null,
+  { mode = 'vector' }: ClientPdfOptions = {}
 ): Promise<Blob> {
-  console.log('[PDF] Starting client-side PDF generation...')
+  console.log(`[PDF] Starting client-side ${mode} PDF generation...`)
 
-  // Convert modern CSS colors that html2canvas doesn't support
-  const processedHtml = convertModernColors(html)
+  const format = getPrintFormat(size)
+  const { width, height } = getPrintPixelSize(format)
+
+  // Raster capture gets plain sRGB colors; the vector renderer converts them itself
+  const processedHtml = mode === 'raster' ? convertModernColors(html) : html
 
   // Create iframe for rendering - make it tall enough for multiple pages
   const iframe = document.createElement('iframe')
   iframe.style.position = 'fixed'
   iframe.style.left = '-10000px'
   iframe.style.top = '0'
-  iframe.style.width = '816px'
-  iframe.style.height = '10560px' // 10 pages max height
+  iframe.style.width = `${width}px`
+  iframe.style.height = `${height * 10}px` // 10 pages max height
   iframe.style.border = 'none'
   iframe.style.background = 'white'
   document.body.appendChild(iframe)
@@ -162,13 +192,13 @@ export async function generatePdfClientSide(
           <style>
             * { margin: 0; padding: 0; box-sizing: border-box; }
             body {
-              width: 816px;
+              width: ${width}px;
               background: white;
               font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
             }
             .page, [data-page] {
-              width: 816px;
-              height: 1056px;
+              width: ${width}px;
+              height: ${height}px;
               overflow: hidden;
               box-sizing: border-box;
             }
@@ -201,17 +231,21 @@ export async function generatePdfClientSide(
 
     await new Promise(resolve => setTimeout(resolve, 300))
 
-    console.log('[PDF] Capturing with html-to-image...')
-
     // Check for multiple page elements
-    const pageElements = iframeDoc.querySelectorAll('.page, [data-page]')
+    const pageElements = iframeDoc.querySelectorAll<HTMLElement>('.page, [data-page]')
     const hasMultiplePages = pageElements.length > 1
 
+    if (mode === 'vector') {
+      return await generateVectorPdf(hasMultiplePages ? Array.from(pageElements) : [iframeDoc.body], format)
+    }
+
+    console.log('[PDF] Capturing with html-to-image...')
+
     // Create PDF
     const pdf = new jsPDF({
-      orientation: 'portrait',
+      orientation: format.orientation,
       unit: 'px',
-      format: [816, 1056],
+      format: [width, height],
       hotfixes: ['px_scaling'],
     })
 
@@ -219,15 +253,15 @@ export async function generatePdfClientSide(
       console.log(`[PDF] Found ${pageElements.length} pages`)
 
       for (let i = 0; i < pageElements.length; i++) {
-        const pageEl = pageElements[i] as HTMLElement
+        const pageEl = pageElements[i]
 
         // Capture each page
         const dataUrl = await htmlToImage.toPng(pageEl, {
           quality: 1,
           pixelRatio: 2,
           backgroundColor: '#ffffff',
-          width: 816,
-          height: 1056,
+          width,
+          height,
         })
 
         // Add new page for pages after the first
@@ -236,7 +270,7 @@ export async function generatePdfClientSide(
         }
 
         // Add full-page image
-        pdf.addImage(dataUrl, 'PNG', 0, 0, 816, 1056)
+        pdf.addImage(dataUrl, 'PNG', 0, 0, width, height)
         console.log(`[PDF] Page ${i + 1} captured`)
       }
     } else {
@@ -245,12 +279,12 @@ export async function generatePdfClientSide(
         quality: 1,
         pixelRatio: 2,
         backgroundColor: '#ffffff',
-        width: 816,
-        height: 1056,
+        width,
+        height,
       })
 
       console.log('[PDF] Image captured')
-      pdf.addImage(dataUrl, 'PNG', 0, 0, 816, 1056)
+      pdf.addImage(dataUrl, 'PNG', 0, 0, width, height)
     }
 
     console.log('[PDF] PDF generated successfully')
@@ -268,9 +302,11 @@ export async function generatePdfClientSide(
  */
 export async function downloadPdfClientSide(
   html: string,
-  filename: string
+  filename: string,
+  size?: string | null,
+  options: ClientPdfOptions = {}
 ): Promise<void> {
-  const blob = await generatePdfClientSide(html, filename)
+  const blob = await generatePdfClientSide(html, filename, size, options)
 
   // Create download link
   const url = URL.createObjectURL(blob)
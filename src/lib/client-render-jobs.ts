@@ -0,0 +1,39 @@
+import type { RenderJob } from '@/types'
+
+/**
+ * Render job as returned by /api/render-jobs/[id]
+ */
+export type RenderJobStatus = Pick<
+  RenderJob,
+  'id' | 'customization_id' | 'kind' | 'status' | 'result' | 'error' | 'attempts' | 'max_attempts' | 'created_at' | 'updated_at' | 'finished_at'
+>
+
+const POLL_INTERVAL_MS = 2000
+// Covers retries; the worker gives up on a job well before this
+const MAX_WAIT_MS = 10 * 60 * 1000
+
+/**
+ * Polls a render job until it finishes. Resolves with the done job and throws when it failed,
+ * took too long or the signal was aborted.
+ */
+export async function waitForRenderJob(jobId: string, { signal }: { signal?: AbortSignal } = {}): Promise<RenderJobStatus> {
+  const deadline = Date.now() + MAX_WAIT_MS
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS))
+    signal?.throwIfAborted()
+
+    const response = await fetch(`/api/render-jobs/${jobId}`, { signal })
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to check render job')
+    }
+
+    const job = result.data as RenderJobStatus
+    if (job.status === 'done') return job
+    if (job.status === 'failed') throw new Error(job.error || 'Render failed')
+  }
+
+  throw new Error('Render is taking longer than expected')
+}
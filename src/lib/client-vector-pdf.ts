@@ -0,0 +1,673 @@
+import * as htmlToImage from 'html-to-image'
+import jsPDF, { GState } from 'jspdf'
+import { parseColor } from '@/lib/color'
+
+/**
+ * Draws rendered HTML into a jsPDF document as vector content.
+ *
+ * The page is walked in paint order and each element is redrawn from its computed style:
+ * backgrounds, borders and rounded corners become PDF paths and text becomes real, selectable
+ * PDF text positioned word by word where the browser laid it out. Fonts from the document's
+ * @font-face rules are embedded when they are TrueType or WOFF; others (e.g. WOFF2) fall back
+ * to the closest standard PDF font. Images stay raster, as do parts with no PDF equivalent:
+ * background images and gradients, inline SVG and canvas. Colors in any CSS color space are
+ * converted to sRGB by @/lib/color.
+ *
+ * Not reproduced: transforms, box shadows, ::before/::after content and text decorations.
+ * Raster mode in client-pdf remains available for designs that depend on them.
+ */
+
+interface Box {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+interface PdfFont {
+  name: string
+  style: string
+}
+
+interface FontFaceSource {
+  family: string
+  weight: number
+  italic: boolean
+  url: string
+}
+
+interface RenderContext {
+  pdf: jsPDF
+  doc: Document
+  // Maps page coordinates (CSS pixels in the document) to PDF units
+  originX: number
+  originY: number
+  offsetX: number
+  offsetY: number
+  scale: number
+  fontFaces: FontFaceSource[]
+  embeddedFonts: Map<string, Promise<string | null>>
+  images: Map<string, Promise<string | null>>
+  metrics: Map<string, { ascent: number; descent: number }>
+  gStates: Map<number, GState>
+  opacity: number
+}
+
+const CSS_PX_TO_PT = 72 / 96
+// Sources jsPDF can embed (by format() or file extension); WOFF2 needs Brotli and glyph
+// transforms it doesn't support
+const EMBEDDABLE_FONT_FORMATS = ['truetype', 'ttf', 'woff']
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-serif', 'ui-sans-serif', 'ui-monospace'])
+const SKIPPED_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'LINK', 'META', 'TEMPLATE', 'NOSCRIPT', 'INPUT', 'TEXTAREA', 'SELECT'])
+const RASTERIZED_ELEMENTS = new Set(['svg', 'CANVAS', 'VIDEO', 'IFRAME'])
+// Raster fallbacks are captured at this multiple of their CSS size
+const RASTER_PIXEL_RATIO = 3
+
+/**
+ * Draws one PDF page per element. Each page element is scaled to fit the PDF page and centered,
+ * so a design that is taller than the page is shrunk onto it, as raster export does.
+ */
+export async function drawVectorPages(
+  pdf: jsPDF,
+  pages: HTMLElement[],
+  { width, height }: { width: number; height: number }
+): Promise<void> {
+  if (pages.length === 0) return
+
+  const doc = pages[0].ownerDocument
+  const context: RenderContext = {
+    pdf,
+    doc,
+    originX: 0,
+    originY: 0,
+    offsetX: 0,
+    offsetY: 0,
+    scale: 1,
+    fontFaces: await collectFontFaces(doc),
+    embeddedFonts: new Map(),
+    images: new Map(),
+    metrics: new Map(),
+    gStates: new Map(),
+    opacity: 1,
+  }
+
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[i]
+    const rect = page.getBoundingClientRect()
+    const contentWidth = Math.max(rect.width, page.scrollWidth)
+    const contentHeight = Math.max(rect.height, page.scrollHeight)
+    const scale = Math.min(width / contentWidth, height / contentHeight)
+
+    if (i > 0) pdf.addPage()
+
+    context.originX = rect.left
+    context.originY = rect.top
+    context.scale = scale
+    context.offsetX = (width - contentWidth * scale) / 2
+    context.offsetY = (height - contentHeight * scale) / 2
+
+    setOpacity(context, 1)
+    pdf.setFillColor(255, 255, 255)
+    pdf.rect(0, 0, width, height, 'F')
+
+    await drawElement(context, page, 1, true)
+  }
+
+  setOpacity(context, 1)
+}
+
+async function drawElement(context: RenderContext, el: Element, inheritedOpacity: number, isRoot = false): Promise<void> {
+  if (SKIPPED_ELEMENTS.has(el.tagName)) return
+
+  const view = context.doc.defaultView
+  if (!view) return
+  const style = view.getComputedStyle(el)
+  if (style.display === 'none') return
+
+  const opacity = inheritedOpacity * parseFloat(style.opacity || '1')
+  if (opacity <= 0) return
+
+  const visible = style.visibility !== 'hidden'
+  const box = toBox(el.getBoundingClientRect())
+
+  if (RASTERIZED_ELEMENTS.has(el.tagName)) {
+    if (visible) await drawRasterized(context, el as HTMLElement, box, opacity)
+    return
+  }
+
+  if (visible) {
+    await drawBackground(context, el as HTMLElement, style, box, opacity)
+    drawBorders(context, style, box, opacity)
+    if (el.tagName === 'IMG') {
+      await drawImage(context, el as HTMLImageElement, style, box, opacity)
+      return
+    }
+  }
+
+  const clips = !isRoot && (style.overflowX !== 'visible' || style.overflowY !== 'visible')
+  const restore = clips ? clipToBox(context, box, style) : null
+
+  // Positioned children paint above in-flow content, ordered by z-index
+  const children = Array.from(el.childNodes)
+    .map((node, index) => ({ node, index, order: node.nodeType === Node.ELEMENT_NODE ? paintOrder(view.getComputedStyle(node as Element)) : 0 }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+
+  for (const { node } of children) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      if (visible) await drawText(context, node as Text, style, opacity)
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      await drawElement(context, node as Element, opacity)
+    }
+  }
+
+  restore?.()
+}
+
+function paintOrder(style: CSSStyleDeclaration): number {
+  if (style.position === 'static') return 0
+  const zIndex = parseInt(style.zIndex, 10)
+  if (isNaN(zIndex) || zIndex === 0) return 1
+  return zIndex < 0 ? zIndex - 1 : zIndex + 1
+}
+
+async function drawBackground(context: RenderContext, el: HTMLElement, style: CSSStyleDeclaration, box: Box, opacity: number) {
+  const { pdf } = context
+
+  if (style.backgroundImage && style.backgroundImage !== 'none') {
+    // Gradients and background images are captured with the element's own box only
+    try {
+      const dataUrl = await htmlToImage.toPng(el, {
+        pixelRatio: RASTER_PIXEL_RATIO,
+        skipFonts: true,
+        filter: () => false,
+      })
+      setOpacity(context, opacity)
+      pdf.addImage(dataUrl, 'PNG', x(context, box.left), y(context, box.top), box.width * context.scale, box.height * context.scale)
+      return
+    } catch (error) {
+      console.warn('[PDF] Could not capture background image:', error)
+    }
+  }
+
+  const color = parseColor(style.backgroundColor)
+  if (!color || color.a === 0) return
+
+  setOpacity(context, opacity * color.a)
+  pdf.setFillColor(color.r, color.g, color.b)
+  boxPath(context, box, style, 'F')
+}
+
+function drawBorders(context: RenderContext, style: CSSStyleDeclaration, box: Box, opacity: number) {
+  const { pdf } = context
+  const sides = (['Top', 'Right', 'Bottom', 'Left'] as const).map((side) => ({
+    side,
+    width: style.getPropertyValue(`border-${side.toLowerCase()}-style`) === 'none' ? 0 : parseFloat(style.getPropertyValue(`border-${side.toLowerCase()}-width`)) || 0,
+    color: style.getPropertyValue(`border-${side.toLowerCase()}-color`),
+    lineStyle: style.getPropertyValue(`border-${side.toLowerCase()}-style`),
+  }))
+
+  if (sides.every((s) => s.width === 0)) return
+
+  const [top] = sides
+  const uniform = sides.every((s) => s.width === top.width && s.color === top.color && s.lineStyle === top.lineStyle)
+
+  if (uniform) {
+    const color = parseColor(top.color)
+    if (!color || color.a === 0) return
+
+    const width = top.width
+    setOpacity(context, opacity * color.a)
+    pdf.setDrawColor(color.r, color.g, color.b)
+    pdf.setLineWidth(width * context.scale)
+    if (top.lineStyle === 'dashed') pdf.setLineDashPattern([width * 3 * context.scale, width * 2 * context.scale], 0)
+    else if (top.lineStyle === 'dotted') pdf.setLineDashPattern([width * context.scale, width * context.scale], 0)
+
+    // The stroke is centered on the path, so inset it by half the border width
+    const inset = { left: box.left + width / 2, top: box.top + width / 2, width: box.width - width, height: box.height - width }
+    boxPath(context, inset, style, 'S', width / 2)
+    pdf.setLineDashPattern([], 0)
+    return
+  }
+
+  // Mixed borders are drawn as filled strips, without rounded corners
+  for (const { side, width, color: value } of sides) {
+    const color = parseColor(value)
+    if (width === 0 || !color || color.a === 0) continue
+
+    const strip =
+      side === 'Top' ? { left: box.left, top: box.top, width: box.width, height: width }
+        : side === 'Bottom' ? { left: box.left, top: box.top + box.height - width, width: box.width, height: width }
+          : side === 'Left' ? { left: box.left, top: box.top, width, height: box.height }
+            : { left: box.left + box.width - width, top: box.top, width, height: box.height }
+
+    setOpacity(context, opacity * color.a)
+    pdf.setFillColor(color.r, color.g, color.b)
+    pdf.rect(x(context, strip.left), y(context, strip.top), strip.width * context.scale, strip.height * context.scale, 'F')
+  }
+}
+
+async function drawImage(context: RenderContext, img: HTMLImageElement, style: CSSStyleDeclaration, box: Box, opacity: number) {
+  const src = img.currentSrc || img.src
+  if (!src || !img.naturalWidth) return
+
+  const dataUrl = await loadImage(context, src, box)
+  if (!dataUrl) return
+
+  const target = fitImage(box, img.naturalWidth, img.naturalHeight, style.objectFit, style.objectPosition)
+
+  const restore = clipToBox(context, box, style)
+  setOpacity(context, opacity)
+  context.pdf.addImage(dataUrl, imageFormat(dataUrl), x(context, target.left), y(context, target.top), target.width * context.scale, target.height * context.scale, src, 'FAST')
+  restore()
+}
+
+async function drawRasterized(context: RenderContext, el: HTMLElement, box: Box, opacity: number) {
+  if (box.width === 0 || box.height === 0) return
+
+  try {
+    // Elements come from the preview frame, so instanceof checks against this window fail
+    const dataUrl = el.tagName === 'CANVAS'
+      ? (el as HTMLCanvasElement).toDataURL('image/png')
+      : await htmlToImage.toPng(el, { pixelRatio: RASTER_PIXEL_RATIO })
+    setOpacity(context, opacity)
+    context.pdf.addImage(dataUrl, 'PNG', x(context, box.left), y(context, box.top), box.width * context.scale, box.height * context.scale)
+  } catch (error) {
+    console.warn(`[PDF] Could not capture <${el.tagName.toLowerCase()}>:`, error)
+  }
+}
+
+async function drawText(context: RenderContext, node: Text, style: CSSStyleDeclaration, opacity: number) {
+  const text = node.textContent
+  if (!text || !text.trim()) return
+
+  const color = parseColor(style.color)
+  if (!color || color.a === 0) return
+
+  const { pdf } = context
+  const font = await resolveFont(context, style)
+  const fontSize = parseFloat(style.fontSize)
+  const { ascent, descent } = fontMetrics(context, style)
+
+  pdf.setFont(font.name, font.style)
+  pdf.setFontSize(fontSize * CSS_PX_TO_PT * context.scale)
+  pdf.setTextColor(color.r, color.g, color.b)
+  setOpacity(context, opacity * color.a)
+
+  const range = context.doc.createRange()
+
+  for (const match of text.matchAll(/\S+/g)) {
+    const start = match.index ?? 0
+    range.setStart(node, start)
+    range.setEnd(node, start + match[0].length)
+    const rect = range.getClientRects()[0]
+    if (!rect || rect.width === 0) continue
+
+    const startsWord = start === 0 ? !/\S$/.test(previousText(node)) : true
+    const word = transformText(match[0], style.textTransform, startsWord)
+    const baseline = rect.top + (rect.height - (ascent + descent)) / 2 + ascent
+
+    // Stretch the word to the width the browser gave it, so fallback fonts keep the layout
+    const pdfWidth = pdf.getTextWidth(word)
+    const targetWidth = rect.width * context.scale
+    const horizontalScale = pdfWidth > 0 ? Math.min(2, Math.max(0.5, targetWidth / pdfWidth)) : 1
+
+    pdf.text(word, x(context, rect.left), y(context, baseline), { baseline: 'alphabetic', horizontalScale })
+  }
+
+  range.detach()
+}
+
+function previousText(node: Text): string {
+  const previous = node.previousSibling
+  return previous?.textContent ?? ''
+}
+
+function transformText(word: string, transform: string, startsWord: boolean): string {
+  if (transform === 'uppercase') return word.toUpperCase()
+  if (transform === 'lowercase') return word.toLowerCase()
+  if (transform === 'capitalize' && startsWord) return word.charAt(0).toUpperCase() + word.slice(1)
+  return word
+}
+
+function fontMetrics(context: RenderContext, style: CSSStyleDeclaration) {
+  const font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`
+  const cached = context.metrics.get(font)
+  if (cached) return cached
+
+  // A canvas from the page's own document, so its web fonts are available
+  const ctx = context.doc.createElement('canvas').getContext('2d')
+  const fontSize = parseFloat(style.fontSize)
+  let metrics = { ascent: fontSize * 0.8, descent: fontSize * 0.2 }
+  if (ctx) {
+    ctx.font = font
+    const measured = ctx.measureText('Hg')
+    metrics = {
+      ascent: measured.fontBoundingBoxAscent || metrics.ascent,
+      descent: measured.fontBoundingBoxDescent || metrics.descent,
+    }
+  }
+
+  context.metrics.set(font, metrics)
+  return metrics
+}
+
+async function resolveFont(context: RenderContext, style: CSSStyleDeclaration): Promise<PdfFont> {
+  const families = style.fontFamily.split(',').map((family) => family.trim().replace(/^["']|["']$/g, ''))
+  const weight = parseInt(style.fontWeight, 10) || 400
+  const italic = style.fontStyle === 'italic' || style.fontStyle.startsWith('oblique')
+
+  for (const family of families) {
+    const faces = context.fontFaces.filter((face) => face.family.toLowerCase() === family.toLowerCase())
+    if (faces.length === 0) continue
+
+    const face = faces
+      .slice()
+      .sort((a, b) => Number(a.italic !== italic) - Number(b.italic !== italic) || Math.abs(a.weight - weight) - Math.abs(b.weight - weight))[0]
+
+    const name = await embedFont(context, face)
+    if (name) return { name, style: 'normal' }
+  }
+
+  return standardFont(families, weight, italic)
+}
+
+function standardFont(families: string[], weight: number, italic: boolean): PdfFont {
+  const generic = families.find((family) => GENERIC_FAMILIES.has(family.toLowerCase()))?.toLowerCase() ?? families[0]?.toLowerCase() ?? ''
+  const name = generic.includes('mono') ? 'courier' : /serif/.test(generic) && !generic.includes('sans') ? 'times' : 'helvetica'
+  const bold = weight >= 600
+  const fontStyle = bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal'
+  return { name, style: fontStyle }
+}
+
+function embedFont(context: RenderContext, face: FontFaceSource): Promise<string | null> {
+  const cached = context.embeddedFonts.get(face.url)
+  if (cached) return cached
+
+  const embedding = (async () => {
+    try {
+      const response = await fetch(face.url)
+      if (!response.ok) return null
+      const sfnt = await toSfnt(new Uint8Array(await response.arrayBuffer()))
+      if (!sfnt) return null
+
+      const name = `embedded-${context.embeddedFonts.size}`
+      context.pdf.addFileToVFS(`${name}.ttf`, toBase64(sfnt))
+      context.pdf.addFont(`${name}.ttf`, name, 'normal', 'normal', 'Identity-H')
+      return name
+    } catch (error) {
+      console.warn(`[PDF] Could not embed font ${face.family}:`, error)
+      return null
+    }
+  })()
+
+  context.embeddedFonts.set(face.url, embedding)
+  return embedding
+}
+
+/**
+ * Returns TrueType font data, unpacking WOFF. CFF-based OpenType and WOFF2 aren't supported.
+ */
+async function toSfnt(data: Uint8Array): Promise<Uint8Array | null> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const signature = view.getUint32(0)
+
+  // 0x00010000 and 'true' are TrueType outlines
+  if (signature === 0x00010000 || signature === 0x74727565) return data
+  // 'wOFF'
+  if (signature !== 0x774f4646) return null
+
+  const flavor = view.getUint32(4)
+  if (flavor !== 0x00010000 && flavor !== 0x74727565) return null
+
+  const numTables = view.getUint16(12)
+  const tables: { tag: number; checksum: number; data: Uint8Array }[] = []
+
+  for (let i = 0; i < numTables; i++) {
+    const entry = 44 + i * 20
+    const offset = view.getUint32(entry + 4)
+    const compLength = view.getUint32(entry + 8)
+    const origLength = view.getUint32(entry + 12)
+    const raw = data.subarray(offset, offset + compLength)
+    const tableData = compLength < origLength ? await inflate(raw) : raw
+    tables.push({ tag: view.getUint32(entry), checksum: view.getUint32(entry + 16), data: tableData })
+  }
+
+  const headerLength = 12 + numTables * 16
+  const totalLength = tables.reduce((total, table) => total + Math.ceil(table.data.length / 4) * 4, headerLength)
+  const sfnt = new Uint8Array(totalLength)
+  const out = new DataView(sfnt.buffer)
+
+  const entrySelector = Math.floor(Math.log2(numTables))
+  const searchRange = 2 ** entrySelector * 16
+  out.setUint32(0, flavor)
+  out.setUint16(4, numTables)
+  out.setUint16(6, searchRange)
+  out.setUint16(8, entrySelector)
+  out.setUint16(10, numTables * 16 - searchRange)
+
+  let offset = headerLength
+  tables.forEach((table, i) => {
+    const record = 12 + i * 16
+    out.setUint32(record, table.tag)
+    out.setUint32(record + 4, table.checksum)
+    out.setUint32(record + 8, offset)
+    out.setUint32(record + 12, table.data.length)
+    sfnt.set(table.data, offset)
+    offset += Math.ceil(table.data.length / 4) * 4
+  })
+
+  return sfnt
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Finds embeddable @font-face sources. Cross-origin stylesheets (e.g. Google Fonts) can't be
+ * read through the CSSOM, so their text is fetched and parsed.
+ */
+async function collectFontFaces(doc: Document): Promise<FontFaceSource[]> {
+  const faces: FontFaceSource[] = []
+
+  for (const sheet of Array.from(doc.styleSheets)) {
+    const baseUrl = sheet.href || doc.baseURI
+    let cssText: string
+
+    try {
+      cssText = Array.from(sheet.cssRules).map((rule) => rule.cssText).join('\n')
+    } catch {
+      if (!sheet.href) continue
+      try {
+        const response = await fetch(sheet.href)
+        if (!response.ok) continue
+        cssText = await response.text()
+      } catch {
+        continue
+      }
+    }
+
+    for (const [, body] of cssText.matchAll(/@font-face\s*{([^}]*)}/g)) {
+      const family = body.match(/font-family:\s*["']?([^;"']+)["']?/)?.[1]?.trim()
+      const url = embeddableSource(body.match(/src:\s*([^;]+)/)?.[1] ?? '')
+      if (!family || !url) continue
+
+      faces.push({
+        family,
+        weight: parseInt(body.match(/font-weight:\s*(\d+)/)?.[1] ?? (/font-weight:\s*bold/.test(body) ? '700' : '400'), 10),
+        italic: /font-style:\s*(italic|oblique)/.test(body),
+        url: new URL(url, baseUrl).href,
+      })
+    }
+  }
+
+  return faces
+}
+
+function embeddableSource(src: string): string | null {
+  for (const [, url, format] of src.matchAll(/url\(\s*["']?([^"')]+)["']?\s*\)(?:\s*format\(\s*["']?([^"')]+)["']?\s*\))?/g)) {
+    const type = format?.toLowerCase() ?? url.split('?')[0].split('.').pop()?.toLowerCase()
+    if (type && EMBEDDABLE_FONT_FORMATS.includes(type)) return url
+  }
+  return null
+}
+
+function loadImage(context: RenderContext, src: string, box: Box): Promise<string | null> {
+  const cached = context.images.get(src)
+  if (cached) return cached
+
+  const loading = (async () => {
+    try {
+      const response = await fetch(src)
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const blob = await response.blob()
+
+      // JPEGs are embedded as they are; other formats are converted to PNG
+      if (blob.type === 'image/jpeg') return await blobToDataUrl(blob)
+      return await rasterizeToPng(blob, box)
+    } catch (error) {
+      console.warn(`[PDF] Could not load image ${src}:`, error)
+      return null
+    }
+  })()
+
+  context.images.set(src, loading)
+  return loading
+}
+
+async function rasterizeToPng(blob: Blob, box: Box): Promise<string> {
+  const url = URL.createObjectURL(blob)
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+
+    // SVGs have no pixels of their own; draw them at the raster fallback resolution
+    const width = image.naturalWidth || box.width * RASTER_PIXEL_RATIO
+    const height = image.naturalHeight || box.height * RASTER_PIXEL_RATIO
+    const scale = blob.type === 'image/svg+xml' ? Math.max(1, (box.width * RASTER_PIXEL_RATIO) / width) : 1
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(width * scale)
+    canvas.height = Math.round(height * scale)
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+    return canvas.toDataURL('image/png')
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+function imageFormat(dataUrl: string): string {
+  return dataUrl.startsWith('data:image/jpeg') ? 'JPEG' : 'PNG'
+}
+
+/**
+ * Where an image is drawn inside its box for the given object-fit and object-position
+ */
+function fitImage(box: Box, naturalWidth: number, naturalHeight: number, fit: string, position: string): Box {
+  if (fit === 'fill' || !fit) return box
+
+  const contain = Math.min(box.width / naturalWidth, box.height / naturalHeight)
+  const cover = Math.max(box.width / naturalWidth, box.height / naturalHeight)
+  const scale = fit === 'cover' ? cover : fit === 'contain' ? contain : fit === 'scale-down' ? Math.min(1, contain) : 1
+
+  const width = naturalWidth * scale
+  const height = naturalHeight * scale
+  const [positionX = '50%', positionY = '50%'] = position.split(/\s+/)
+
+  return {
+    left: box.left + alignOffset(positionX, box.width - width),
+    top: box.top + alignOffset(positionY, box.height - height),
+    width,
+    height,
+  }
+}
+
+function alignOffset(value: string, free: number): number {
+  if (value.endsWith('%')) return (parseFloat(value) / 100) * free
+  return parseFloat(value) || 0
+}
+
+/**
+ * Adds the element's border box as a path, rounded by its top-left border radius. Without a
+ * style the path is left open for clipping.
+ */
+function boxPath(context: RenderContext, box: Box, style: CSSStyleDeclaration, paint: string | null = null, inset = 0) {
+  const { pdf, scale } = context
+  const [radiusX, radiusY = radiusX] = style.borderTopLeftRadius.split(/\s+/)
+  const rx = Math.max(0, Math.min(box.width / 2, lengthOf(radiusX, box.width + inset * 2) - inset))
+  const ry = Math.max(0, Math.min(box.height / 2, lengthOf(radiusY, box.height + inset * 2) - inset))
+
+  if (rx > 0 && ry > 0) {
+    pdf.roundedRect(x(context, box.left), y(context, box.top), box.width * scale, box.height * scale, rx * scale, ry * scale, paint)
+  } else {
+    pdf.rect(x(context, box.left), y(context, box.top), box.width * scale, box.height * scale, paint)
+  }
+}
+
+/**
+ * Clips drawing to the element's border box. The returned function ends the clip.
+ */
+function clipToBox(context: RenderContext, box: Box, style: CSSStyleDeclaration): () => void {
+  const { pdf } = context
+  // Restoring the graphics state also restores the opacity in effect before the clip
+  const opacity = context.opacity
+
+  pdf.saveGraphicsState()
+  boxPath(context, box, style)
+  pdf.clip().discardPath()
+
+  return () => {
+    pdf.restoreGraphicsState()
+    context.opacity = opacity
+  }
+}
+
+function lengthOf(value: string | undefined, reference: number): number {
+  if (!value) return 0
+  if (value.endsWith('%')) return (parseFloat(value) / 100) * reference
+  return parseFloat(value) || 0
+}
+
+function setOpacity(context: RenderContext, opacity: number) {
+  const rounded = Math.round(opacity * 100) / 100
+  if (rounded === context.opacity) return
+
+  let gState = context.gStates.get(rounded)
+  if (!gState) {
+    gState = new GState({ opacity: rounded, 'stroke-opacity': rounded })
+    context.gStates.set(rounded, gState)
+  }
+  context.pdf.setGState(gState)
+  context.opacity = rounded
+}
+
+function toBox(rect: DOMRect): Box {
+  return { left: rect.left, top: rect.top, width: rect.width, height: rect.height }
+}
+
+function x(context: RenderContext, value: number): number {
+  return context.offsetX + (value - context.originX) * context.scale
+}
+
+function y(context: RenderContext, value: number): number {
+  return context.offsetY + (value - context.originY) * context.scale
+}
@@ -0,0 +1,448 @@
+/**
+ * CSS color parsing and conversion to sRGB.
+ *
+ * Understands hex, named colors, rgb(), hsl(), lab(), lch(), oklab(), oklch() and color() with
+ * the predefined color spaces. Colors outside the sRGB gamut are gamut mapped as CSS Color 4
+ * specifies: chroma is reduced in OKLCH, keeping lightness and hue, until the color fits.
+ * Runs on the server (template validation) and in the browser (exports).
+ */
+
+export interface Rgba {
+  // 0-255
+  r: number
+  g: number
+  b: number
+  // 0-1
+  a: number
+}
+
+type Vector = [number, number, number]
+type Matrix = [Vector, Vector, Vector]
+
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4', azure: 'f0ffff',
+  beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000', blanchedalmond: 'ffebcd', blue: '0000ff',
+  blueviolet: '8a2be2', brown: 'a52a2a', burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00',
+  chocolate: 'd2691e', coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b', darkgray: 'a9a9a9',
+  darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b', darkmagenta: '8b008b', darkolivegreen: '556b2f',
+  darkorange: 'ff8c00', darkorchid: '9932cc', darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f',
+  darkslateblue: '483d8b', darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969', dodgerblue: '1e90ff',
+  firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22', fuchsia: 'ff00ff', gainsboro: 'dcdcdc',
+  ghostwhite: 'f8f8ff', gold: 'ffd700', goldenrod: 'daa520', gray: '808080', green: '008000',
+  greenyellow: 'adff2f', grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa', lavenderblush: 'fff0f5',
+  lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6', lightcoral: 'f08080', lightcyan: 'e0ffff',
+  lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3', lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1',
+  lightsalmon: 'ffa07a', lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32', linen: 'faf0e6',
+  magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa', mediumblue: '0000cd', mediumorchid: 'ba55d3',
+  mediumpurple: '9370db', mediumseagreen: '3cb371', mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc',
+  mediumvioletred: 'c71585', midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000', olivedrab: '6b8e23',
+  orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6', palegoldenrod: 'eee8aa', palegreen: '98fb98',
+  paleturquoise: 'afeeee', palevioletred: 'db7093', papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f',
+  pink: 'ffc0cb', plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513', salmon: 'fa8072',
+  sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee', sienna: 'a0522d', silver: 'c0c0c0',
+  skyblue: '87ceeb', slateblue: '6a5acd', slategray: '708090', slategrey: '708090', snow: 'fffafa',
+  springgreen: '00ff7f', steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3', white: 'ffffff',
+  whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+}
+
+// Conversion matrices from CSS Color 4; all RGB spaces convert through CIE XYZ
+const LINEAR_SRGB_TO_XYZ: Matrix = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+]
+const XYZ_TO_LINEAR_SRGB: Matrix = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+]
+const LINEAR_P3_TO_XYZ: Matrix = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+]
+const LINEAR_A98_TO_XYZ: Matrix = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+]
+// ProPhoto is relative to D50
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602],
+]
+const LINEAR_REC2020_TO_XYZ: Matrix = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+]
+// Bradford chromatic adaptation
+const D50_TO_D65: Matrix = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+]
+const D65_TO_D50: Matrix = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+]
+const D50_WHITE: Vector = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585]
+
+// OKLab, from Björn Ottosson's reference implementation
+const LINEAR_SRGB_TO_LMS: Matrix = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005],
+]
+const LMS_TO_OKLAB: Matrix = [
+  [0.2104542553, 0.793617785, -0.0040720468],
+  [1.9779984951, -2.428592205, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.808675766],
+]
+const OKLAB_TO_LMS: Matrix = [
+  [1, 0.3963377774, 0.2158037573],
+  [1, -0.1055613458, -0.0638541728],
+  [1, -0.0894841775, -1.291485548],
+]
+const LMS_TO_LINEAR_SRGB: Matrix = [
+  [4.0767416621, -3.3077115913, 0.2309699292],
+  [-1.2684380046, 2.6097574011, -0.3413193965],
+  [-0.0041960863, -0.7034186147, 1.707614701],
+]
+
+// Gamut mapping stops once the clipped color is within a just-noticeable difference
+const GAMUT_JND = 0.02
+const GAMUT_EPSILON = 0.0001
+
+const NUMBER_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/
+const HUE_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/
+
+const multiply = (m: Matrix, [x, y, z]: Vector): Vector => [
+  m[0][0] * x + m[0][1] * y + m[0][2] * z,
+  m[1][0] * x + m[1][1] * y + m[1][2] * z,
+  m[2][0] * x + m[2][1] * y + m[2][2] * z,
+]
+
+const signedPow = (value: number, exponent: number) => Math.sign(value) * Math.abs(value) ** exponent
+
+function srgbToLinear(value: number): number {
+  const abs = Math.abs(value)
+  return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * ((abs + 0.055) / 1.055) ** 2.4
+}
+
+function linearToSrgb(value: number): number {
+  const abs = Math.abs(value)
+  return abs <= 0.0031308 ? value * 12.92 : Math.sign(value) * (1.055 * abs ** (1 / 2.4) - 0.055)
+}
+
+function a98ToLinear(value: number): number {
+  return signedPow(value, 563 / 256)
+}
+
+function prophotoToLinear(value: number): number {
+  return Math.abs(value) <= 16 / 512 ? value / 16 : signedPow(value, 1.8)
+}
+
+function rec2020ToLinear(value: number): number {
+  const alpha = 1.09929682680944
+  const beta = 0.018053968510807
+  const abs = Math.abs(value)
+  return abs < beta * 4.5 ? value / 4.5 : Math.sign(value) * ((abs + alpha - 1) / alpha) ** (1 / 0.45)
+}
+
+function labToXyzD50([l, a, b]: Vector): Vector {
+  const kappa = 24389 / 27
+  const epsilon = 216 / 24389
+  const f1 = (l + 16) / 116
+  const f0 = a / 500 + f1
+  const f2 = f1 - b / 200
+
+  const x = f0 ** 3 > epsilon ? f0 ** 3 : (116 * f0 - 16) / kappa
+  const y = l > kappa * epsilon ? f1 ** 3 : l / kappa
+  const z = f2 ** 3 > epsilon ? f2 ** 3 : (116 * f2 - 16) / kappa
+
+  return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]]
+}
+
+function xyzD50ToLab(xyz: Vector): Vector {
+  const kappa = 24389 / 27
+  const epsilon = 216 / 24389
+  const [f0, f1, f2] = xyz.map((value, i) => {
+    const scaled = value / D50_WHITE[i]
+    return scaled > epsilon ? Math.cbrt(scaled) : (kappa * scaled + 16) / 116
+  })
+
+  return [116 * f1 - 16, 500 * (f0 - f1), 200 * (f1 - f2)]
+}
+
+const xyzD50ToLinearSrgb = (xyz: Vector) => multiply(XYZ_TO_LINEAR_SRGB, multiply(D50_TO_D65, xyz))
+
+function oklabToLinearSrgb(lab: Vector): Vector {
+  const lms = multiply(OKLAB_TO_LMS, lab).map((value) => value ** 3) as Vector
+  return multiply(LMS_TO_LINEAR_SRGB, lms)
+}
+
+function linearSrgbToOklab(rgb: Vector): Vector {
+  const lms = multiply(LINEAR_SRGB_TO_LMS, rgb).map(Math.cbrt) as Vector
+  return multiply(LMS_TO_OKLAB, lms)
+}
+
+function polarToCartesian(lightness: number, chroma: number, hue: number): Vector {
+  const radians = (hue * Math.PI) / 180
+  return [lightness, chroma * Math.cos(radians), chroma * Math.sin(radians)]
+}
+
+/**
+ * Maps linear-light sRGB (possibly out of gamut) into gamut and encodes it
+ */
+function toGamut(linear: Vector): Vector {
+  const encode = (rgb: Vector) => rgb.map((value) => Math.min(1, Math.max(0, linearToSrgb(value)))) as Vector
+  const inGamut = (rgb: Vector) => rgb.every((value) => value >= -GAMUT_EPSILON && value <= 1 + GAMUT_EPSILON)
+
+  if (inGamut(linear)) return encode(linear)
+
+  const [lightness, a, b] = linearSrgbToOklab(linear)
+  if (lightness >= 1) return [1, 1, 1]
+  if (lightness <= 0) return [0, 0, 0]
+
+  const hue = Math.atan2(b, a)
+  const atChroma = (chroma: number): Vector => [lightness, chroma * Math.cos(hue), chroma * Math.sin(hue)]
+  const clipOklab = (oklab: Vector) => {
+    const clipped = encode(oklabToLinearSrgb(oklab))
+    const distance = Math.hypot(...linearSrgbToOklab(clipped.map(srgbToLinear) as Vector).map((value, i) => value - oklab[i]))
+    return { clipped, distance }
+  }
+
+  let min = 0
+  let max = Math.hypot(a, b)
+  let minInGamut = true
+  let { clipped, distance } = clipOklab(atChroma(max))
+  if (distance < GAMUT_JND) return clipped
+
+  while (max - min > GAMUT_EPSILON) {
+    const chroma = (min + max) / 2
+    const current = atChroma(chroma)
+
+    if (minInGamut && inGamut(oklabToLinearSrgb(current))) {
+      min = chroma
+      continue
+    }
+
+    ;({ clipped, distance } = clipOklab(current))
+    if (distance < GAMUT_JND) {
+      if (GAMUT_JND - distance < GAMUT_EPSILON) return clipped
+      minInGamut = false
+      min = chroma
+    } else {
+      max = chroma
+    }
+  }
+
+  return clipped
+}
+
+/**
+ * Parses a number or percentage. Percentages are scaled so 100% equals `percentScale`.
+ */
+function parseComponent(token: string, percentScale: number): number | null {
+  if (token === 'none') return 0
+  if (token.endsWith('%')) {
+    const value = token.slice(0, -1)
+    return NUMBER_PATTERN.test(value) ? (parseFloat(value) / 100) * percentScale : null
+  }
+  return NUMBER_PATTERN.test(token) ? parseFloat(token) : null
+}
+
+function parseHue(token: string): number | null {
+  if (token === 'none') return 0
+  const match = token.match(HUE_PATTERN)
+  if (!match) return null
+
+  const value = parseFloat(match[1])
+  const degrees = match[2] === 'rad' ? (value * 180) / Math.PI : match[2] === 'grad' ? value * 0.9 : match[2] === 'turn' ? value * 360 : value
+  return ((degrees % 360) + 360) % 360
+}
+
+function hslToSrgb(hue: number, saturation: number, lightness: number): Vector {
+  const s = saturation / 100
+  const l = lightness / 100
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+  }
+  return [channel(0), channel(8), channel(4)]
+}
+
+/**
+ * Converts the components of a color() function in a predefined color space to linear sRGB
+ */
+function predefinedToLinearSrgb(space: string, [c1, c2, c3]: Vector): Vector | null {
+  switch (space) {
+    case 'srgb':
+      return [srgbToLinear(c1), srgbToLinear(c2), srgbToLinear(c3)]
+    case 'srgb-linear':
+      return [c1, c2, c3]
+    case 'display-p3':
+      return multiply(XYZ_TO_LINEAR_SRGB, multiply(LINEAR_P3_TO_XYZ, [srgbToLinear(c1), srgbToLinear(c2), srgbToLinear(c3)]))
+    case 'a98-rgb':
+      return multiply(XYZ_TO_LINEAR_SRGB, multiply(LINEAR_A98_TO_XYZ, [a98ToLinear(c1), a98ToLinear(c2), a98ToLinear(c3)]))
+    case 'prophoto-rgb':
+      return xyzD50ToLinearSrgb(multiply(LINEAR_PROPHOTO_TO_XYZ_D50, [prophotoToLinear(c1), prophotoToLinear(c2), prophotoToLinear(c3)]))
+    case 'rec2020':
+      return multiply(XYZ_TO_LINEAR_SRGB, multiply(LINEAR_REC2020_TO_XYZ, [rec2020ToLinear(c1), rec2020ToLinear(c2), rec2020ToLinear(c3)]))
+    case 'xyz':
+    case 'xyz-d65':
+      return multiply(XYZ_TO_LINEAR_SRGB, [c1, c2, c3])
+    case 'xyz-d50':
+      return xyzD50ToLinearSrgb([c1, c2, c3])
+    default:
+      return null
+  }
+}
+
+function parseHex(hex: string): Rgba | null {
+  if (!/^[0-9a-f]+$/.test(hex) || ![3, 4, 6, 8].includes(hex.length)) return null
+  const full = hex.length <= 4 ? hex.split('').map((digit) => digit + digit).join('') : hex
+  const channels = full.match(/../g)!.map((pair) => parseInt(pair, 16))
+  return { r: channels[0], g: channels[1], b: channels[2], a: channels.length === 4 ? channels[3] / 255 : 1 }
+}
+
+/**
+ * Parses a CSS color and converts it to sRGB, gamut mapping colors sRGB can't show.
+ * Returns null for anything that isn't a color literal (including var(), calc() and keywords
+ * like currentColor), so a successful parse also means the value is safe to put in CSS.
+ */
+export function parseColor(input: string): Rgba | null {
+  const value = input.trim().toLowerCase()
+
+  if (value.startsWith('#')) return parseHex(value.slice(1))
+  if (value === 'transparent') return { r: 0, g: 0, b: 0, a: 0 }
+  if (Object.hasOwn(NAMED_COLORS, value)) return parseHex(NAMED_COLORS[value])
+
+  const fn = value.match(/^([a-z-]+)\(\s*([^()]*?)\s*\)$/)
+  if (!fn) return null
+  const [, name, args] = fn
+
+  // Legacy comma syntax only exists for rgb() and hsl()
+  let parts: string[]
+  let alphaToken: string | undefined
+  if (args.includes(',')) {
+    if (!['rgb', 'rgba', 'hsl', 'hsla'].includes(name)) return null
+    parts = args.split(/\s*,\s*/)
+    if (parts.length === 4) alphaToken = parts.pop()
+  } else {
+    const sections = args.split('/')
+    if (sections.length > 2) return null
+    parts = sections[0].trim().split(/\s+/)
+    alphaToken = sections[1]?.trim()
+  }
+
+  const alpha = alphaToken === undefined ? 1 : parseComponent(alphaToken, 1)
+  if (alpha === null) return null
+
+  let encoded: Vector
+  if (name === 'rgb' || name === 'rgba' || name === 'hsl' || name === 'hsla') {
+    if (parts.length !== 3) return null
+    if (name.startsWith('rgb')) {
+      const rgb = parts.map((part) => parseComponent(part, 255))
+      if (rgb.some((channel) => channel === null)) return null
+      encoded = (rgb as number[]).map((channel) => Math.min(1, Math.max(0, channel / 255))) as Vector
+    } else {
+      const hue = parseHue(parts[0])
+      const saturation = parseComponent(parts[1], 100)
+      const lightness = parseComponent(parts[2], 100)
+      if (hue === null || saturation === null || lightness === null) return null
+      encoded = hslToSrgb(hue, Math.min(100, Math.max(0, saturation)), Math.min(100, Math.max(0, lightness)))
+    }
+  } else {
+    const linear = parseWideGamut(name, parts)
+    if (!linear) return null
+    encoded = toGamut(linear)
+  }
+
+  return {
+    r: Math.round(encoded[0] * 255),
+    g: Math.round(encoded[1] * 255),
+    b: Math.round(encoded[2] * 255),
+    a: Math.min(1, Math.max(0, alpha)),
+  }
+}
+
+/**
+ * Converts lab(), lch(), oklab(), oklch() and color() components to linear sRGB, unclipped
+ */
+function parseWideGamut(name: string, parts: string[]): Vector | null {
+  if (name === 'color') {
+    const [space, ...components] = parts
+    if (components.length !== 3) return null
+    const values = components.map((part) => parseComponent(part, 1))
+    if (values.some((value) => value === null)) return null
+    return predefinedToLinearSrgb(space, values as Vector)
+  }
+
+  if (parts.length !== 3) return null
+
+  switch (name) {
+    case 'lab': {
+      const l = parseComponent(parts[0], 100)
+      const a = parseComponent(parts[1], 125)
+      const b = parseComponent(parts[2], 125)
+      if (l === null || a === null || b === null) return null
+      return xyzD50ToLinearSrgb(labToXyzD50([Math.max(0, l), a, b]))
+    }
+    case 'lch': {
+      const l = parseComponent(parts[0], 100)
+      const c = parseComponent(parts[1], 150)
+      const h = parseHue(parts[2])
+      if (l === null || c === null || h === null) return null
+      return xyzD50ToLinearSrgb(labToXyzD50(polarToCartesian(Math.max(0, l), Math.max(0, c), h)))
+    }
+    case 'oklab': {
+      const l = parseComponent(parts[0], 1)
+      const a = parseComponent(parts[1], 0.4)
+      const b = parseComponent(parts[2], 0.4)
+      if (l === null || a === null || b === null) return null
+      return oklabToLinearSrgb([Math.max(0, l), a, b])
+    }
+    case 'oklch': {
+      const l = parseComponent(parts[0], 1)
+      const c = parseComponent(parts[1], 0.4)
+      const h = parseHue(parts[2])
+      if (l === null || c === null || h === null) return null
+      return oklabToLinearSrgb(polarToCartesian(Math.max(0, l), Math.max(0, c), h))
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Formats a color as rgb(), or rgba() when it is translucent
+ */
+export function formatRgb({ r, g, b, a }: Rgba): string {
+  return a < 1 ? `rgba(${r}, ${g}, ${b}, ${Math.round(a * 1000) / 1000})` : `rgb(${r}, ${g}, ${b})`
+}
+
+/**
+ * Formats a color as #rrggbb, dropping alpha (as <input type="color"> expects)
+ */
+export function formatHex({ r, g, b }: Rgba): string {
+  return `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`
+}
+
+/**
+ * CIE Lab (D50) of an sRGB color as [lightness 0-100, a, b], ignoring alpha
+ */
+export function toLab({ r, g, b }: Rgba): [number, number, number] {
+  const linear = [r, g, b].map((channel) => srgbToLinear(channel / 255)) as Vector
+  return xyzD50ToLab(multiply(D65_TO_D50, multiply(LINEAR_SRGB_TO_XYZ, linear)))
+}
@@ -0,0 +1,395 @@
+/**
+ * Tracks where in an HTML document a position falls (element text, an attribute value, a
+ * <style> or <script> block...) so template output can be escaped for that context.
+ *
+ * This is a small tokenizer, not a full HTML parser: it follows tags, quoted and unquoted
+ * attribute values, comments and raw text elements, which is all escaping needs. Inside
+ * <script> it also follows JavaScript strings, template literals, comments and regular
+ * expressions, since output is escaped differently in each.
+ */
+
+export interface OutputContext {
+  location: 'text' | 'tag' | 'attribute' | 'style' | 'script' | 'comment'
+  // Lowercased attribute name, when location is 'attribute'
+  attribute?: string
+  // Whether the attribute value is quoted
+  quoted?: boolean
+  // Inside a CSS url(...), in a <style> block or a style attribute
+  cssUrl?: boolean
+  // Nothing precedes the output in the attribute value or url(...), so it decides the URL scheme
+  valueStart?: boolean
+  // What the output lands in when location is 'script': code, a '…' or "…" string, a template
+  // literal, a comment or a regular expression
+  script?: 'code' | 'string' | 'template' | 'comment' | 'regex'
+}
+
+type ScanMode =
+  | 'text'
+  | 'tagName'
+  | 'tag'
+  | 'attributeName'
+  | 'afterAttributeName'
+  | 'beforeValue'
+  | 'value'
+  | 'rawText'
+  | 'comment'
+
+// JavaScript lexical state in a <script> block: code, a string or template literal (by its
+// quote), a line or block comment, or a regular expression literal
+type ScriptMode = 'code' | '"' | "'" | '`' | '//' | '/*' | 'regex'
+
+export interface HtmlScanState {
+  mode: ScanMode
+  tagName: string
+  closing: boolean
+  attribute: string
+  quote: '"' | "'" | ''
+  // Tail of the current attribute value or raw text block, for url( detection
+  tail: string
+  script: ScriptMode
+  // The previous character was a backslash in a string, template literal or regular expression
+  scriptEscape: boolean
+  // Inside [...] in a regular expression, where / doesn't end it
+  scriptRegexClass: boolean
+  // Open braces in script code: '{' for blocks and objects, '$' for ${ in a template literal.
+  // A string rather than an array so copies of the state don't share it.
+  scriptBraces: string
+  // Last non-space character of script code, to tell a regular expression from division
+  scriptLast: string
+}
+
+// A / after one of these starts a regular expression rather than dividing
+const REGEX_PRECEDERS = '(,=:[!&|?{};+-*%<>~^'
+
+// Elements whose content is not parsed as HTML
+const RAW_TEXT_ELEMENTS = ['style', 'script', 'textarea', 'title']
+
+const TAIL_LENGTH = 64
+
+export const URL_ATTRIBUTES = new Set([
+  'href', 'src', 'srcset', 'action', 'formaction', 'poster', 'background', 'cite',
+  'data', 'xlink:href', 'longdesc', 'manifest', 'ping', 'codebase', 'lowsrc',
+])
+
+export function createHtmlScanState(): HtmlScanState {
+  return {
+    mode: 'text',
+    tagName: '',
+    closing: false,
+    attribute: '',
+    quote: '',
+    tail: '',
+    script: 'code',
+    scriptEscape: false,
+    scriptRegexClass: false,
+    scriptBraces: '',
+    scriptLast: '',
+  }
+}
+
+function isSpace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\t' || char === '\r' || char === '\f'
+}
+
+/**
+ * Advances the JavaScript state over a run of script text
+ */
+function advanceScriptScan(state: HtmlScanState, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    switch (state.script) {
+      case 'code':
+        if (char === '"' || char === "'" || char === '`') {
+          state.script = char
+        } else if (char === '/' && text[i + 1] === '/') {
+          state.script = '//'
+          i++
+        } else if (char === '/' && text[i + 1] === '*') {
+          state.script = '/*'
+          i++
+        } else if (char === '/' && (state.scriptLast === '' || REGEX_PRECEDERS.includes(state.scriptLast))) {
+          state.script = 'regex'
+          state.scriptRegexClass = false
+        } else if (char === '{') {
+          state.scriptBraces += '{'
+        } else if (char === '}') {
+          // Closes a ${ and returns to the template literal around it
+          if (state.scriptBraces.endsWith('$')) state.script = '`'
+          state.scriptBraces = state.scriptBraces.slice(0, -1)
+        }
+        if (state.script === 'code' && !isSpace(char)) state.scriptLast = char
+        break
+
+      case '"':
+      case "'":
+      case '`':
+        if (state.scriptEscape) {
+          state.scriptEscape = false
+        } else if (char === '\\') {
+          state.scriptEscape = true
+        } else if (char === state.script) {
+          state.script = 'code'
+          state.scriptLast = char
+        } else if (state.script === '`' && char === '$' && text[i + 1] === '{') {
+          state.script = 'code'
+          state.scriptBraces += '$'
+          state.scriptLast = '{'
+          i++
+        } else if (char === '\n' && state.script !== '`') {
+          // Strings can't span lines; the script is broken, so carry on as code
+          state.script = 'code'
+        }
+        break
+
+      case 'regex':
+        if (state.scriptEscape) {
+          state.scriptEscape = false
+        } else if (char === '\\') {
+          state.scriptEscape = true
+        } else if (char === '[') {
+          state.scriptRegexClass = true
+        } else if (char === ']') {
+          state.scriptRegexClass = false
+        } else if (char === '/' && !state.scriptRegexClass) {
+          state.script = 'code'
+          state.scriptLast = char
+        } else if (char === '\n') {
+          state.script = 'code'
+        }
+        break
+
+      case '//':
+        if (char === '\n') state.script = 'code'
+        break
+
+      case '/*':
+        if (char === '*' && text[i + 1] === '/') {
+          state.script = 'code'
+          i++
+        }
+        break
+    }
+  }
+}
+
+/**
+ * Advances the scan state over a run of HTML text. The state is updated in place.
+ */
+export function advanceHtmlScan(state: HtmlScanState, text: string): void {
+  let i = 0
+  // Start of the attribute value or raw text that belongs to the tail
+  let tailFrom = state.mode === 'value' || state.mode === 'rawText' ? 0 : -1
+
+  const endTag = () => {
+    const name = state.tagName.toLowerCase()
+    if (!state.closing && RAW_TEXT_ELEMENTS.includes(name)) {
+      state.mode = 'rawText'
+      state.tail = ''
+      tailFrom = i + 1
+      if (name === 'script') {
+        state.script = 'code'
+        state.scriptEscape = false
+        state.scriptRegexClass = false
+        state.scriptBraces = ''
+        state.scriptLast = ''
+      }
+    } else {
+      state.mode = 'text'
+    }
+    state.tagName = name
+  }
+
+  const startValue = (from: number) => {
+    state.mode = 'value'
+    state.tail = ''
+    tailFrom = from
+  }
+
+  const closeTail = (to: number) => {
+    if (tailFrom === -1) return
+    state.tail = (state.tail + text.slice(tailFrom, to)).slice(-TAIL_LENGTH)
+    tailFrom = -1
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+
+    switch (state.mode) {
+      case 'text': {
+        const next = text.indexOf('<', i)
+        if (next === -1) {
+          i = text.length
+          continue
+        }
+        i = next
+        if (text.startsWith('<!--', i)) {
+          state.mode = 'comment'
+          i += 4
+          continue
+        }
+        const after = text[i + 1]
+        if (after === '/' || (after !== undefined && /[A-Za-z]/.test(after))) {
+          state.mode = 'tagName'
+          state.tagName = ''
+          state.closing = after === '/'
+          i += after === '/' ? 2 : 1
+          continue
+        }
+        break
+      }
+
+      case 'tagName':
+        if (isSpace(char) || char === '/') state.mode = 'tag'
+        else if (char === '>') endTag()
+        else state.tagName += char
+        break
+
+      case 'tag':
+        if (char === '>') endTag()
+        else if (!isSpace(char) && char !== '/') {
+          state.mode = 'attributeName'
+          state.attribute = char
+        }
+        break
+
+      case 'attributeName':
+        if (char === '=') state.mode = 'beforeValue'
+        else if (isSpace(char)) state.mode = 'afterAttributeName'
+        else if (char === '>') endTag()
+        else if (char === '/') state.mode = 'tag'
+        else state.attribute += char
+        break
+
+      case 'afterAttributeName':
+        if (char === '=') state.mode = 'beforeValue'
+        else if (char === '>') endTag()
+        else if (!isSpace(char) && char !== '/') {
+          state.mode = 'attributeName'
+          state.attribute = char
+        }
+        break
+
+      case 'beforeValue':
+        if (char === '"' || char === "'") {
+          state.quote = char
+          startValue(i + 1)
+        } else if (char === '>') {
+          endTag()
+        } else if (!isSpace(char)) {
+          state.quote = ''
+          startValue(i)
+        }
+        break
+
+      case 'value':
+        if (state.quote ? char === state.quote : isSpace(char)) {
+          closeTail(i)
+          state.mode = 'tag'
+        } else if (!state.quote && char === '>') {
+          closeTail(i)
+          endTag()
+        }
+        break
+
+      case 'rawText': {
+        const close = text.toLowerCase().indexOf(`</${state.tagName}`, i)
+        if (state.tagName === 'script') {
+          advanceScriptScan(state, text.slice(i, close === -1 ? text.length : close))
+        }
+        if (close === -1) {
+          i = text.length
+          continue
+        }
+        closeTail(close)
+        state.mode = 'tagName'
+        state.tagName = ''
+        state.closing = true
+        i = close + 2
+        continue
+      }
+
+      case 'comment': {
+        const close = text.indexOf('-->', i)
+        if (close === -1) {
+          i = text.length
+          continue
+        }
+        state.mode = 'text'
+        i = close + 3
+        continue
+      }
+    }
+
+    i++
+  }
+
+  closeTail(text.length)
+}
+
+// Stands in for template output in the tail, so later output in the same value isn't at its start
+const OUTPUT_MARKER = '\uFFFC'
+
+/**
+ * Accounts for template output inserted at the current position, which the scanner never sees
+ */
+export function advanceHtmlScanPastOutput(state: HtmlScanState): void {
+  if (state.mode === 'beforeValue') {
+    state.mode = 'value'
+    state.quote = ''
+    state.tail = ''
+  }
+  if (state.mode === 'value' || state.mode === 'rawText') {
+    state.tail = (state.tail + OUTPUT_MARKER).slice(-TAIL_LENGTH)
+  }
+  // Output in script code is a string literal, so a / after it divides
+  if (state.mode === 'rawText' && state.tagName === 'script' && state.script === 'code') {
+    state.scriptLast = '"'
+  }
+}
+
+// Shared by every output in these contexts; large templates have thousands
+const TEXT_CONTEXT: OutputContext = Object.freeze({ location: 'text' })
+const COMMENT_CONTEXT: OutputContext = Object.freeze({ location: 'comment' })
+const SCRIPT_CONTEXTS: Record<ScriptMode, OutputContext> = {
+  code: Object.freeze({ location: 'script', script: 'code' }),
+  '"': Object.freeze({ location: 'script', script: 'string' }),
+  "'": Object.freeze({ location: 'script', script: 'string' }),
+  '`': Object.freeze({ location: 'script', script: 'template' }),
+  '//': Object.freeze({ location: 'script', script: 'comment' }),
+  '/*': Object.freeze({ location: 'script', script: 'comment' }),
+  regex: Object.freeze({ location: 'script', script: 'regex' }),
+}
+const TAG_CONTEXT: OutputContext = Object.freeze({ location: 'tag' })
+
+/**
+ * The context of output inserted at the current scan position
+ */
+export function outputContextOf(state: HtmlScanState): OutputContext {
+  switch (state.mode) {
+    case 'text':
+      return TEXT_CONTEXT
+    case 'comment':
+      return COMMENT_CONTEXT
+    case 'rawText':
+      if (state.tagName === 'style') return { location: 'style', ...cssUrlContext(state.tail) }
+      if (state.tagName === 'script') return SCRIPT_CONTEXTS[state.script]
+      return TEXT_CONTEXT
+    case 'beforeValue':
+    case 'value': {
+      const attribute = state.attribute.toLowerCase()
+      const quoted = state.mode === 'value' && state.quote !== ''
+      const valueStart = state.mode === 'beforeValue' || state.tail.trim() === ''
+      if (attribute === 'style') return { location: 'attribute', attribute, quoted, ...cssUrlContext(state.tail) }
+      return { location: 'attribute', attribute, quoted, valueStart }
+    }
+    default:
+      return TAG_CONTEXT
+  }
+}
+
+function cssUrlContext(css: string): Pick<OutputContext, 'cssUrl' | 'valueStart'> {
+  const open = css.match(/url\(\s*['"]?([^'")]*)$/i)
+  if (!open) return { cssUrl: false }
+  return { cssUrl: true, valueStart: open[1].trim() === '' }
+}
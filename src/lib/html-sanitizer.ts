@@ -0,0 +1,88 @@
+import * as cheerio from 'cheerio'
+import { URL_ATTRIBUTES } from '@/lib/html-context'
+
+// Schemes allowed in links and image sources; relative URLs are always allowed
+export const ALLOWED_URL_SCHEMES = ['http', 'https', 'mailto', 'tel', 'sms']
+
+// Uploaded images may be inlined as data URIs; SVG is excluded because it can carry scripts
+const SAFE_DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp|avif);base64,/i
+
+// Elements that run code or change how the rest of the page loads
+const BLOCKED_ELEMENTS = 'script, object, embed, applet, base, frame, frameset, meta[http-equiv="refresh" i]'
+
+// Embeds (maps, video) are kept only when they load an https page
+const SAFE_IFRAME_SRC = /^https:\/\//i
+
+// SVG animations can set an attribute, including href, to any value while the page runs
+const ANIMATION_ELEMENTS = new Set(['animate', 'set', 'animatemotion', 'animatetransform'])
+const ANIMATION_VALUE_ATTRIBUTES = new Set(['values', 'to', 'from', 'by'])
+
+/**
+ * Whether a URL is relative or uses an allowed scheme
+ */
+export function isAllowedUrl(url: string): boolean {
+  // Browsers ignore whitespace and control characters inside a scheme ("java\tscript:")
+  const normalized = url.replace(/[\u0000- \u007f-\u009f]/g, '')
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i)
+  if (!scheme) return true
+  return ALLOWED_URL_SCHEMES.includes(scheme[1].toLowerCase()) || SAFE_DATA_IMAGE.test(normalized)
+}
+
+/**
+ * Returns the URL trimmed, or an empty string when its scheme isn't allowed
+ */
+export function sanitizeUrl(url: string): string {
+  const trimmed = url.trim()
+  return isAllowedUrl(trimmed) ? trimmed : ''
+}
+
+// srcset is a comma-separated list of "url descriptor" candidates
+function isAllowedSrcset(srcset: string): boolean {
+  return srcset.split(',').every((candidate) => isAllowedUrl(candidate.trim().split(/\s+/)[0] ?? ''))
+}
+
+// Whether an SVG animation could put a script URL into an attribute
+function isUnsafeAnimation(attribs: Record<string, string>): boolean {
+  return Object.entries(attribs).some(([name, value]) => {
+    const attribute = name.toLowerCase()
+    if (attribute === 'attributename') return /href$/i.test(value.trim())
+    return ANIMATION_VALUE_ATTRIBUTES.has(attribute) && !value.split(';').every((part) => isAllowedUrl(part.trim()))
+  })
+}
+
+/**
+ * Removes scripts, event handlers and script URLs from an HTML document before it is
+ * published. Everything else, including styles, is kept as-is.
+ */
+export function sanitizeHtml(html: string): string {
+  const isDocument = /<(!doctype|html|head|body)[\s>]/i.test(html)
+  const $ = cheerio.load(html, null, isDocument)
+
+  $(BLOCKED_ELEMENTS).remove()
+
+  $('*').each((_, el) => {
+    if (el.type !== 'tag') return
+
+    const tagName = el.name.toLowerCase()
+    if (
+      (tagName === 'iframe' && !SAFE_IFRAME_SRC.test((el.attribs.src ?? '').trim())) ||
+      (ANIMATION_ELEMENTS.has(tagName) && isUnsafeAnimation(el.attribs))
+    ) {
+      $(el).remove()
+      return
+    }
+
+    for (const [name, value] of Object.entries(el.attribs)) {
+      const attribute = name.toLowerCase()
+      const unsafe =
+        attribute.startsWith('on') ||
+        // srcdoc is a whole HTML document, entities and all
+        attribute === 'srcdoc' ||
+        (attribute === 'srcset' ? !isAllowedSrcset(value) : URL_ATTRIBUTES.has(attribute) && !isAllowedUrl(value)) ||
+        (attribute === 'style' && /expression\s*\(|javascript:/i.test(value))
+      if (unsafe) $(el).removeAttr(name)
+    }
+  })
+
+  return $.html()
+}
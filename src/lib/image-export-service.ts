@@ -0,0 +1,122 @@
+import sharp from 'sharp'
+import { CSS_PIXELS_PER_INCH, getPrintFormat, getPrintPixelSize } from '@/lib/print-formats'
+import { withRenderPage, loadRenderContent } from '@/lib/render-service'
+import { renderCacheKey, getCachedRender, putCachedRender } from '@/lib/render-cache'
+import {
+  DEFAULT_EXPORT_DPI,
+  IMAGE_EXPORT_FORMATS,
+  ImageExportFormat,
+  SOCIAL_CROPS,
+  SocialCropId,
+} from '@/lib/image-exports'
+
+// Upper bound for the render scale of crops, whatever the page size
+const MAX_CROP_SCALE = 4
+const JPEG_QUALITY = 90
+const WEBP_QUALITY = 90
+
+// Designs taller than this many pages are refused: the screenshot is decoded in full by sharp
+// on a render worker that other renders share
+const MAX_CAPTURE_PAGES = 4
+// Device pixels in one capture (about 160 MB decoded); the render scale is lowered to fit
+const MAX_CAPTURE_PIXELS = 40_000_000
+
+/**
+ * Thrown when a design is too tall to export as one image
+ */
+export class ImageExportTooLargeError extends Error {
+  constructor() {
+    super(`Designs taller than ${MAX_CAPTURE_PAGES} pages can't be exported as an image`)
+    this.name = 'ImageExportTooLargeError'
+  }
+}
+
+export interface ImageExportOptions {
+  html: string
+  // Template print size
+  size?: string | null
+  format: ImageExportFormat
+  // Resolution of full-page exports; ignored for crops, which have fixed pixel sizes
+  dpi?: number
+  crop?: SocialCropId | null
+}
+
+export interface ImageExportResult {
+  data: Buffer
+  contentType: string
+}
+
+/**
+ * Renders the design and encodes it as an image export. Full pages are rendered at the chosen
+ * DPI; crops are rendered just sharp enough to fill them and cut from the top of the page.
+ */
+export async function renderImageExport({ html, size, format, dpi = DEFAULT_EXPORT_DPI, crop }: ImageExportOptions): Promise<ImageExportResult> {
+  const printFormat = getPrintFormat(size)
+  const cropSize = crop ? SOCIAL_CROPS[crop] : null
+  const contentType = IMAGE_EXPORT_FORMATS[format].contentType
+
+  const cacheKey = renderCacheKey('image', html, { size: printFormat.id, format, dpi: cropSize ? null : dpi, crop: cropSize?.id ?? null })
+  const cached = await getCachedRender<null>(cacheKey)
+  const cachedData = cached ? await cached.read().catch(() => null) : null
+  if (cachedData) return { data: cachedData, contentType }
+
+  const { width, height } = getPrintPixelSize(printFormat)
+  const scale = cropSize
+    ? Math.min(MAX_CROP_SCALE, Math.max(1, cropSize.width / width, cropSize.height / height))
+    : dpi / CSS_PIXELS_PER_INCH
+
+  const { screenshot, captureScale } = await withRenderPage(async (page) => {
+    await loadRenderContent(page, html, { width, height, deviceScaleFactor: scale })
+
+    // Capture the whole design, at least one page tall
+    const bodyHeight = await page.evaluate(() => document.body.scrollHeight)
+    const captureHeight = Math.max(bodyHeight, height)
+    if (captureHeight > height * MAX_CAPTURE_PAGES) throw new ImageExportTooLargeError()
+
+    const captureScale = Math.min(scale, Math.sqrt(MAX_CAPTURE_PIXELS / (width * captureHeight)))
+    await page.setViewport({ width, height: captureHeight, deviceScaleFactor: captureScale })
+
+    return {
+      screenshot: await page.screenshot({ type: 'png', clip: { x: 0, y: 0, width, height: captureHeight } }),
+      captureScale,
+    }
+  })
+
+  let image = sharp(Buffer.from(screenshot))
+  if (cropSize) {
+    image = image.resize(cropSize.width, cropSize.height, { fit: 'cover', position: 'top' })
+  }
+  // Crops are meant for screens; full pages carry their print resolution, which is lower than
+  // asked for when a tall design was captured at a reduced scale
+  const density = cropSize ? 72 : Math.round(captureScale * CSS_PIXELS_PER_INCH)
+
+  let data: Buffer
+  if (format === 'jpg') {
+    data = await image.flatten({ background: '#ffffff' }).jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).withMetadata({ density }).toBuffer()
+  } else if (format === 'webp') {
+    data = await image.webp({ quality: WEBP_QUALITY }).toBuffer()
+  } else if (format === 'png') {
+    data = await image.png({ compressionLevel: 9 }).withMetadata({ density }).toBuffer()
+  } else {
+    const { data: png, info } = await image.png().toBuffer({ resolveWithObject: true })
+    data = Buffer.from(wrapInSvg(png, info.width, info.height, cropSize ? null : density))
+  }
+
+  await putCachedRender(cacheKey, data, { extension: format, metadata: null })
+
+  return { data, contentType }
+}
+
+/**
+ * Embeds a PNG in an SVG. With a DPI the SVG is sized in inches, so it places at print size.
+ */
+function wrapInSvg(png: Buffer, width: number, height: number, dpi: number | null): string {
+  const outerWidth = dpi ? `${width / dpi}in` : `${width}`
+  const outerHeight = dpi ? `${height / dpi}in` : `${height}`
+  const href = `data:image/png;base64,${png.toString('base64')}`
+
+  // xlink:href as well as href, for editors that predate SVG 2
+  return `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${outerWidth}" height="${outerHeight}" viewBox="0 0 ${width} ${height}">` +
+    `<image width="${width}" height="${height}" href="${href}" xlink:href="${href}"/>` +
+    `</svg>`
+}
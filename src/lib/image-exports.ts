@@ -0,0 +1,47 @@
+/**
+ * Image export options: file formats, resolutions and the social media / email crops.
+ *
+ * Full-page exports keep the template's print size and are rendered at the chosen DPI. Crops are
+ * fixed pixel sizes cut from the top of the rendered page.
+ */
+
+export type ImageExportFormat = 'jpg' | 'webp' | 'png' | 'svg'
+
+export interface ImageExportFormatInfo {
+  label: string
+  contentType: string
+}
+
+export const IMAGE_EXPORT_FORMATS: Record<ImageExportFormat, ImageExportFormatInfo> = {
+  jpg: { label: 'JPG', contentType: 'image/jpeg' },
+  webp: { label: 'WebP', contentType: 'image/webp' },
+  png: { label: 'PNG', contentType: 'image/png' },
+  // The rendered page embedded as an image, sized in inches, for tools that place SVGs
+  svg: { label: 'SVG (embedded image)', contentType: 'image/svg+xml' },
+}
+
+export const EXPORT_DPI_OPTIONS = [72, 150, 300] as const
+export const DEFAULT_EXPORT_DPI = 150
+export const MIN_EXPORT_DPI = 72
+export const MAX_EXPORT_DPI = 300
+
+export type SocialCropId = 'instagram_square' | 'instagram_portrait' | 'link_share' | 'email_header'
+
+export interface SocialCrop {
+  id: SocialCropId
+  label: string
+  width: number
+  height: number
+}
+
+export const SOCIAL_CROPS: Record<SocialCropId, SocialCrop> = {
+  instagram_square: { id: 'instagram_square', label: 'Instagram post', width: 1080, height: 1080 },
+  instagram_portrait: { id: 'instagram_portrait', label: 'Instagram portrait', width: 1080, height: 1350 },
+  // Facebook and LinkedIn link previews
+  link_share: { id: 'link_share', label: 'Facebook link', width: 1200, height: 628 },
+  // Email clients lay messages out 600px wide
+  email_header: { id: 'email_header', label: 'Email header', width: 600, height: 200 },
+}
+
+export const IMAGE_EXPORT_FORMAT_IDS = Object.keys(IMAGE_EXPORT_FORMATS) as [ImageExportFormat, ...ImageExportFormat[]]
+export const SOCIAL_CROP_IDS = Object.keys(SOCIAL_CROPS) as [SocialCropId, ...SocialCropId[]]
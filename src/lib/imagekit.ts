@@ -0,0 +1,15 @@
+import ImageKit from 'imagekit'
+
+// Lazy initialization to avoid build errors when env vars are missing
+let imagekitClient: ImageKit | null = null
+
+export function getImageKitClient(): ImageKit {
+  if (!imagekitClient) {
+    imagekitClient = new ImageKit({
+      publicKey: process.env.IMAGEKIT_PUBLIC_KEY!,
+      privateKey: process.env.IMAGEKIT_PRIVATE_KEY!,
+      urlEndpoint: process.env.IMAGEKIT_URL_ENDPOINT!,
+    })
+  }
+  return imagekitClient
+}
@@ -0,0 +1,155 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { escapeHtml } from '@/lib/template-renderer'
+import type { PageVisibility } from '@/types'
+
+/**
+ * Access control for published pages: page visibility, page passwords and expiring share links.
+ */
+
+export const PAGE_VISIBILITIES = ['public', 'unlisted', 'password', 'private'] as const satisfies readonly PageVisibility[]
+
+export const MIN_PAGE_PASSWORD_LENGTH = 6
+export const MAX_PAGE_PASSWORD_LENGTH = 200
+
+export const DEFAULT_SHARE_LINK_TTL_HOURS = 24 * 7
+export const MAX_SHARE_LINK_TTL_HOURS = 24 * 90
+
+// Visitors who entered the password are remembered for this long
+const PAGE_ACCESS_COOKIE_MAX_AGE = 60 * 60 * 24 * 30
+
+// Failed password attempts allowed per page and visitor IP within the window
+const MAX_PASSWORD_ATTEMPTS = 5
+const PASSWORD_ATTEMPT_WINDOW_SECONDS = 15 * 60
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const KEY_LENGTH = 32
+
+export function sharePagePath(token: string): string {
+  return `/s/${token}`
+}
+
+/**
+ * Hashes a page password as "scrypt:<salt>:<hash>"
+ */
+export async function hashPagePassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt:${salt.toString('base64url')}:${hash.toString('base64url')}`
+}
+
+export async function verifyPagePassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, expected] = passwordHash.split(':')
+  if (scheme !== 'scrypt' || !salt || !expected) return false
+
+  const expectedHash = Buffer.from(expected, 'base64url')
+  const hash = await scryptAsync(password, Buffer.from(salt, 'base64url'), expectedHash.length)
+  return timingSafeEqual(hash, expectedHash)
+}
+
+/**
+ * Cookie that lets a visitor back into a password-protected page. Its value is signed with the
+ * password hash, so it can't be forged and stops working when the password changes.
+ */
+export function pageAccessCookie(slug: string, passwordHash: string) {
+  return {
+    name: pageAccessCookieName(slug),
+    value: pageAccessToken(slug, passwordHash),
+    options: {
+      path: `/p/${slug}`,
+      maxAge: PAGE_ACCESS_COOKIE_MAX_AGE,
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax' as const,
+    },
+  }
+}
+
+export function hasPageAccess(cookieValue: string | undefined, slug: string, passwordHash: string): boolean {
+  if (!cookieValue) return false
+
+  const expected = Buffer.from(pageAccessToken(slug, passwordHash))
+  const actual = Buffer.from(cookieValue)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+export function pageAccessCookieName(slug: string): string {
+  return `page_access_${slug}`
+}
+
+function pageAccessToken(slug: string, passwordHash: string): string {
+  return createHmac('sha256', passwordHash).update(`page:${slug}`).digest('base64url')
+}
+
+/**
+ * Seconds until the visitor may try the page password again, or 0 when they may try now
+ */
+export async function getPasswordRetryAfter(supabase: SupabaseClient, customizationId: string, ip: string): Promise<number> {
+  const since = new Date(Date.now() - PASSWORD_ATTEMPT_WINDOW_SECONDS * 1000)
+  const { data, error } = await supabase
+    .from('page_password_attempts')
+    .select('created_at')
+    .eq('customization_id', customizationId)
+    .eq('ip', ip)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .limit(MAX_PASSWORD_ATTEMPTS)
+
+  if (error) throw new Error(`Failed to check password attempts: ${error.message}`)
+  if (!data || data.length < MAX_PASSWORD_ATTEMPTS) return 0
+
+  // Another attempt is allowed once the oldest of the recent attempts leaves the window
+  const oldest = new Date(data[data.length - 1].created_at).getTime()
+  return Math.max(1, Math.ceil((oldest - since.getTime()) / 1000))
+}
+
+export async function recordFailedPasswordAttempt(supabase: SupabaseClient, customizationId: string, ip: string): Promise<void> {
+  const { error } = await supabase
+    .from('page_password_attempts')
+    .insert({ customization_id: customizationId, ip })
+
+  if (error) throw new Error(`Failed to record password attempt: ${error.message}`)
+
+  await supabase
+    .from('page_password_attempts')
+    .delete()
+    .eq('customization_id', customizationId)
+    .lt('created_at', new Date(Date.now() - PASSWORD_ATTEMPT_WINDOW_SECONDS * 1000).toISOString())
+}
+
+export function createShareToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+/**
+ * The page shown instead of a password-protected page until the password is entered
+ */
+export function buildPasswordPageHtml({ title, error }: { title: string; error?: string }): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; background: #f3f4f6; font-family: system-ui, sans-serif; color: #111827; }
+  form { width: 100%; max-width: 320px; padding: 24px; background: #fff; border-radius: 8px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); }
+  h1 { margin: 0 0 16px; font-size: 18px; }
+  input { box-sizing: border-box; width: 100%; padding: 8px 10px; border: 1px solid #d1d5db; border-radius: 6px; font-size: 14px; }
+  button { width: 100%; margin-top: 12px; padding: 8px 10px; border: 0; border-radius: 6px; background: #111827; color: #fff; font-size: 14px; cursor: pointer; }
+  p { margin: 8px 0 0; color: #dc2626; font-size: 13px; }
+</style>
+</head>
+<body>
+<form method="post">
+  <h1>This page is password protected</h1>
+  <input type="password" name="password" placeholder="Password" aria-label="Password" required autofocus>
+  ${error ? `<p>${escapeHtml(error)}</p>` : ''}
+  <button type="submit">View page</button>
+</form>
+</body>
+</html>`
+}
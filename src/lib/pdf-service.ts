@@ -0,0 +1,130 @@
+import { getPrintFormat, getPrintPixelSize } from '@/lib/print-formats'
+import {
+  collectPrintReport,
+  getPrintReadyCss,
+  getPrintSheetSize,
+  preparePrintReadyPage,
+  resolvePrintReadyOptions,
+  PrintReport,
+} from '@/lib/print-ready'
+import { withRenderPage, loadRenderContent } from '@/lib/render-service'
+import { renderCacheKey, getCachedRender, putCachedRender } from '@/lib/render-cache'
+
+export interface PdfRenderOptions {
+  html: string
+  // Template print size
+  size?: string | null
+  // Adds bleed and crop marks for commercial printers
+  printReady?: boolean
+  bleed?: number
+  cropMarks?: boolean
+}
+
+export interface PdfRenderResult {
+  pdf: Uint8Array
+  // Only for print-ready PDFs
+  printReport: PrintReport | null
+  // Public URL of the cached PDF, when the render cache serves files
+  url: string | null
+}
+
+interface PdfCacheMetadata {
+  printReport: PrintReport | null
+}
+
+function resolvePdfRender({ html, size, printReady, bleed, cropMarks }: PdfRenderOptions) {
+  const format = getPrintFormat(size)
+  const printOptions = printReady ? resolvePrintReadyOptions(format, { bleed, cropMarks }) : null
+  const cacheKey = renderCacheKey('pdf', html, { size: format.id, print: printOptions })
+  return { format, printOptions, cacheKey }
+}
+
+/**
+ * Looks up an already rendered PDF that has a public URL, so it can be handed out without
+ * rendering or downloading it
+ */
+export async function findCachedPdf(options: PdfRenderOptions): Promise<{ url: string; printReport: PrintReport | null } | null> {
+  const cached = await getCachedRender<PdfCacheMetadata>(resolvePdfRender(options).cacheKey)
+  return cached?.url ? { url: cached.url, printReport: cached.metadata.printReport } : null
+}
+
+/**
+ * Renders HTML to a PDF at the template's print size. Supports multi-page documents with
+ * .page or [data-page] elements. Repeat renders of the same HTML and options come from the
+ * render cache.
+ */
+export async function renderPdf(options: PdfRenderOptions): Promise<PdfRenderResult> {
+  const { html } = options
+  const { format, printOptions, cacheKey } = resolvePdfRender(options)
+
+  const cached = await getCachedRender<PdfCacheMetadata>(cacheKey)
+  if (cached) {
+    try {
+      return { pdf: await cached.read(), printReport: cached.metadata.printReport, url: cached.url }
+    } catch (error) {
+      // A partial entry is re-rendered and overwritten below
+      console.warn('Cached PDF unavailable:', error)
+    }
+  }
+
+  // Inject CSS for multi-page PDF support
+  const multiPageCss = `
+      <style>
+        @page {
+          size: ${format.width}in ${format.height}in;
+          margin: 0;
+        }
+        html, body {
+          margin: 0;
+          padding: 0;
+        }
+        /* Support for explicit page elements */
+        .page, [data-page] {
+          width: ${format.width}in;
+          height: ${format.height}in;
+          page-break-after: always;
+          page-break-inside: avoid;
+          overflow: hidden;
+          box-sizing: border-box;
+        }
+        .page:last-child, [data-page]:last-child {
+          page-break-after: auto;
+        }
+      </style>
+    `
+
+  // Inject multi-page CSS into HTML
+  const pageCss = printOptions ? getPrintReadyCss(format, printOptions) : multiPageCss
+  const htmlWithStyles = html.includes('</head>')
+    ? html.replace('</head>', `${pageCss}</head>`)
+    : `${pageCss}${html}`
+
+  const { pdf, printReport } = await withRenderPage(async (page) => {
+    // Viewport is the template's print size at 96dpi
+    await loadRenderContent(page, htmlWithStyles, { ...getPrintPixelSize(format), deviceScaleFactor: 2 })
+
+    let printReport: PrintReport | null = null
+    if (printOptions) {
+      printReport = await collectPrintReport(page)
+      await preparePrintReadyPage(page, format, printOptions)
+    }
+
+    // Chromium embeds the fonts used, subset to the glyphs on the page
+    const pdfSize = printOptions ? getPrintSheetSize(format, printOptions) : format
+    const pdf = await page.pdf({
+      width: `${pdfSize.width}in`,
+      height: `${pdfSize.height}in`,
+      printBackground: true,
+      margin: { top: 0, right: 0, bottom: 0, left: 0 },
+      preferCSSPageSize: true,
+    })
+
+    return { pdf, printReport }
+  })
+
+  const url = await putCachedRender(cacheKey, Buffer.from(pdf), {
+    extension: 'pdf',
+    metadata: { printReport },
+  })
+  return { pdf, printReport, url }
+}
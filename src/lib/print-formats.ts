@@ -0,0 +1,241 @@
+/**
+ * Print formats a template can be designed for. The template's `size` column stores the id,
+ * or "custom:<width>x<height>" (in inches) for sizes outside the catalogue.
+ *
+ * Dimensions are the trim size in inches, already oriented (a 4x6 postcard is 6in wide).
+ * Bleed is the extra artwork printed past the trim on every side; the safe zone is the margin
+ * inside the trim that text and logos should stay out of.
+ */
+
+export type PrintFormatId =
+  | 'letter'
+  | 'legal'
+  | 'tabloid'
+  | 'a4'
+  | 'a5'
+  | 'print_5x7'
+  | 'print_9x12'
+  | 'postcard_4x6'
+  | 'postcard_6x9'
+  | 'postcard_6x11'
+  | 'door_hanger'
+
+// "custom:5.5x8.5"
+export type CustomPrintSize = `custom:${string}`
+
+export interface PrintFormat {
+  id: PrintFormatId | CustomPrintSize
+  label: string
+  // Human-readable size, used in prompts and the template editor
+  dimensions: string
+  width: number
+  height: number
+  orientation: 'portrait' | 'landscape'
+  bleed: number
+  safeZone: number
+}
+
+// CSS pixels per inch; browsers lay out and screenshot pages at this density
+export const CSS_PIXELS_PER_INCH = 96
+
+const MM_PER_INCH = 25.4
+
+export const PRINT_FORMATS: Record<PrintFormatId, PrintFormat> = {
+  letter: {
+    id: 'letter',
+    label: 'Letter',
+    dimensions: '8.5 x 11 inches',
+    width: 8.5,
+    height: 11,
+    orientation: 'portrait',
+    bleed: 0.125,
+    safeZone: 0.25,
+  },
+  legal: {
+    id: 'legal',
+    label: 'Legal',
+    dimensions: '8.5 x 14 inches',
+    width: 8.5,
+    height: 14,
+    orientation: 'portrait',
+    bleed: 0.125,
+    safeZone: 0.25,
+  },
+  tabloid: {
+    id: 'tabloid',
+    label: 'Tabloid',
+    dimensions: '11 x 17 inches',
+    width: 11,
+    height: 17,
+    orientation: 'portrait',
+    bleed: 0.125,
+    safeZone: 0.25,
+  },
+  a4: {
+    id: 'a4',
+    label: 'A4',
+    dimensions: '210 x 297 mm',
+    width: 210 / MM_PER_INCH,
+    height: 297 / MM_PER_INCH,
+    orientation: 'portrait',
+    bleed: 3 / MM_PER_INCH,
+    safeZone: 5 / MM_PER_INCH,
+  },
+  a5: {
+    id: 'a5',
+    label: 'A5',
+    dimensions: '148 x 210 mm',
+    width: 148 / MM_PER_INCH,
+    height: 210 / MM_PER_INCH,
+    orientation: 'portrait',
+    bleed: 3 / MM_PER_INCH,
+    safeZone: 5 / MM_PER_INCH,
+  },
+  print_5x7: {
+    id: 'print_5x7',
+    label: '5x7',
+    dimensions: '5 x 7 inches',
+    width: 5,
+    height: 7,
+    orientation: 'portrait',
+    bleed: 0.125,
+    safeZone: 0.125,
+  },
+  print_9x12: {
+    id: 'print_9x12',
+    label: '9x12',
+    dimensions: '9 x 12 inches',
+    width: 9,
+    height: 12,
+    orientation: 'portrait',
+    bleed: 0.125,
+    safeZone: 0.25,
+  },
+  postcard_4x6: {
+    id: 'postcard_4x6',
+    label: '4x6 Postcard',
+    dimensions: '6 x 4 inches',
+    width: 6,
+    height: 4,
+    orientation: 'landscape',
+    bleed: 0.125,
+    safeZone: 0.125,
+  },
+  postcard_6x9: {
+    id: 'postcard_6x9',
+    label: '6x9 Postcard',
+    dimensions: '9 x 6 inches',
+    width: 9,
+    height: 6,
+    orientation: 'landscape',
+    bleed: 0.125,
+    safeZone: 0.25,
+  },
+  postcard_6x11: {
+    id: 'postcard_6x11',
+    label: '6x11 Jumbo Postcard',
+    dimensions: '11 x 6 inches',
+    width: 11,
+    height: 6,
+    orientation: 'landscape',
+    bleed: 0.125,
+    safeZone: 0.25,
+  },
+  door_hanger: {
+    id: 'door_hanger',
+    label: 'Door Hanger',
+    dimensions: '4.25 x 11 inches',
+    width: 4.25,
+    height: 11,
+    orientation: 'portrait',
+    bleed: 0.125,
+    safeZone: 0.25,
+  },
+}
+
+export const DEFAULT_PRINT_FORMAT: PrintFormatId = 'letter'
+
+// Free-text sizes templates were saved with before the catalogue existed
+const LEGACY_SIZES: Record<string, PrintFormatId> = {
+  '8.5x11 inches': 'letter',
+  '8.5x14 inches': 'legal',
+  '11x17 inches': 'tabloid',
+  'A4': 'a4',
+  'A5': 'a5',
+  '5x7 inches': 'print_5x7',
+  '4x6 inches': 'postcard_4x6',
+  '6x9 inches': 'postcard_6x9',
+  '9x12 inches': 'print_9x12',
+}
+
+// Custom sizes must fit on a press sheet
+const MIN_CUSTOM_INCHES = 1
+const MAX_CUSTOM_INCHES = 48
+
+const CUSTOM_SIZE_PATTERN = /^custom:(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/
+
+export function isPrintFormatId(value: unknown): value is PrintFormatId {
+  return typeof value === 'string' && Object.hasOwn(PRINT_FORMATS, value)
+}
+
+export function customPrintSize(width: number, height: number): CustomPrintSize {
+  return `custom:${width}x${height}`
+}
+
+/**
+ * The format for a "custom:<width>x<height>" size, or null when it isn't one or is out of range
+ */
+export function parseCustomPrintSize(size: string | null | undefined): PrintFormat | null {
+  const match = size?.match(CUSTOM_SIZE_PATTERN)
+  if (!match) return null
+
+  const width = Number(match[1])
+  const height = Number(match[2])
+  const inRange = (inches: number) => inches >= MIN_CUSTOM_INCHES && inches <= MAX_CUSTOM_INCHES
+  if (!inRange(width) || !inRange(height)) return null
+
+  return {
+    id: customPrintSize(width, height),
+    label: 'Custom',
+    dimensions: `${width} x ${height} inches`,
+    width,
+    height,
+    orientation: width > height ? 'landscape' : 'portrait',
+    bleed: 0.125,
+    safeZone: Math.min(width, height) <= 4 ? 0.125 : 0.25,
+  }
+}
+
+/**
+ * Whether a template size names a catalogue format (by id or a legacy size) or a valid custom size
+ */
+export function isKnownPrintSize(size: string | null | undefined): boolean {
+  return isPrintFormatId(size) || (!!size && Object.hasOwn(LEGACY_SIZES, size)) || parseCustomPrintSize(size) !== null
+}
+
+/**
+ * The print format for a template's size, falling back to Letter for unknown sizes
+ */
+export function getPrintFormat(size: string | null | undefined): PrintFormat {
+  if (isPrintFormatId(size)) return PRINT_FORMATS[size]
+  if (size && Object.hasOwn(LEGACY_SIZES, size)) return PRINT_FORMATS[LEGACY_SIZES[size]]
+  return parseCustomPrintSize(size) ?? PRINT_FORMATS[DEFAULT_PRINT_FORMAT]
+}
+
+/**
+ * "8.5 x 11 inches (Letter)"
+ */
+export function describePrintFormat(format: PrintFormat): string {
+  return `${format.dimensions} (${format.label})`
+}
+
+/**
+ * Page size in CSS pixels, optionally including bleed on every side
+ */
+export function getPrintPixelSize(format: PrintFormat, { withBleed = false } = {}): { width: number; height: number } {
+  const extra = withBleed ? format.bleed * 2 : 0
+  return {
+    width: Math.round((format.width + extra) * CSS_PIXELS_PER_INCH),
+    height: Math.round((format.height + extra) * CSS_PIXELS_PER_INCH),
+  }
+}
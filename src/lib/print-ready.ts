@@ -0,0 +1,417 @@
+import type { Page } from 'puppeteer-core'
+import { formatHex, parseColor, toLab } from '@/lib/color'
+import { PrintFormat } from '@/lib/print-formats'
+
+/**
+ * Print-ready PDF export for commercial printers.
+ *
+ * Each page is laid out on a sheet larger than the trim size: the page's background is extended
+ * by the bleed on every side, and with crop marks on, a slug area around the bleed holds crop and
+ * registration marks. Content keeps its position relative to the trim.
+ *
+ * The PDF stays RGB; the printer's RIP converts it to CMYK. The print report flags colors a
+ * typical coated CMYK press can't reproduce, so they can be toned down before they print dull.
+ */
+
+export interface PrintReadyOptions {
+  // Inches added past the trim on every side
+  bleed: number
+  cropMarks: boolean
+}
+
+export interface LowResolutionImage {
+  src: string
+  // Pixels per inch at the size the image is printed
+  effectiveDpi: number
+  naturalWidth: number
+  naturalHeight: number
+}
+
+export interface OutOfGamutColor {
+  // #rrggbb
+  color: string
+  // How much more saturated it is than the press can print, in CIELAB chroma
+  excess: number
+  // Number of text, background, border and SVG paints using it
+  uses: number
+}
+
+export interface PrintReport {
+  lowResolutionImages: LowResolutionImage[]
+  // Web fonts that failed to load, so the PDF embeds a fallback font instead
+  failedFonts: string[]
+  // Colors outside the CMYK gamut, which print noticeably duller than on screen
+  outOfGamutColors: OutOfGamutColor[]
+}
+
+// Printers expect at least this resolution for photos
+export const MIN_PRINT_DPI = 300
+
+// Largest bleed we accept; printers ask for 0.125in (3mm) and occasionally 0.25in
+export const MAX_BLEED = 0.5
+
+// Space outside the bleed for crop and registration marks
+const MARK_SLUG = 0.375
+// Crop marks stop short of the bleed edge so they are never printed on the piece
+const MARK_GAP = 1 / 32
+// 0.25pt hairline, as printers expect
+const MARK_WEIGHT = 0.25 / 72
+const REGISTRATION_MARK_SIZE = 0.2
+
+// Approximate coated CMYK gamut (GRACoL 2006) in CIELAB: the lightness of paper and of the
+// darkest black, and the most saturated printable color of each process and overprint color.
+// At any hue the gamut runs from paper white through the cusp to black.
+const PAPER_WHITE_LIGHTNESS = 95
+const PRINT_BLACK_LIGHTNESS = 16
+const PRINT_GAMUT_CUSPS = [
+  { name: 'red', l: 47, a: 68, b: 48 },
+  { name: 'yellow', l: 89, a: -5, b: 93 },
+  { name: 'green', l: 50, a: -65, b: 27 },
+  { name: 'cyan', l: 55, a: -37, b: -50 },
+  { name: 'blue', l: 24, a: 22, b: -46 },
+  { name: 'magenta', l: 48, a: 74, b: -3 },
+]
+  .map(({ l, a, b }) => ({ l, chroma: Math.hypot(a, b), hue: hueAngle(a, b) }))
+  .sort((x, y) => x.hue - y.hue)
+// Smaller shifts are hard to notice on press, and the gamut above is only an approximation
+const GAMUT_TOLERANCE = 10
+
+/**
+ * Options for a print-ready export, using the format's bleed unless a valid one is given
+ */
+export function resolvePrintReadyOptions(
+  format: PrintFormat,
+  { bleed, cropMarks }: { bleed?: unknown; cropMarks?: unknown }
+): PrintReadyOptions {
+  const validBleed = typeof bleed === 'number' && Number.isFinite(bleed) && bleed >= 0 && bleed <= MAX_BLEED
+  return {
+    bleed: validBleed ? bleed : format.bleed,
+    cropMarks: cropMarks !== false,
+  }
+}
+
+/**
+ * Size of one PDF page in inches: the trim, the bleed and, with crop marks, the slug
+ */
+export function getPrintSheetSize(format: PrintFormat, options: PrintReadyOptions): { width: number; height: number } {
+  const margin = options.bleed + (options.cropMarks ? MARK_SLUG : 0)
+  return {
+    width: format.width + margin * 2,
+    height: format.height + margin * 2,
+  }
+}
+
+/**
+ * CSS injected into the document before it loads, in place of the regular PDF styles
+ */
+export function getPrintReadyCss(format: PrintFormat, options: PrintReadyOptions): string {
+  const sheet = getPrintSheetSize(format, options)
+  return `
+      <style>
+        @page {
+          size: ${sheet.width}in ${sheet.height}in;
+          margin: 0;
+        }
+        html, body {
+          margin: 0;
+          padding: 0;
+        }
+        :root {
+          /* Lets templates pull full-bleed elements past the trim: margin: calc(-1 * var(--print-bleed)) */
+          --print-bleed: ${options.bleed}in;
+        }
+        .page, [data-page] {
+          width: ${format.width}in;
+          height: ${format.height}in;
+          overflow: hidden;
+          box-sizing: border-box;
+        }
+      </style>
+    `
+}
+
+// Keeps the report header well under server header size limits
+const MAX_REPORTED_IMAGES = 20
+const MAX_REPORTED_COLORS = 20
+const MAX_REPORTED_SRC_LENGTH = 200
+
+/**
+ * The print report as a response header value (X-Print-Report), trimmed to a bounded size
+ */
+export function encodePrintReport(report: PrintReport): string {
+  return encodeURIComponent(JSON.stringify({
+    lowResolutionImages: report.lowResolutionImages.slice(0, MAX_REPORTED_IMAGES).map((image) => ({
+      ...image,
+      src: image.src.startsWith('data:') ? 'Embedded image' : image.src.slice(0, MAX_REPORTED_SRC_LENGTH),
+    })),
+    failedFonts: report.failedFonts,
+    outOfGamutColors: report.outOfGamutColors.slice(0, MAX_REPORTED_COLORS),
+  }))
+}
+
+/**
+ * Reads the X-Print-Report header of a print-ready PDF response
+ */
+export function decodePrintReport(header: string | null): PrintReport | null {
+  if (!header) return null
+  try {
+    return JSON.parse(decodeURIComponent(header)) as PrintReport
+  } catch {
+    return null
+  }
+}
+
+function hueAngle(a: number, b: number): number {
+  const degrees = (Math.atan2(b, a) * 180) / Math.PI
+  return degrees < 0 ? degrees + 360 : degrees
+}
+
+/**
+ * How far a color's chroma exceeds what the press can print at its hue and lightness,
+ * or 0 when it is printable
+ */
+export function printGamutExcess(color: string): number {
+  const rgba = parseColor(color)
+  if (!rgba) return 0
+
+  const [l, a, b] = toLab(rgba)
+  const chroma = Math.hypot(a, b)
+  const hue = hueAngle(a, b)
+
+  // The cusp at this hue, interpolated between its neighbours
+  const next = PRINT_GAMUT_CUSPS.findIndex((cusp) => cusp.hue >= hue)
+  const upper = PRINT_GAMUT_CUSPS[next === -1 ? 0 : next]
+  const lower = PRINT_GAMUT_CUSPS[(next === -1 ? PRINT_GAMUT_CUSPS.length : next) - 1] ?? PRINT_GAMUT_CUSPS[PRINT_GAMUT_CUSPS.length - 1]
+  const span = (upper.hue - lower.hue + 360) % 360 || 360
+  const t = ((hue - lower.hue + 360) % 360) / span
+  const cuspLightness = lower.l + (upper.l - lower.l) * t
+  const cuspChroma = lower.chroma + (upper.chroma - lower.chroma) * t
+
+  const maxChroma = l >= cuspLightness
+    ? (cuspChroma * (PAPER_WHITE_LIGHTNESS - l)) / (PAPER_WHITE_LIGHTNESS - cuspLightness)
+    : (cuspChroma * (l - PRINT_BLACK_LIGHTNESS)) / (cuspLightness - PRINT_BLACK_LIGHTNESS)
+  return Math.max(0, chroma - Math.max(0, maxChroma))
+}
+
+/**
+ * Finds images printed below MIN_PRINT_DPI, web fonts that failed to load and colors outside
+ * the CMYK gamut. Run after the page has loaded and before preparePrintReadyPage.
+ */
+export async function collectPrintReport(page: Page): Promise<PrintReport> {
+  const { paints, ...report } = await page.evaluate(async (minDpi: number) => {
+    const CSS_PIXELS_PER_INCH = 96
+
+    // Pixels per inch for an image drawn into a box, following how the box scales it
+    const effectiveDpi = (
+      naturalWidth: number,
+      naturalHeight: number,
+      boxWidth: number,
+      boxHeight: number,
+      fit: string
+    ) => {
+      const dpiX = (naturalWidth * CSS_PIXELS_PER_INCH) / boxWidth
+      const dpiY = (naturalHeight * CSS_PIXELS_PER_INCH) / boxHeight
+      // contain scales by the tighter axis, so the image is drawn at the higher density
+      return fit === 'contain' || fit === 'scale-down' ? Math.max(dpiX, dpiY) : Math.min(dpiX, dpiY)
+    }
+
+    const loadImage = (src: string) =>
+      new Promise<HTMLImageElement | null>((resolve) => {
+        const img = new Image()
+        img.onload = () => resolve(img)
+        img.onerror = () => resolve(null)
+        img.src = src
+      })
+
+    const found = new Map<string, { src: string; effectiveDpi: number; naturalWidth: number; naturalHeight: number }>()
+    const record = (src: string, dpi: number, naturalWidth: number, naturalHeight: number) => {
+      if (dpi >= minDpi) return
+      const existing = found.get(src)
+      if (existing && existing.effectiveDpi <= dpi) return
+      found.set(src, { src, effectiveDpi: Math.round(dpi), naturalWidth, naturalHeight })
+    }
+
+    for (const img of Array.from(document.images)) {
+      const rect = img.getBoundingClientRect()
+      if (!img.naturalWidth || !rect.width || !rect.height) continue
+      const fit = getComputedStyle(img).objectFit
+      record(img.currentSrc || img.src, effectiveDpi(img.naturalWidth, img.naturalHeight, rect.width, rect.height, fit), img.naturalWidth, img.naturalHeight)
+    }
+
+    for (const el of Array.from(document.querySelectorAll<HTMLElement>('*'))) {
+      const style = getComputedStyle(el)
+      const url = style.backgroundImage.match(/url\(["']?([^"')]+)["']?\)/)
+      if (!url) continue
+      const rect = el.getBoundingClientRect()
+      if (!rect.width || !rect.height) continue
+      const img = await loadImage(url[1])
+      if (!img?.naturalWidth) continue
+      const size = style.backgroundSize
+      // An auto-sized background is drawn at one image pixel per CSS pixel
+      const dpi = size === 'auto' || size === 'auto auto'
+        ? CSS_PIXELS_PER_INCH
+        : effectiveDpi(img.naturalWidth, img.naturalHeight, rect.width, rect.height, size)
+      record(url[1], dpi, img.naturalWidth, img.naturalHeight)
+    }
+
+    const failedFonts = new Set<string>()
+    document.fonts.forEach((font) => {
+      if (font.status === 'error') failedFonts.add(font.family.replace(/^["']|["']$/g, ''))
+    })
+
+    // Computed colors of everything visible that paints text, a background, a border or an SVG shape
+    const paints = new Map<string, number>()
+    const addPaint = (color: string) => paints.set(color, (paints.get(color) ?? 0) + 1)
+    for (const el of Array.from(document.querySelectorAll<Element>('body *'))) {
+      const rect = el.getBoundingClientRect()
+      if (!rect.width || !rect.height) continue
+      const style = getComputedStyle(el)
+      if (style.visibility === 'hidden') continue
+
+      const hasText = Array.from(el.childNodes).some((node) => node.nodeType === Node.TEXT_NODE && node.textContent?.trim())
+      if (hasText) addPaint(style.color)
+      addPaint(style.backgroundColor)
+      for (const side of ['Top', 'Right', 'Bottom', 'Left'] as const) {
+        if (style[`border${side}Style`] !== 'none' && parseFloat(style[`border${side}Width`]) > 0) {
+          addPaint(style[`border${side}Color`])
+        }
+      }
+      if (el instanceof SVGElement) {
+        addPaint(style.fill)
+        addPaint(style.stroke)
+      }
+    }
+
+    return {
+      lowResolutionImages: Array.from(found.values()).sort((a, b) => a.effectiveDpi - b.effectiveDpi),
+      failedFonts: Array.from(failedFonts),
+      paints: Array.from(paints.entries()),
+    }
+  }, MIN_PRINT_DPI)
+
+  const outOfGamut = new Map<string, OutOfGamutColor>()
+  for (const [paint, uses] of paints) {
+    const rgba = parseColor(paint)
+    // none, gradients and fully transparent paints
+    if (!rgba || rgba.a === 0) continue
+    const excess = printGamutExcess(paint)
+    if (excess <= GAMUT_TOLERANCE) continue
+
+    const color = formatHex(rgba)
+    const existing = outOfGamut.get(color)
+    outOfGamut.set(color, { color, excess: Math.round(excess), uses: (existing?.uses ?? 0) + uses })
+  }
+
+  return {
+    ...report,
+    outOfGamutColors: Array.from(outOfGamut.values()).sort((a, b) => b.excess - a.excess),
+  }
+}
+
+/**
+ * Lays every page out on its own sheet with bleed and, optionally, crop and registration marks.
+ * Pages are .page or [data-page] elements; a document without them is treated as one page.
+ */
+export async function preparePrintReadyPage(page: Page, format: PrintFormat, options: PrintReadyOptions): Promise<void> {
+  const sheet = getPrintSheetSize(format, options)
+
+  await page.evaluate(
+    (trim: { width: number; height: number }, sheetSize: { width: number; height: number }, bleed: number, cropMarks: boolean, marks: { slug: number; gap: number; weight: number; registration: number }) => {
+      const slug = cropMarks ? marks.slug : 0
+
+      let pages = Array.from(document.querySelectorAll<HTMLElement>('.page, [data-page]'))
+      if (pages.length === 0) {
+        // The whole document is one page; move its background onto the page so it bleeds
+        const wrapper = document.createElement('div')
+        const bodyStyle = getComputedStyle(document.body)
+        const transparent = bodyStyle.backgroundColor === 'rgba(0, 0, 0, 0)' && bodyStyle.backgroundImage === 'none'
+        wrapper.style.background = (transparent ? getComputedStyle(document.documentElement) : bodyStyle).background
+        wrapper.style.width = `${trim.width}in`
+        wrapper.style.height = `${trim.height}in`
+        wrapper.style.overflow = 'hidden'
+        while (document.body.firstChild) wrapper.appendChild(document.body.firstChild)
+        document.body.appendChild(wrapper)
+        pages = [wrapper]
+      }
+
+      // The slug must stay white, so nothing may paint the canvas
+      document.documentElement.style.background = 'white'
+      document.body.style.background = 'white'
+
+      const inches = (value: number) => `${value}in`
+
+      const line = (sheetEl: HTMLElement, left: number, top: number, width: number, height: number) => {
+        const mark = document.createElement('div')
+        mark.style.cssText = `position:absolute;left:${inches(left)};top:${inches(top)};width:${inches(width)};height:${inches(height)};background:#000;`
+        sheetEl.appendChild(mark)
+      }
+
+      const registrationMark = (sheetEl: HTMLElement, centerX: number, centerY: number) => {
+        const size = marks.registration
+        const target = document.createElement('div')
+        target.style.cssText = `position:absolute;left:${inches(centerX - size / 2)};top:${inches(centerY - size / 2)};width:${inches(size)};height:${inches(size)};`
+        const circle = document.createElement('div')
+        circle.style.cssText = `position:absolute;inset:${inches(size / 4)};border:${inches(marks.weight)} solid #000;border-radius:50%;`
+        target.appendChild(circle)
+        sheetEl.appendChild(target)
+        line(target, 0, size / 2 - marks.weight / 2, size, marks.weight)
+        line(target, size / 2 - marks.weight / 2, 0, marks.weight, size)
+      }
+
+      const sheets = pages.map((pageEl) => {
+        const sheetEl = document.createElement('div')
+        sheetEl.style.cssText = `position:relative;width:${inches(sheetSize.width)};height:${inches(sheetSize.height)};overflow:hidden;break-after:page;background:white;`
+        pageEl.replaceWith(sheetEl)
+        sheetEl.appendChild(pageEl)
+
+        // Grow the page by the bleed and pad it by the same amount: its background fills the
+        // bleed while its content stays where it was relative to the trim
+        const style = getComputedStyle(pageEl)
+        const padding = (value: string) => `calc(${value} + ${inches(bleed)})`
+        pageEl.style.position = 'absolute'
+        pageEl.style.left = inches(slug)
+        pageEl.style.top = inches(slug)
+        pageEl.style.margin = '0'
+        pageEl.style.boxSizing = 'border-box'
+        pageEl.style.width = inches(trim.width + bleed * 2)
+        pageEl.style.height = inches(trim.height + bleed * 2)
+        pageEl.style.padding = [style.paddingTop, style.paddingRight, style.paddingBottom, style.paddingLeft].map(padding).join(' ')
+
+        if (!cropMarks) return sheetEl
+
+        const trimLeft = slug + bleed
+        const trimTop = slug + bleed
+        const trimRight = trimLeft + trim.width
+        const trimBottom = trimTop + trim.height
+        const length = slug - marks.gap
+        const half = marks.weight / 2
+
+        // Crop marks extend the trim lines into the slug at each corner
+        for (const x of [trimLeft, trimRight]) {
+          line(sheetEl, x - half, 0, marks.weight, length)
+          line(sheetEl, x - half, sheetSize.height - length, marks.weight, length)
+        }
+        for (const y of [trimTop, trimBottom]) {
+          line(sheetEl, 0, y - half, length, marks.weight)
+          line(sheetEl, sheetSize.width - length, y - half, length, marks.weight)
+        }
+
+        // Registration marks centered in the slug on each side
+        registrationMark(sheetEl, sheetSize.width / 2, slug / 2)
+        registrationMark(sheetEl, sheetSize.width / 2, sheetSize.height - slug / 2)
+        registrationMark(sheetEl, slug / 2, sheetSize.height / 2)
+        registrationMark(sheetEl, sheetSize.width - slug / 2, sheetSize.height / 2)
+        return sheetEl
+      })
+
+      // Keeps the last sheet from adding a blank page
+      sheets[sheets.length - 1].style.breakAfter = 'auto'
+      document.body.style.width = inches(sheetSize.width)
+    },
+    { width: format.width, height: format.height },
+    sheet,
+    options.bleed,
+    options.cropMarks,
+    { slug: MARK_SLUG, gap: MARK_GAP, weight: MARK_WEIGHT, registration: REGISTRATION_MARK_SIZE }
+  )
+}
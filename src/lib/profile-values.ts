@@ -0,0 +1,28 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { TemplateProfile } from '@/lib/template-renderer'
+
+/**
+ * Loads a user's profile fields and values keyed by field_key, for rendering profile
+ * placeholders. Pass a service client when the reader may not be the profile's owner
+ * (e.g. public previews), since profile values are only readable by their owner.
+ */
+export async function getTemplateProfile(supabase: SupabaseClient, userId: string): Promise<TemplateProfile> {
+  const [{ data: fields, error: fieldsError }, { data: values, error: valuesError }] = await Promise.all([
+    supabase.from('profile_fields').select('id, field_key, field_type'),
+    supabase.from('profile_values').select('field_id, value').eq('user_id', userId),
+  ])
+
+  if (fieldsError) throw fieldsError
+  if (valuesError) throw valuesError
+
+  const valuesByFieldId = new Map((values ?? []).map((v) => [v.field_id as string, (v.value as string | null) || '']))
+  const valuesByKey: Record<string, string> = {}
+  fields?.forEach((field) => {
+    valuesByKey[field.field_key] = valuesByFieldId.get(field.id) ?? ''
+  })
+
+  return {
+    fields: (fields ?? []).map(({ field_key, field_type }) => ({ field_key, field_type })),
+    values: valuesByKey,
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Shrinks template HTML before it is pasted into an AI prompt. Large templates with
+ * inline CSS and base64 images easily exceed chat paste limits.
+ */
+
+export interface EmbeddedAsset {
+  // Short token left in the HTML in place of the data URI
+  ref: string
+  mimeType: string
+  bytes: number
+  dataUri: string
+}
+
+export interface CompactionResult {
+  html: string
+  embeddedAssets: EmbeddedAsset[]
+  hoistedStyles: number
+}
+
+// Rough heuristic: ~4 characters per token for English text and markup
+const CHARS_PER_TOKEN = 4
+
+// Inline styles shorter than this cost about as much as the class that would replace them
+const MIN_HOISTED_STYLE_LENGTH = 24
+
+const BASE64_DATA_URI = /data:([\w.+-]+\/[\w.+-]+)?((?:;[\w.+-]+=[\w.+-]+)*);base64,[A-Za-z0-9+/=\s]+/g
+
+// Blocks whose whitespace is significant
+const PRESERVED_BLOCK = /(<(pre|textarea|script)\b[^>]*>[\s\S]*?<\/\2>)/gi
+
+const START_TAG = /<[a-zA-Z][\w-]*\s[^<>]*>/g
+const STYLE_ATTR = /\sstyle\s*=\s*("([^"]*)"|'([^']*)')/i
+const CLASS_ATTR = /\sclass\s*=\s*("([^"]*)"|'([^']*)')/i
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function embeddedAssetRef(index: number): string {
+  return `__EMBEDDED_ASSET_${index}__`
+}
+
+// Identical data URIs share one reference
+function extractDataUris(html: string): { html: string; assets: EmbeddedAsset[] } {
+  const byUri = new Map<string, EmbeddedAsset>()
+
+  const result = html.replace(BASE64_DATA_URI, (match, mimeType: string | undefined) => {
+    const dataUri = match.replace(/\s+/g, '')
+    let asset = byUri.get(dataUri)
+    if (!asset) {
+      const base64Length = dataUri.length - dataUri.indexOf(',') - 1
+      asset = {
+        ref: embeddedAssetRef(byUri.size + 1),
+        mimeType: mimeType || 'text/plain',
+        bytes: Math.floor((base64Length * 3) / 4),
+        dataUri,
+      }
+      byUri.set(dataUri, asset)
+    }
+    return asset.ref
+  })
+
+  return { html: result, assets: Array.from(byUri.values()) }
+}
+
+// Keeps IE conditional comments, which carry markup
+function stripComments(html: string): string {
+  return html
+    .replace(/<!--(?!\[if)[\s\S]*?-->/g, '')
+    .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (_, open, css: string, close) =>
+      open + css.replace(/\/\*[\s\S]*?\*\//g, '') + close
+    )
+}
+
+// A single space is kept so inline content does not run together
+function collapseWhitespace(html: string): string {
+  return html
+    .split(PRESERVED_BLOCK)
+    .map((part, i) => {
+      // split() with two capture groups yields [text, block, tagName, text, ...]
+      if (i % 3 === 1) return part
+      if (i % 3 === 2) return ''
+      return part.replace(/\s+/g, ' ')
+    })
+    .join('')
+    .trim()
+}
+
+function normalizeStyle(style: string): string {
+  return style.trim().replace(/\s+/g, ' ').replace(/;\s*$/, '')
+}
+
+// Inline styles beat stylesheet rules, so hoisted declarations are marked !important to keep winning
+function toImportantDeclarations(style: string): string {
+  return style
+    .split(';')
+    .map((declaration) => declaration.trim())
+    .filter(Boolean)
+    .map((declaration) => (/!important$/i.test(declaration) ? declaration : `${declaration} !important`))
+    .join(';')
+}
+
+function hoistInlineStyles(html: string): { html: string; count: number } {
+  const counts = new Map<string, number>()
+  for (const tag of html.match(START_TAG) ?? []) {
+    const match = tag.match(STYLE_ATTR)
+    if (!match) continue
+    const style = normalizeStyle(match[2] ?? match[3] ?? '')
+    if (style.length >= MIN_HOISTED_STYLE_LENGTH) counts.set(style, (counts.get(style) ?? 0) + 1)
+  }
+
+  const classNames = new Map<string, string>()
+  for (const [style, count] of counts) {
+    if (count > 1) classNames.set(style, `_c${classNames.size + 1}`)
+  }
+  if (classNames.size === 0) return { html, count: 0 }
+
+  const result = html.replace(START_TAG, (tag) => {
+    const styleMatch = tag.match(STYLE_ATTR)
+    if (!styleMatch) return tag
+    const className = classNames.get(normalizeStyle(styleMatch[2] ?? styleMatch[3] ?? ''))
+    if (!className) return tag
+
+    const withoutStyle = tag.replace(STYLE_ATTR, '')
+    const classMatch = withoutStyle.match(CLASS_ATTR)
+    if (classMatch) {
+      const existing = (classMatch[2] ?? classMatch[3] ?? '').trim()
+      return withoutStyle.replace(CLASS_ATTR, ` class="${existing ? `${existing} ` : ''}${className}"`)
+    }
+    return withoutStyle.replace(/^(<[a-zA-Z][\w-]*)/, `$1 class="${className}"`)
+  })
+
+  const rules = Array.from(classNames, ([style, className]) => `.${className}{${toImportantDeclarations(style)}}`).join('')
+  const styleBlock = `<style>${rules}</style>`
+  const withStyles = /<\/head>/i.test(result)
+    ? result.replace(/<\/head>/i, `${styleBlock}</head>`)
+    : styleBlock + result
+
+  return { html: withStyles, count: classNames.size }
+}
+
+/**
+ * Compacts template HTML for a prompt: replaces base64 data URIs with short references,
+ * strips comments, collapses whitespace and hoists repeated inline styles into classes.
+ */
+export function compactHtml(html: string): CompactionResult {
+  const extracted = extractDataUris(html)
+  const hoisted = hoistInlineStyles(collapseWhitespace(stripComments(extracted.html)))
+
+  return {
+    html: hoisted.html,
+    embeddedAssets: extracted.assets,
+    hoistedStyles: hoisted.count,
+  }
+}
+
+/**
+ * Puts the original data URIs back into HTML returned by the assistant
+ */
+export function restoreEmbeddedAssets(html: string, assets: EmbeddedAsset[]): string {
+  return assets.reduce((result, asset) => result.split(asset.ref).join(asset.dataUri), html)
+}
@@ -1,4 +1,13 @@
 import { TemplateField } from '@/types/database'
+import {
+  PromptLayout,
+  PromptSectionId,
+  DEFAULT_PROMPT_LAYOUT,
+  PROMPT_SECTIONS,
+  interpolatePromptVariables,
+} from '@/lib/prompt-layout'
+import { EmbeddedAsset } from '@/lib/prompt-compaction'
+import { parseTemplate, usesTemplateLogic, TemplateSyntaxError } from '@/lib/template-language'
 
 interface ProfileField {
   id: string
@@ -8,7 +17,7 @@ interface ProfileField {
   category?: string
 }
 
-interface PromptInput {
+export interface PromptInput {
   htmlContent: string
   templateName: string
   templateSize: string
@@ -18,6 +27,8 @@ interface PromptInput {
   profileValues: Record<string, string>
   systemPrompt?: string
   templatePrompt?: string
+  // Data URIs replaced by references when the HTML was compacted
+  embeddedAssets?: EmbeddedAsset[]
 }
 
 const PROFILE_CATEGORY_LABELS: Record<string, string> = {
@@ -44,45 +55,76 @@ function getOptimizedImageUrl(url: string): string {
   return url
 }
 
-export function generateClaudePrompt(input: PromptInput): string {
-  const {
-    htmlContent,
-    templateName,
-    templateSize,
-    templateFields,
-    templateFieldValues,
-    profileFields,
-    profileValues,
-    systemPrompt,
-    templatePrompt,
-  } = input
-
-  // Collect image URLs from template fields
-  const imageUrls: Array<{ label: string; url: string }> = []
+export type PromptTarget = 'claude-artifact' | 'chatgpt-canvas' | 'plain' | 'api-messages'
 
-  // Build prompt
-  let prompt = ''
+export interface PromptTargetInfo {
+  label: string
+  description: string
+  // Chat app opened after copying, if any
+  appUrl: string | null
+}
 
-  // Add system prompt if provided
-  if (systemPrompt && systemPrompt.trim()) {
-    prompt += `${systemPrompt.trim()}
+export const PROMPT_TARGETS: Record<PromptTarget, PromptTargetInfo> = {
+  'claude-artifact': {
+    label: 'Claude',
+    description: 'Renders the design as a previewable HTML artifact',
+    appUrl: 'https://claude.ai/new',
+  },
+  'chatgpt-canvas': {
+    label: 'ChatGPT',
+    description: 'Writes the design into a canvas you can preview',
+    appUrl: 'https://chatgpt.com/',
+  },
+  plain: {
+    label: 'Plain',
+    description: 'Tool-agnostic instructions for any chat assistant',
+    appUrl: null,
+  },
+  'api-messages': {
+    label: 'API (JSON)',
+    description: 'A messages[] payload for chat completion APIs',
+    appUrl: null,
+  },
+}
 
----
+export const DEFAULT_PROMPT_TARGET: PromptTarget = 'claude-artifact'
 
-`
-  }
+export function isPromptTarget(value: unknown): value is PromptTarget {
+  return typeof value === 'string' && value in PROMPT_TARGETS
+}
 
-  // Add template-specific prompt if provided
-  if (templatePrompt && templatePrompt.trim()) {
-    prompt += `## Template-Specific Instructions
-${templatePrompt.trim()}
+type ScaffoldingSectionId = 'output_format' | 'print_rules' | 'instructions' | 'output_requirements'
 
----
+const PRINT_RULES_TEXT = `## Print Size Requirements
+**This template is designed for: {{template_size}}**
 
-`
-  }
+You MUST ensure the output:
+- Fits exactly within {{template_size}} when printed
+- Does NOT exceed the boundaries of {{template_size}}
+- Maintains proper margins for printing (at least 0.25" / 6mm on all sides)
+- All content, images, and text must be contained within the printable area
+- Do NOT add content that would cause the document to overflow onto additional pages`
+
+const INSTRUCTIONS_TEXT = `## Instructions
+You are helping customize an HTML marketing template called "{{template_name}}" for print size: {{template_size}}. Please modify the HTML below by:
+1. Replacing placeholder variables (like {{variable_name}}) with the provided information
+2. Applying the brand accent color to appropriate accent elements (buttons, highlights, borders)
+3. Inserting images at appropriate locations using the provided URLs
+4. Maintaining the exact layout and structure of the template
+5. **IMPORTANT: Ensuring ALL content fits within {{template_size}} - do not exceed this size**`
 
-  prompt += `# Template Customization Request
+const PLAIN_OUTPUT_REQUIREMENTS_TEXT = `## Output Requirements
+- Respond with ONLY the complete, modified HTML document starting with <!DOCTYPE html>, in a single \`\`\`html code block
+- Do not add any explanation before or after the code
+- Preserve all existing styles and structure
+- Keep the same responsive layout
+- Replace all {{placeholder}} variables with the appropriate values from above
+- **CRITICAL: Output MUST fit within {{template_size}} when printed - do not exceed this print size**`
+
+// Default scaffolding per target; admins can override these from the prompt layout
+const DEFAULT_SECTION_TEXT: Record<PromptTarget, Record<ScaffoldingSectionId, string>> = {
+  'claude-artifact': {
+    output_format: `# Template Customization Request
 
 Create an HTML artifact with the customized template that I can preview directly in this chat.
 
@@ -91,34 +133,69 @@ Create an HTML artifact with the customized template that I can preview directly
 - The artifact MUST be visible and renderable in the Claude UI
 - I need to see a live preview of the HTML, not just code
 - Use artifact type "text/html" so it renders as a webpage preview
-- Do NOT just paste HTML code in the chat message
+- Do NOT just paste HTML code in the chat message`,
+    print_rules: PRINT_RULES_TEXT,
+    instructions: INSTRUCTIONS_TEXT,
+    output_requirements: `## Output Requirements
+- **CREATE A PREVIEWABLE HTML ARTIFACT** - Use the artifact feature with type "text/html"
+- The artifact MUST render as a visual preview in the Claude UI (not just code)
+- The artifact should contain the complete, modified HTML document starting with <!DOCTYPE html>
+- Preserve all existing styles and structure
+- Keep the same responsive layout
+- Replace all {{placeholder}} variables with the appropriate values from above
+- **CRITICAL: Output MUST fit within {{template_size}} when printed - do not exceed this print size**
 
-## Print Size Requirements
-**This template is designed for: ${templateSize}**
+⚠️ IMPORTANT: I need to SEE the rendered HTML preview in the artifact panel, not read code. Make sure the artifact is previewable.`,
+  },
+  'chatgpt-canvas': {
+    output_format: `# Template Customization Request
 
-You MUST ensure the output:
-- Fits exactly within ${templateSize} when printed
-- Does NOT exceed the boundaries of ${templateSize}
-- Maintains proper margins for printing (at least 0.25" / 6mm on all sides)
-- All content, images, and text must be contained within the printable area
-- Do NOT add content that would cause the document to overflow onto additional pages
+Write the customized template into a canvas so I can preview it.
 
-## Instructions
-You are helping customize an HTML marketing template called "${templateName}" for print size: ${templateSize}. Please modify the HTML below by:
-1. Replacing placeholder variables (like {{variable_name}}) with the provided information
-2. Applying the brand accent color to appropriate accent elements (buttons, highlights, borders)
-3. Inserting images at appropriate locations using the provided URLs
-4. Maintaining the exact layout and structure of the template
-5. **IMPORTANT: Ensuring ALL content fits within ${templateSize} - do not exceed this size**
+## CRITICAL: Output Format
+**Use canvas** for the result:
+- Open a new code canvas with the language set to HTML
+- Put the complete HTML document in the canvas, not in the chat message
+- I will use the canvas Preview button to see the rendered page`,
+    print_rules: PRINT_RULES_TEXT,
+    instructions: INSTRUCTIONS_TEXT,
+    output_requirements: `## Output Requirements
+- **WRITE THE RESULT TO AN HTML CANVAS** - one canvas containing the whole document
+- The canvas should contain the complete, modified HTML document starting with <!DOCTYPE html>
+- Preserve all existing styles and structure
+- Keep the same responsive layout
+- Replace all {{placeholder}} variables with the appropriate values from above
+- **CRITICAL: Output MUST fit within {{template_size}} when printed - do not exceed this print size**`,
+  },
+  plain: {
+    output_format: '# Template Customization Request',
+    print_rules: PRINT_RULES_TEXT,
+    instructions: INSTRUCTIONS_TEXT,
+    output_requirements: PLAIN_OUTPUT_REQUIREMENTS_TEXT,
+  },
+  'api-messages': {
+    output_format: '# Template Customization Request',
+    print_rules: PRINT_RULES_TEXT,
+    instructions: INSTRUCTIONS_TEXT,
+    output_requirements: PLAIN_OUTPUT_REQUIREMENTS_TEXT,
+  },
+}
 
-`
+/**
+ * Default text of an overridable section for a target (shown in the admin layout editor)
+ */
+export function getDefaultSectionText(id: PromptSectionId, target: PromptTarget = DEFAULT_PROMPT_TARGET): string | null {
+  return PROMPT_SECTIONS[id].overridable ? DEFAULT_SECTION_TEXT[target][id as ScaffoldingSectionId] : null
+}
 
-  // Add user profile information (grouped by category)
+// User profile information (grouped by category); image fields are listed in the images section
+function buildProfileSection(input: PromptInput): string {
+  const { profileFields, profileValues } = input
   const profileByCategory: Record<string, Array<{ label: string; value: string; type: string }>> = {}
 
   profileFields.forEach((field) => {
     const value = profileValues[field.field_key]
-    if (value && value.trim()) {
+    if (value && value.trim() && field.field_type !== 'image') {
       const cat = field.category || 'general'
       if (!profileByCategory[cat]) profileByCategory[cat] = []
       profileByCategory[cat].push({
@@ -129,79 +206,194 @@ You are helping customize an HTML marketing template called "${templateName}" fo
     }
   })
 
-  const hasProfileData = Object.keys(profileByCategory).length > 0
+  if (Object.keys(profileByCategory).length === 0) return ''
 
-  if (hasProfileData) {
-    prompt += `## User Profile Information
-`
-    for (const cat of PROFILE_CATEGORY_ORDER) {
-      if (profileByCategory[cat] && profileByCategory[cat].length > 0) {
-        prompt += `\n### ${PROFILE_CATEGORY_LABELS[cat] || cat}\n`
-
-        profileByCategory[cat].forEach((field) => {
-          if (field.type === 'image') {
-            imageUrls.push({ label: field.label, url: field.value })
-          } else if (field.type === 'color') {
-            prompt += `- ${field.label}: ${field.value} (apply to accent elements)\n`
-          } else {
-            prompt += `- ${field.label}: ${field.value}\n`
-          }
-        })
-      }
+  let prompt = `## User Profile Information\n`
+  for (const cat of PROFILE_CATEGORY_ORDER) {
+    if (profileByCategory[cat] && profileByCategory[cat].length > 0) {
+      prompt += `\n### ${PROFILE_CATEGORY_LABELS[cat] || cat}\n`
+
+      profileByCategory[cat].forEach((field) => {
+        if (field.type === 'color') {
+          prompt += `- ${field.label}: ${field.value} (apply to accent elements)\n`
+        } else {
+          prompt += `- ${field.label}: ${field.value}\n`
+        }
+      })
     }
   }
 
-  // Add template-specific field values
+  return prompt
+}
+
+// Template-specific field values (non-image)
+function buildFieldsSection(input: PromptInput): string {
+  const { templateFields, templateFieldValues } = input
+
   const filledTemplateFields = templateFields.filter((f) => {
     const val = templateFieldValues[f.field_key]
-    return val && val.trim()
+    return val && val.trim() && f.field_type !== 'image'
   })
 
-  if (filledTemplateFields.length > 0) {
-    prompt += `\n## Template-Specific Fields
-`
-    filledTemplateFields.forEach((field) => {
-      const value = templateFieldValues[field.field_key]
-      if (field.field_type === 'image') {
-        imageUrls.push({ label: field.label, url: value })
-      } else if (field.field_type === 'color') {
-        prompt += `- ${field.label}: ${value} (apply to relevant elements)\n`
-      } else {
-        prompt += `- ${field.label}: ${value}\n`
-      }
-    })
-  }
+  if (filledTemplateFields.length === 0) return ''
+
+  let prompt = `## Template-Specific Fields\n`
+  filledTemplateFields.forEach((field) => {
+    const value = templateFieldValues[field.field_key]
+    if (field.field_type === 'color') {
+      prompt += `- ${field.label}: ${value} (apply to relevant elements)\n`
+    } else {
+      prompt += `- ${field.label}: ${value}\n`
+    }
+  })
+
+  return prompt
+}
+
+// Images from profile and template fields, with optimized thumbnail URLs
+function buildImagesSection(input: PromptInput): string {
+  const imageUrls: Array<{ label: string; url: string }> = []
 
-  // Add images section with optimized thumbnail URLs
+  input.profileFields.forEach((field) => {
+    const value = input.profileValues[field.field_key]
+    if (field.field_type === 'image' && value && value.trim()) {
+      imageUrls.push({ label: field.label, url: value })
+    }
+  })
+  input.templateFields.forEach((field) => {
+    const value = input.templateFieldValues[field.field_key]
+    if (field.field_type === 'image' && value && value.trim()) {
+      imageUrls.push({ label: field.label, url: value })
+    }
+  })
+
+  const embeddedAssets = input.embeddedAssets ?? []
+  if (imageUrls.length === 0 && embeddedAssets.length === 0) return ''
+
+  let prompt = ''
   if (imageUrls.length > 0) {
-    prompt += `\n## Image URLs
+    prompt += `## Image URLs
 Use these image URLs directly in the HTML output. Insert them as \`<img src="URL">\` tags at the appropriate locations:
 `
     imageUrls.forEach((img) => {
-      const optimizedUrl = getOptimizedImageUrl(img.url)
-      prompt += `- ${img.label}: ${optimizedUrl}\n`
+      prompt += `- ${img.label}: ${getOptimizedImageUrl(img.url)}\n`
+    })
+  }
+
+  if (embeddedAssets.length > 0) {
+    prompt += `${prompt ? '\n' : ''}## Embedded Assets
+Inline images and fonts in the template were replaced with these references to save space. Keep every reference exactly as written; the original data is restored afterwards:
+`
+    embeddedAssets.forEach((asset) => {
+      prompt += `- ${asset.ref}: ${asset.mimeType} (${formatBytes(asset.bytes)})\n`
     })
   }
 
-  // Add HTML template
-  prompt += `
-## HTML Template Code
+  return prompt
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(Math.round(bytes / 1024), 1)} KB`
+}
+
+const TEMPLATE_SYNTAX_GUIDE = `## Template Syntax
+The template below uses placeholder logic. Resolve it while filling in the values, and leave none of it in the output:
+- \`{{field_key}}\` - replace with the field's value
+- \`{{profile.field_key}}\` / \`{{template.field_key}}\` - replace with that user profile or template field's value
+- \`{{field_key ?? "text"}}\` - use the field's value, or the quoted text when the field is empty
+- \`{{field_key | filter}}\` - format the value: \`currency\` ($1,250,000), \`upper\` (UPPERCASE), \`lower\` (lowercase), \`format_phone\` ((555) 123-4567)
+- \`{{#if field_key}}…{{else}}…{{/if}}\` - keep the first part when the field has a value, otherwise the \`{{else}}\` part (or nothing)
+- \`{{#each field_key}}…{{/each}}\` - repeat the content for each item of a list field (one item per line); \`{{this}}\` is the item and \`{{@index}}\` its position starting at 0`
+
+// Only templates using conditionals, loops, filters or fallbacks need the guide
+function needsSyntaxGuide(htmlContent: string): boolean {
+  try {
+    return usesTemplateLogic(parseTemplate(htmlContent))
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return false
+    throw error
+  }
+}
+
+function buildHtmlSection(htmlContent: string): string {
+  return `${needsSyntaxGuide(htmlContent) ? `${TEMPLATE_SYNTAX_GUIDE}\n\n` : ''}## HTML Template Code
 
 \`\`\`html
 ${htmlContent}
-\`\`\`
+\`\`\``
+}
 
-## Output Requirements
-- **CREATE A PREVIEWABLE HTML ARTIFACT** - Use the artifact feature with type "text/html"
-- The artifact MUST render as a visual preview in the Claude UI (not just code)
-- The artifact should contain the complete, modified HTML document starting with <!DOCTYPE html>
-- Preserve all existing styles and structure
-- Keep the same responsive layout
-- Replace all {{placeholder}} variables with the appropriate values from above
-- **CRITICAL: Output MUST fit within ${templateSize} when printed - do not exceed this print size**
+// Sections that carry user or template data; never overridden or interpolated
+const DATA_SECTION_BUILDERS: Partial<Record<PromptSectionId, (input: PromptInput) => string>> = {
+  profile: buildProfileSection,
+  fields: buildFieldsSection,
+  images: buildImagesSection,
+  html: (input) => buildHtmlSection(input.htmlContent),
+}
 
-⚠️ IMPORTANT: I need to SEE the rendered HTML preview in the artifact panel, not read code. Make sure the artifact is previewable.
-`
+// Sections that go into the system message for API payloads
+const SYSTEM_SECTIONS: PromptSectionId[] = ['system', 'template_instructions']
+
+function renderSection(
+  id: PromptSectionId,
+  override: string | null,
+  input: PromptInput,
+  target: PromptTarget
+): string {
+  const dataBuilder = DATA_SECTION_BUILDERS[id]
+  if (dataBuilder) return dataBuilder(input).trim()
+
+  let text: string
+  if (id === 'system') {
+    text = input.systemPrompt?.trim() || ''
+  } else if (id === 'template_instructions') {
+    text = input.templatePrompt?.trim() ? `## Template-Specific Instructions\n${input.templatePrompt.trim()}` : ''
+  } else {
+    text = override ?? DEFAULT_SECTION_TEXT[target][id as ScaffoldingSectionId]
+  }
 
-  return prompt
+  return interpolatePromptVariables(text, {
+    template_name: input.templateName,
+    template_size: input.templateSize,
+    target: PROMPT_TARGETS[target].label,
+  }).trim()
+}
+
+/**
+ * Builds the customization prompt in the format expected by the chosen target,
+ * with sections ordered, overridden or disabled by the admin-defined layout
+ */
+export function generatePrompt(
+  input: PromptInput,
+  target: PromptTarget = DEFAULT_PROMPT_TARGET,
+  layout: PromptLayout = DEFAULT_PROMPT_LAYOUT
+): string {
+  const sections = layout.sections
+    .filter((section) => section.enabled)
+    .map((section) => ({ id: section.id, text: renderSection(section.id, section.override, input, target) }))
+    .filter((section) => section.text)
+
+  // OpenAI-style chat payload: system prompt + template instructions go in the system message
+  if (target === 'api-messages') {
+    const system = sections.filter((s) => SYSTEM_SECTIONS.includes(s.id)).map((s) => s.text).join('\n\n---\n\n')
+    const user = sections.filter((s) => !SYSTEM_SECTIONS.includes(s.id)).map((s) => s.text).join('\n\n')
+
+    const messages = [
+      ...(system ? [{ role: 'system', content: system }] : []),
+      { role: 'user', content: user },
+    ]
+
+    return JSON.stringify({ messages }, null, 2)
+  }
+
+  // System prompt and template instructions are set apart from the request with a rule
+  return sections
+    .map((s) => (SYSTEM_SECTIONS.includes(s.id) ? `${s.text}\n\n---` : s.text))
+    .join('\n\n') + '\n'
+}
+
+export function generateClaudePrompt(input: PromptInput, layout?: PromptLayout): string {
+  return generatePrompt(input, 'claude-artifact', layout)
 }
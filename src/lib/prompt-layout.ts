@@ -0,0 +1,157 @@
+import { z } from 'zod'
+
+export type PromptSectionId =
+  | 'system'
+  | 'template_instructions'
+  | 'output_format'
+  | 'print_rules'
+  | 'instructions'
+  | 'profile'
+  | 'fields'
+  | 'images'
+  | 'html'
+  | 'output_requirements'
+
+export interface PromptSectionInfo {
+  label: string
+  description: string
+  // Fixed scaffolding text can be overridden; data sections are generated and can only be moved or disabled
+  overridable: boolean
+}
+
+export const PROMPT_SECTIONS: Record<PromptSectionId, PromptSectionInfo> = {
+  system: {
+    label: 'System Prompt',
+    description: "The template's assigned system prompt",
+    overridable: false,
+  },
+  template_instructions: {
+    label: 'Template Instructions',
+    description: "The template's own prompt instructions",
+    overridable: false,
+  },
+  output_format: {
+    label: 'Output Format',
+    description: 'Request header and how the assistant should present its output (varies per target)',
+    overridable: true,
+  },
+  print_rules: {
+    label: 'Print Rules',
+    description: 'Print size and margin requirements',
+    overridable: true,
+  },
+  instructions: {
+    label: 'Instructions',
+    description: 'The customization steps',
+    overridable: true,
+  },
+  profile: {
+    label: 'Profile',
+    description: "The user's profile information, grouped by category",
+    overridable: false,
+  },
+  fields: {
+    label: 'Template Fields',
+    description: 'Values entered for the template-specific fields',
+    overridable: false,
+  },
+  images: {
+    label: 'Images',
+    description: 'Image URLs from profile and template fields, plus embedded asset references when the HTML is compacted',
+    overridable: false,
+  },
+  html: {
+    label: 'HTML',
+    description: 'The template HTML code',
+    overridable: false,
+  },
+  output_requirements: {
+    label: 'Output Requirements',
+    description: 'Final checklist for the output (varies per target)',
+    overridable: true,
+  },
+}
+
+export interface PromptLayoutSection {
+  id: PromptSectionId
+  enabled: boolean
+  // Replaces the default text for overridable sections; null keeps the default
+  override: string | null
+}
+
+export interface PromptLayout {
+  sections: PromptLayoutSection[]
+  // Estimated prompt size above which users are warned it may not paste
+  tokenWarningThreshold: number
+}
+
+const SECTION_IDS = Object.keys(PROMPT_SECTIONS) as PromptSectionId[]
+
+export const DEFAULT_TOKEN_WARNING_THRESHOLD = 30000
+
+export const DEFAULT_PROMPT_LAYOUT: PromptLayout = {
+  sections: SECTION_IDS.map((id) => ({ id, enabled: true, override: null })),
+  tokenWarningThreshold: DEFAULT_TOKEN_WARNING_THRESHOLD,
+}
+
+const promptLayoutSectionSchema = z.object({
+  id: z.enum(SECTION_IDS as [PromptSectionId, ...PromptSectionId[]]),
+  enabled: z.boolean(),
+  override: z.string().nullable(),
+})
+
+const tokenWarningThresholdSchema = z.number().int().min(1000)
+
+export const promptLayoutSchema = z.object({
+  sections: z.array(promptLayoutSectionSchema),
+  tokenWarningThreshold: tokenWarningThresholdSchema.optional(),
+})
+
+/**
+ * Coerces a stored layout into a complete one: unknown, invalid or duplicate sections are
+ * dropped, missing sections are appended in default order, and overrides on data sections are
+ * ignored. Entries are checked one by one, so a retired section or a bad threshold doesn't
+ * reset the rest of the layout.
+ */
+export function normalizePromptLayout(value: unknown): PromptLayout {
+  const stored = (value !== null && typeof value === 'object' ? value : {}) as { sections?: unknown; tokenWarningThreshold?: unknown }
+
+  const seen = new Set<PromptSectionId>()
+  const sections: PromptLayoutSection[] = []
+
+  for (const entry of Array.isArray(stored.sections) ? stored.sections : []) {
+    const parsed = promptLayoutSectionSchema.safeParse(entry)
+    if (!parsed.success) continue
+    const section = parsed.data
+    if (seen.has(section.id)) continue
+    seen.add(section.id)
+    sections.push({
+      id: section.id,
+      enabled: section.enabled,
+      override: PROMPT_SECTIONS[section.id].overridable && section.override?.trim() ? section.override : null,
+    })
+  }
+
+  for (const id of SECTION_IDS) {
+    if (!seen.has(id)) sections.push({ id, enabled: true, override: null })
+  }
+
+  const threshold = tokenWarningThresholdSchema.safeParse(stored.tokenWarningThreshold)
+
+  return {
+    sections,
+    tokenWarningThreshold: threshold.success ? threshold.data : DEFAULT_TOKEN_WARNING_THRESHOLD,
+  }
+}
+
+export const PROMPT_VARIABLES = ['template_name', 'template_size', 'target'] as const
+
+export type PromptVariables = Record<(typeof PROMPT_VARIABLES)[number], string>
+
+/**
+ * Replaces {{template_name}}, {{template_size}} and {{target}} in prompt scaffolding.
+ * Any other {{...}} is left untouched, since template placeholders must reach the assistant as-is.
+ */
+export function interpolatePromptVariables(text: string, variables: PromptVariables): string {
+  return text.replace(/\{\{\s*(template_name|template_size|target)\s*\}\}/g, (_, key: keyof PromptVariables) => variables[key])
+}
@@ -0,0 +1,265 @@
+import { createHash } from 'crypto'
+import * as cheerio from 'cheerio'
+import { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sanitizeHtml } from '@/lib/html-sanitizer'
+import { getTemplateProfile } from '@/lib/profile-values'
+import { getCompiledTemplate, renderCompiledTemplate } from '@/lib/template-renderer'
+import { Customization, Template, TemplateField } from '@/types'
+
+/**
+ * Published designs are served as their own HTML documents at /p/[slug], with link preview
+ * (OpenGraph/Twitter) and canonical tags added to the head.
+ */
+
+export const MAX_SLUG_LENGTH = 80
+// Lowercase words joined by single hyphens
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+// CDNs may serve a page for a minute and never serve it stale, so unpublishing a page or
+// restricting who can see it takes effect within a minute
+export const PUBLISHED_PAGE_CACHE_CONTROL = 'public, max-age=0, s-maxage=60'
+// Pages that only some visitors may see are never stored by shared caches
+export const PRIVATE_PAGE_CACHE_CONTROL = 'private, no-store'
+
+// Published HTML is sanitized; this keeps any script that slips through from running
+const PUBLISHED_PAGE_CSP = "script-src 'none'; object-src 'none'; base-uri 'none'"
+
+const DESCRIPTION_LENGTH = 160
+
+export function publishedPagePath(slug: string): string {
+  return `/p/${slug}`
+}
+
+/**
+ * Turns a design name into a slug ("Jane Doe – Open House!" becomes "jane-doe-open-house")
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '')
+}
+
+// Selects what renderPublishableHtml needs from customizations
+export const PUBLISHABLE_CUSTOMIZATION_SELECT = `
+  *,
+  template:listing_templates (
+    *,
+    listing_template_fields (*)
+  ),
+  field_values (
+    id,
+    field_id,
+    value
+  )
+`
+
+export interface PublishableCustomization extends Customization {
+  rendered_html: string | null
+  template: (Template & { listing_template_fields: TemplateField[] }) | null
+  field_values: { id: string; field_id: string; value: string | null }[]
+}
+
+/**
+ * The sanitized HTML a customization publishes: the design as edited in the customizer, or its
+ * template rendered with its field values and the owner's profile. Null when it has neither.
+ * Publishing and the owner's preview both use this, so the preview shows what will go live.
+ * Throws TemplateSyntaxError when the template cannot be parsed.
+ */
+export async function renderPublishableHtml(
+  supabase: SupabaseClient,
+  customization: PublishableCustomization
+): Promise<string | null> {
+  if (customization.rendered_html) {
+    return sanitizeHtml(customization.rendered_html)
+  }
+
+  const template = customization.template
+  if (!template) return null
+
+  // Build values map from field_values
+  const valuesMap: Record<string, string> = {}
+  customization.field_values?.forEach((fv) => {
+    const field = template.listing_template_fields?.find((tf) => tf.id === fv.field_id)
+    if (field) {
+      valuesMap[field.field_key] = fv.value || ''
+    }
+  })
+
+  const profile = await getTemplateProfile(supabase, customization.user_id)
+  const compiled = getCompiledTemplate(template, template.listing_template_fields ?? [])
+  return sanitizeHtml(renderCompiledTemplate(compiled, valuesMap, profile))
+}
+
+/**
+ * Gives a page published before snapshots existed its first snapshot, rendered and sanitized
+ * like a publish, and returns its HTML. Null when the design isn't published, already has a
+ * live snapshot or has nothing to render. Pass a service client; visitors aren't signed in.
+ */
+export async function snapshotLegacyPage(supabase: SupabaseClient, customizationId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('customizations')
+    .select(PUBLISHABLE_CUSTOMIZATION_SELECT)
+    .eq('id', customizationId)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to fetch customization: ${error.message}`)
+
+  const customization = data as unknown as PublishableCustomization | null
+  if (!customization || customization.status !== 'published' || customization.live_snapshot_id) return null
+
+  const html = await renderPublishableHtml(supabase, customization)
+  if (html === null) return null
+
+  const { data: snapshot, error: snapshotError } = await supabase
+    .from('publish_snapshots')
+    .insert({
+      customization_id: customization.id,
+      user_id: customization.user_id,
+      html,
+      template_id: customization.template?.id ?? null,
+      template_version: customization.template?.updated_at ?? null,
+      created_at: customization.published_at ?? undefined,
+    })
+    .select('id')
+    .single()
+
+  if (snapshotError || !snapshot) throw new Error(`Failed to create snapshot: ${snapshotError?.message}`)
+
+  // Concurrent first visits each render a snapshot; only the first one linked is kept
+  const { data: linked, error: updateError } = await supabase
+    .from('customizations')
+    .update({ live_snapshot_id: snapshot.id })
+    .eq('id', customization.id)
+    .is('live_snapshot_id', null)
+    .select('id')
+
+  if (updateError) throw new Error(`Failed to link snapshot: ${updateError.message}`)
+  if (!linked?.length) {
+    await supabase.from('publish_snapshots').delete().eq('id', snapshot.id)
+  }
+
+  return html
+}
+
+/**
+ * Returns the slug, or the slug with the lowest free numeric suffix when another design has it
+ */
+export async function findAvailableSlug(supabase: SupabaseClient, slug: string, customizationId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('customizations')
+    .select('slug')
+    .like('slug', `${slug}%`)
+    .neq('id', customizationId)
+
+  if (error) throw new Error(`Failed to check slug: ${error.message}`)
+
+  const taken = new Set((data ?? []).map((row: { slug: string | null }) => row.slug))
+  if (!taken.has(slug)) return slug
+
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${slug.slice(0, MAX_SLUG_LENGTH - String(suffix).length - 1)}-${suffix}`
+    if (!taken.has(candidate)) return candidate
+  }
+}
+
+/**
+ * Adds title, description, canonical and link preview tags to a published page. Tags the design
+ * already has for these are replaced so each appears once.
+ */
+export function buildPublishedPageHtml(
+  html: string,
+  { title, url, imageUrl }: { title: string; url: string; imageUrl: string | null }
+): string {
+  const $ = cheerio.load(html)
+
+  const pageTitle = $('title').first().text().trim() || title
+  const body = $('body').clone()
+  body.find('style, script, noscript, template').remove()
+  // Text nodes are joined with spaces so headings and paragraphs don't run together
+  const bodyText = body
+    .find('*')
+    .addBack()
+    .contents()
+    .filter((_, node) => node.type === 'text')
+    .map((_, node) => $(node).text())
+    .get()
+    .join(' ')
+  const description =
+    $('meta[name="description" i]').attr('content')?.trim() ||
+    truncate(bodyText.replace(/\s+/g, ' ').trim(), DESCRIPTION_LENGTH)
+
+  $('title, meta[name="description" i], link[rel="canonical" i], meta[property^="og:" i], meta[name^="twitter:" i]').remove()
+
+  const tags = [
+    $('<title>').text(pageTitle),
+    $('<link>').attr({ rel: 'canonical', href: url }),
+    $('<meta>').attr({ property: 'og:type', content: 'website' }),
+    $('<meta>').attr({ property: 'og:url', content: url }),
+    $('<meta>').attr({ property: 'og:title', content: pageTitle }),
+    $('<meta>').attr({ name: 'twitter:card', content: imageUrl ? 'summary_large_image' : 'summary' }),
+    $('<meta>').attr({ name: 'twitter:title', content: pageTitle }),
+  ]
+
+  if (description) {
+    tags.push(
+      $('<meta>').attr({ name: 'description', content: description }),
+      $('<meta>').attr({ property: 'og:description', content: description }),
+      $('<meta>').attr({ name: 'twitter:description', content: description })
+    )
+  }
+
+  if (imageUrl) {
+    tags.push(
+      $('<meta>').attr({ property: 'og:image', content: imageUrl }),
+      $('<meta>').attr({ name: 'twitter:image', content: imageUrl })
+    )
+  }
+
+  $('head').append(tags.map((tag) => $.html(tag)).join('\n'))
+
+  return $.html()
+}
+
+/**
+ * Responds with a published page. The ETag lets browsers and CDNs revalidate without downloading it again.
+ */
+export function publishedPageResponse(
+  request: NextRequest,
+  body: string,
+  { cacheControl, noindex, status = 200 }: { cacheControl: string; noindex: boolean; status?: number }
+): NextResponse {
+  const etag = `"${createHash('sha256').update(body).digest('base64url').slice(0, 27)}"`
+  const headers: Record<string, string> = {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Cache-Control': cacheControl,
+    ETag: etag,
+    'Content-Security-Policy': PUBLISHED_PAGE_CSP,
+    'X-Content-Type-Options': 'nosniff',
+  }
+  if (noindex) {
+    headers['X-Robots-Tag'] = 'noindex, nofollow'
+  }
+
+  if (status === 200 && request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  return new NextResponse(body, { status, headers })
+}
+
+/**
+ * Plain text error for published page routes. Errors aren't cached, so pages that come back work at once.
+ */
+export function publishedPageError(message: string, status: number): NextResponse {
+  return new NextResponse(message, { status, headers: { 'Cache-Control': 'no-store' } })
+}
+
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text
+  return `${text.slice(0, length - 1).replace(/\s+\S*$/, '')}…`
+}
@@ -0,0 +1,153 @@
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { getImageKitClient } from '@/lib/imagekit'
+
+/**
+ * Content-addressed cache for rendered PDFs, images and thumbnails.
+ *
+ * Entries are keyed by a hash of the HTML, the render options and RENDERER_VERSION, so an
+ * unchanged design is served from the cache and any change to its HTML misses it. Each entry is
+ * the rendered file plus a JSON sidecar with its URL and render metadata (e.g. a print report).
+ *
+ * Stores: ImageKit (the default when it is configured) or the local filesystem, chosen with
+ * RENDER_CACHE_STORE=imagekit|local|off. RENDER_CACHE_DIR sets the local directory.
+ */
+
+// Bump when rendering changes in a way that should make cached outputs stale
+const RENDERER_VERSION = '2'
+
+const IMAGEKIT_FOLDER = '/_personalization/render-cache'
+
+export type RenderCacheKind = 'pdf' | 'png' | 'image' | 'thumbnail'
+
+export interface CachedRender<M> {
+  // Public URL of the file, when the store serves files itself
+  url: string | null
+  metadata: M
+  read(): Promise<Buffer>
+}
+
+interface RenderCacheSidecar<M> {
+  file: string | null
+  url: string | null
+  metadata: M
+}
+
+interface RenderCacheStore {
+  read(name: string): Promise<Buffer | null>
+  // Returns the file's public URL, if it has one
+  write(name: string, data: Buffer): Promise<string | null>
+}
+
+const imagekitStore: RenderCacheStore = {
+  async read(name) {
+    // Files are uploaded without unique suffixes, so their URL follows from the name
+    const endpoint = process.env.IMAGEKIT_URL_ENDPOINT!.replace(/\/$/, '')
+    const response = await fetch(`${endpoint}${IMAGEKIT_FOLDER}/${name}?tr=orig-true`)
+    if (response.status === 404) return null
+    if (!response.ok) throw new Error(`Render cache read failed with ${response.status}`)
+    return Buffer.from(await response.arrayBuffer())
+  },
+  async write(name, data) {
+    const upload = await getImageKitClient().upload({
+      file: data,
+      fileName: name,
+      folder: IMAGEKIT_FOLDER,
+      useUniqueFileName: false,
+      overwriteFile: true,
+    })
+    return upload.url
+  },
+}
+
+function localDirectory(): string {
+  return process.env.RENDER_CACHE_DIR || path.join(os.tmpdir(), 'render-cache')
+}
+
+const localStore: RenderCacheStore = {
+  async read(name) {
+    try {
+      return await readFile(path.join(localDirectory(), name))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  },
+  async write(name, data) {
+    await mkdir(localDirectory(), { recursive: true })
+    await writeFile(path.join(localDirectory(), name), data)
+    return null
+  },
+}
+
+function getStore(): RenderCacheStore | null {
+  const configured = process.env.RENDER_CACHE_STORE
+  if (configured === 'off') return null
+  if (configured === 'local') return localStore
+  if (configured === 'imagekit') return imagekitStore
+  return process.env.IMAGEKIT_PRIVATE_KEY ? imagekitStore : localStore
+}
+
+/**
+ * Cache key for rendering this HTML with these options
+ */
+export function renderCacheKey(kind: RenderCacheKind, html: string, options: Record<string, unknown>): string {
+  return createHash('sha256')
+    .update(`${RENDERER_VERSION}\0${kind}\0${JSON.stringify(options)}\0`)
+    .update(html)
+    .digest('hex')
+}
+
+/**
+ * Looks up a cached render. Cache errors are logged and treated as a miss.
+ */
+export async function getCachedRender<M>(key: string): Promise<CachedRender<M> | null> {
+  const store = getStore()
+  if (!store) return null
+
+  try {
+    const sidecar = await store.read(`${key}.json`)
+    if (!sidecar) return null
+
+    const { file, url, metadata } = JSON.parse(sidecar.toString('utf8')) as RenderCacheSidecar<M>
+    return {
+      url,
+      metadata,
+      read: async () => {
+        const data = file ? await store.read(file) : null
+        if (!data) throw new Error('Cached render file is missing')
+        return data
+      },
+    }
+  } catch (error) {
+    console.warn('Render cache lookup failed:', error)
+    return null
+  }
+}
+
+/**
+ * Stores a render. Pass null data to cache only the metadata, for outputs that are stored
+ * elsewhere (thumbnails are uploaded on their own). Cache errors are logged, never thrown.
+ */
+export async function putCachedRender<M>(
+  key: string,
+  data: Buffer | null,
+  { extension, metadata }: { extension: string; metadata: M }
+): Promise<string | null> {
+  const store = getStore()
+  if (!store) return null
+
+  try {
+    const file = data ? `${key}.${extension}` : null
+    const url = file && data ? await store.write(file, data) : null
+    // The sidecar is written last, so a lookup never finds an entry without its file
+    const sidecar: RenderCacheSidecar<M> = { file, url, metadata }
+    await store.write(`${key}.json`, Buffer.from(JSON.stringify(sidecar)))
+    return url
+  } catch (error) {
+    console.warn('Render cache write failed:', error)
+    return null
+  }
+}
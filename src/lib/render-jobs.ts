@@ -0,0 +1,183 @@
+import { after } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { RenderJob, RenderJobKind } from '@/types'
+import { createBackgroundClient } from '@/lib/supabase/server'
+import { renderPdf, findCachedPdf, PdfRenderOptions } from '@/lib/pdf-service'
+import { generateThumbnail } from '@/lib/thumbnail-service'
+import { getImageKitClient } from '@/lib/imagekit'
+import { PrintReport } from '@/lib/print-ready'
+
+/**
+ * Background render jobs. Requests enqueue a job and return; the worker runs it after the
+ * response is sent (and from the cron route, which also picks up retries). Failed jobs are
+ * retried with a growing delay until they run out of attempts.
+ */
+
+export interface PdfJobPayload extends PdfRenderOptions {
+  filename: string
+}
+
+export interface PdfJobResult {
+  url: string
+  printReport: PrintReport | null
+}
+
+export interface ThumbnailJobResult {
+  url: string
+}
+
+// Jobs a single worker run processes before handing over to the next run
+const MAX_JOBS_PER_RUN = 5
+const RETRY_DELAY_SECONDS = 30
+
+// Columns clients may read; the payload holds the full design HTML
+export const RENDER_JOB_STATUS_COLUMNS =
+  'id, customization_id, kind, status, result, error, attempts, max_attempts, created_at, updated_at, finished_at'
+
+/**
+ * Queues a render job and starts the worker once the current response has been sent
+ */
+export async function enqueueRenderJob(job: {
+  userId: string
+  kind: RenderJobKind
+  customizationId?: string | null
+  payload?: PdfJobPayload
+}): Promise<Pick<RenderJob, 'id' | 'kind' | 'status' | 'result'>> {
+  const admin = createBackgroundClient()
+
+  // A design only needs one pending thumbnail; it renders whatever is saved when it runs
+  if (job.kind === 'thumbnail' && job.customizationId) {
+    const { data: pending } = await admin
+      .from('render_jobs')
+      .select('id, kind, status, result')
+      .eq('customization_id', job.customizationId)
+      .eq('kind', 'thumbnail')
+      .eq('status', 'queued')
+      .limit(1)
+      .maybeSingle()
+
+    if (pending) return pending
+  }
+
+  // An export that was rendered before is recorded as done straight away
+  const cached = job.kind === 'pdf' && job.payload ? await findCachedPdf(job.payload) : null
+
+  const { data, error } = await admin
+    .from('render_jobs')
+    .insert({
+      user_id: job.userId,
+      customization_id: job.customizationId ?? null,
+      kind: job.kind,
+      payload: job.payload ?? {},
+      ...(cached && { status: 'done', result: cached satisfies PdfJobResult, finished_at: new Date().toISOString() }),
+    })
+    .select('id, kind, status, result')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to queue render job: ${error.message}`)
+  }
+
+  if (!cached) after(() => processRenderJobs())
+
+  return data
+}
+
+/**
+ * Claims and runs due jobs one at a time. Returns how many jobs were processed.
+ */
+export async function processRenderJobs(limit = MAX_JOBS_PER_RUN): Promise<number> {
+  const admin = createBackgroundClient()
+  let processed = 0
+
+  while (processed < limit) {
+    const { data, error } = await admin.rpc('claim_render_job')
+    if (error) {
+      console.error('Failed to claim render job:', error)
+      break
+    }
+
+    const job = (data as RenderJob[] | null)?.[0]
+    if (!job) break
+
+    await runRenderJob(admin, job)
+    processed++
+  }
+
+  return processed
+}
+
+async function runRenderJob(admin: SupabaseClient, job: RenderJob) {
+  try {
+    const result = job.kind === 'pdf'
+      ? await runPdfJob(job.payload as unknown as PdfJobPayload)
+      : await runThumbnailJob(admin, job)
+
+    await admin
+      .from('render_jobs')
+      .update({ status: 'done', result, error: null, finished_at: new Date().toISOString() })
+      .eq('id', job.id)
+  } catch (error) {
+    console.error(`Render job ${job.id} (${job.kind}) failed:`, error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    const retry = job.attempts < job.max_attempts
+
+    await admin
+      .from('render_jobs')
+      .update(
+        retry
+          ? { status: 'queued', error: message, run_after: new Date(Date.now() + RETRY_DELAY_SECONDS * job.attempts * 1000).toISOString() }
+          : { status: 'failed', error: message, finished_at: new Date().toISOString() }
+      )
+      .eq('id', job.id)
+  }
+}
+
+async function runPdfJob(payload: PdfJobPayload): Promise<PdfJobResult> {
+  const { pdf, printReport, url } = await renderPdf(payload)
+
+  // The render cache already serves this PDF
+  if (url) return { url, printReport }
+
+  const safeName = (payload.filename || 'document').replace(/[^a-zA-Z0-9-_]/g, '_')
+  const upload = await getImageKitClient().upload({
+    file: Buffer.from(pdf),
+    fileName: `${safeName}_${Date.now()}.pdf`,
+    folder: '/_personalization/exports',
+  })
+
+  return { url: upload.url, printReport }
+}
+
+/**
+ * Renders the design as it is saved now, so a queued job never shows stale content
+ */
+async function runThumbnailJob(admin: SupabaseClient, job: RenderJob): Promise<ThumbnailJobResult> {
+  if (!job.customization_id) {
+    throw new Error('Thumbnail job has no design')
+  }
+
+  const { data: customization, error } = await admin
+    .from('customizations')
+    .select('name, rendered_html, template:listing_templates (size)')
+    .eq('id', job.customization_id)
+    .single()
+
+  if (error || !customization?.rendered_html) {
+    throw new Error('Design not found or has no content')
+  }
+
+  const template = customization.template as { size: string | null } | { size: string | null }[] | null
+  const size = Array.isArray(template) ? template[0]?.size : template?.size
+
+  const thumbnail = await generateThumbnail(customization.rendered_html, customization.name || 'design', size)
+
+  const { error: updateError } = await admin
+    .from('customizations')
+    .update({ thumbnail_url: thumbnail.url })
+    .eq('id', job.customization_id)
+
+  if (updateError) throw updateError
+
+  return { url: thumbnail.url }
+}
@@ -0,0 +1,234 @@
+import puppeteer, { Browser, Page } from 'puppeteer-core'
+
+/**
+ * Shared headless browser for PDF, screenshot and thumbnail rendering.
+ *
+ * One browser stays warm between requests and hands out pages from a small pool. At most
+ * MAX_CONCURRENT_RENDERS run at once; later renders wait in a queue. The browser is replaced
+ * after MAX_RENDERS_PER_BROWSER renders (Chromium slowly leaks memory) or when it crashes.
+ */
+
+// Local Chrome paths for development
+const LOCAL_CHROME_PATHS = {
+  darwin: '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  win32: 'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+  linux: '/usr/bin/google-chrome',
+}
+
+const MAX_CONCURRENT_RENDERS = Number(process.env.RENDER_CONCURRENCY) || 2
+const MAX_RENDERS_PER_BROWSER = 100
+// How long a render may wait for a free slot before the request is turned away
+const QUEUE_TIMEOUT_MS = 30_000
+// Upper bound for fonts, images and data-ready hooks; the render goes ahead when it passes
+const READY_TIMEOUT_MS = 10_000
+const CONTENT_TIMEOUT_MS = 30_000
+
+/**
+ * Thrown when a render waited too long for a free slot
+ */
+export class RenderQueueTimeoutError extends Error {
+  constructor() {
+    super('Too many renders in progress, please try again shortly')
+    this.name = 'RenderQueueTimeoutError'
+  }
+}
+
+interface PooledBrowser {
+  browser: Browser
+  renders: number
+  active: number
+  idlePages: Page[]
+  // Set once the browser has done its share of renders; it closes when its last render ends
+  retired: boolean
+}
+
+let currentBrowser: Promise<PooledBrowser> | null = null
+let activeRenders = 0
+const renderQueue: (() => void)[] = []
+
+async function launchBrowser(): Promise<Browser> {
+  const isDev = process.env.NODE_ENV === 'development'
+
+  if (isDev) {
+    // Use local Chrome for development
+    const platform = process.platform as keyof typeof LOCAL_CHROME_PATHS
+    const executablePath = LOCAL_CHROME_PATHS[platform] || LOCAL_CHROME_PATHS.linux
+
+    return puppeteer.launch({
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+      executablePath,
+      headless: true,
+    })
+  } else {
+    // Use bundled chromium for production (dynamic import for Turbopack compatibility)
+    const chromium = await import('@sparticuz/chromium').then(m => m.default)
+    return puppeteer.launch({
+      args: chromium.args,
+      defaultViewport: chromium.defaultViewport,
+      executablePath: await chromium.executablePath(),
+      headless: true,
+    })
+  }
+}
+
+function getBrowser(): Promise<PooledBrowser> {
+  if (!currentBrowser) {
+    const launching = launchBrowser().then((browser) => {
+      const pooled: PooledBrowser = { browser, renders: 0, active: 0, idlePages: [], retired: false }
+      // A crashed browser is dropped so the next render launches a new one
+      browser.on('disconnected', () => {
+        if (currentBrowser === launching) currentBrowser = null
+      })
+      return pooled
+    })
+    // A failed launch shouldn't be cached
+    launching.catch(() => {
+      if (currentBrowser === launching) currentBrowser = null
+    })
+    currentBrowser = launching
+  }
+  return currentBrowser
+}
+
+function acquireRenderSlot(): Promise<void> {
+  if (activeRenders < MAX_CONCURRENT_RENDERS) {
+    activeRenders++
+    return Promise.resolve()
+  }
+
+  return new Promise((resolve, reject) => {
+    const start = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      renderQueue.splice(renderQueue.indexOf(start), 1)
+      reject(new RenderQueueTimeoutError())
+    }, QUEUE_TIMEOUT_MS)
+    renderQueue.push(start)
+  })
+}
+
+function releaseRenderSlot() {
+  // The slot passes straight to the next queued render
+  const next = renderQueue.shift()
+  if (next) next()
+  else activeRenders--
+}
+
+async function releasePage(pooled: PooledBrowser, page: Page, reusable: boolean) {
+  pooled.active--
+
+  if (reusable && !pooled.retired && pooled.browser.connected && pooled.idlePages.length < MAX_CONCURRENT_RENDERS) {
+    pooled.idlePages.push(page)
+    return
+  }
+
+  await page.close().catch(() => {})
+  if (pooled.retired && pooled.active === 0) {
+    await pooled.browser.close().catch(() => {})
+  }
+}
+
+/**
+ * Runs a render with a page from the shared browser. The page is returned to the pool afterwards,
+ * so callers must not close it. Throws RenderQueueTimeoutError when the service is too busy.
+ */
+export async function withRenderPage<T>(render: (page: Page) => Promise<T>): Promise<T> {
+  await acquireRenderSlot()
+
+  try {
+    const launch = getBrowser()
+    const pooled = await launch
+    pooled.renders++
+    pooled.active++
+
+    if (pooled.renders >= MAX_RENDERS_PER_BROWSER) {
+      // New renders get a fresh browser; this one finishes the renders it has
+      pooled.retired = true
+      if (currentBrowser === launch) currentBrowser = null
+      await Promise.all(pooled.idlePages.splice(0).map((page) => page.close().catch(() => {})))
+    }
+
+    let page: Page
+    try {
+      page = pooled.idlePages.pop() ?? (await pooled.browser.newPage())
+    } catch (error) {
+      pooled.active--
+      throw error
+    }
+
+    let succeeded = false
+    try {
+      const result = await render(page)
+      succeeded = true
+      return result
+    } finally {
+      await releasePage(pooled, page, succeeded)
+    }
+  } finally {
+    releaseRenderSlot()
+  }
+}
+
+export interface RenderContentOptions {
+  width: number
+  height: number
+  deviceScaleFactor?: number
+}
+
+/**
+ * Loads HTML into a render page and waits until it is ready to capture
+ */
+export async function loadRenderContent(page: Page, html: string, { width, height, deviceScaleFactor = 1 }: RenderContentOptions) {
+  await page.setViewport({ width, height, deviceScaleFactor })
+  await page.setContent(html, {
+    waitUntil: ['load', 'networkidle0'],
+    timeout: CONTENT_TIMEOUT_MS,
+  })
+  await waitForRenderReady(page)
+}
+
+/**
+ * Waits for web fonts, images and any data-ready hook, then for the next painted frame.
+ *
+ * Templates that finish rendering asynchronously can mark an element data-ready="false" and set
+ * it to "true" when done.
+ */
+export async function waitForRenderReady(page: Page): Promise<void> {
+  await page.evaluate(async (timeoutMs: number) => {
+    const timeout = new Promise<void>((resolve) => setTimeout(resolve, timeoutMs))
+
+    const fontsAndImages = async () => {
+      await document.fonts.ready
+      await Promise.all(
+        Array.from(document.images).map((img) => {
+          if (img.complete) return img.decode().catch(() => {})
+          return new Promise((resolve) => {
+            img.addEventListener('load', resolve)
+            img.addEventListener('error', resolve) // Resolve even on error to not block
+          })
+        })
+      )
+    }
+
+    const readyHooks = () =>
+      new Promise<void>((resolve) => {
+        const check = () => {
+          if (document.querySelector('[data-ready="false"]')) return false
+          observer.disconnect()
+          resolve()
+          return true
+        }
+        const observer = new MutationObserver(check)
+        if (!check()) {
+          observer.observe(document.documentElement, { attributes: true, attributeFilter: ['data-ready'], childList: true, subtree: true })
+        }
+      })
+
+    await Promise.race([Promise.all([fontsAndImages(), readyHooks()]), timeout])
+
+    // Two frames: one for pending style and layout work, one to paint it
+    await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+  }, READY_TIMEOUT_MS)
+}
@@ -1,4 +1,5 @@
 import { createServerClient } from '@supabase/ssr'
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
 
 export async function createClient() {
@@ -51,3 +52,20 @@ export async function createServiceClient() {
     }
   )
 }
+
+/**
+ * Service-role client that ignores the request's session cookies, for work that runs outside
+ * a user's request (render jobs, cron). createServiceClient sends the signed-in user's token.
+ */
+export function createBackgroundClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  )
+}
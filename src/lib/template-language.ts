@@ -0,0 +1,542 @@
+/**
+ * Template language for listing templates.
+ *
+ *   {{field_key}}                       value substitution
+ *   {{price | currency}}                filters: currency, upper, lower, format_phone
+ *   {{tagline ?? "Your trusted agent"}} fallback when the value is empty
+ *   {{#if headshot}}…{{else}}…{{/if}}   section shown only when the value is not empty
+ *   {{#each listings}}{{this}}{{/each}} loop over a list-valued field
+ *
+ * Inside #each, {{this}} is the current item, {{this.key}} a property of an object item and
+ * {{@index}} the zero-based position; bare names still refer to template fields.
+ *
+ * {{profile.phone}} and {{template.headline}} name a profile or template field explicitly.
+ * A bare {{phone}} resolves to the customization value, then the template default, then
+ * the profile value.
+ *
+ * Templates are parsed into a tree and evaluated without any code execution: expressions can
+ * only read field values, and filters come from a fixed list. Each output records the HTML
+ * context it appears in (text, attribute, URL, CSS...) so it can be escaped for that context.
+ */
+
+import {
+  OutputContext,
+  HtmlScanState,
+  createHtmlScanState,
+  advanceHtmlScan,
+  advanceHtmlScanPastOutput,
+  outputContextOf,
+} from '@/lib/html-context'
+
+export type TemplateValue = string | TemplateValue[] | { [key: string]: TemplateValue }
+
+export type TemplateOperand =
+  | { type: 'path'; root: string; segments: string[] }
+  | { type: 'literal'; value: string }
+
+export interface TemplateExpression {
+  // Operands chained with ??; the first non-empty one wins
+  operands: TemplateOperand[]
+  filters: TemplateFilterName[]
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: TemplateExpression; context: OutputContext; line: number }
+  | { type: 'if'; condition: TemplateExpression; then: TemplateNode[]; else: TemplateNode[]; line: number }
+  | { type: 'each'; list: TemplateOperand & { type: 'path' }; body: TemplateNode[]; line: number }
+
+export class TemplateSyntaxError extends Error {
+  // The message without its position
+  reason: string
+  line: number
+  column: number
+
+  constructor(reason: string, line: number, column: number) {
+    super(`${reason} (line ${line}, column ${column})`)
+    this.name = 'TemplateSyntaxError'
+    this.reason = reason
+    this.line = line
+    this.column = column
+  }
+}
+
+// Roots that address profile or template fields by name instead of object properties
+export const TEMPLATE_NAMESPACES = ['profile', 'template'] as const
+
+export type TemplateNamespace = (typeof TEMPLATE_NAMESPACES)[number]
+
+export function isTemplateNamespace(name: string): name is TemplateNamespace {
+  return (TEMPLATE_NAMESPACES as readonly string[]).includes(name)
+}
+
+// Guards against runaway output from huge list values
+const MAX_EACH_ITEMS = 500
+
+// Creating a NumberFormat is far slower than using one, and batches format thousands of prices
+const WHOLE_DOLLARS = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+const DOLLARS_AND_CENTS = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 })
+
+const TEMPLATE_FILTERS = {
+  currency: (value: string) => {
+    const number = value.replace(/[^\d.-]/g, '')
+    const amount = Number(number)
+    if (!/\d/.test(number) || Number.isNaN(amount)) return value
+    return (Number.isInteger(amount) ? WHOLE_DOLLARS : DOLLARS_AND_CENTS).format(amount)
+  },
+  upper: (value: string) => value.toUpperCase(),
+  lower: (value: string) => value.toLowerCase(),
+  format_phone: (value: string) => {
+    const digits = value.replace(/\D/g, '')
+    if (digits.length === 10) return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`
+    if (digits.length === 11 && digits[0] === '1') return `+1 (${digits.slice(1, 4)}) ${digits.slice(4, 7)}-${digits.slice(7)}`
+    return value
+  },
+} satisfies Record<string, (value: string) => string>
+
+export type TemplateFilterName = keyof typeof TEMPLATE_FILTERS
+
+export const TEMPLATE_FILTER_NAMES = Object.keys(TEMPLATE_FILTERS) as TemplateFilterName[]
+
+function isFilterName(name: string): name is TemplateFilterName {
+  return Object.hasOwn(TEMPLATE_FILTERS, name)
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function positionAt(source: string, offset: number): { line: number; column: number } {
+  let line = 1
+  let lineStart = 0
+  for (let i = 0; i < offset; i++) {
+    if (source.charCodeAt(i) === 10) {
+      line++
+      lineStart = i + 1
+    }
+  }
+  return { line, column: offset - lineStart + 1 }
+}
+
+function syntaxErrorAt(source: string, offset: number, message: string): TemplateSyntaxError {
+  const { line, column } = positionAt(source, offset)
+  return new TemplateSyntaxError(message, line, column)
+}
+
+interface RawTag {
+  content: string
+  start: number
+  // Offset of the tag content, for error positions
+  contentStart: number
+  end: number
+}
+
+// Finds the closing }} of a tag, skipping over quoted strings
+function findTagEnd(source: string, from: number): number {
+  let quote: string | null = null
+  for (let i = from; i < source.length; i++) {
+    const char = source[i]
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '}' && source[i + 1] === '}') {
+      return i
+    }
+  }
+  return -1
+}
+
+type ExpressionToken =
+  | { kind: 'path'; value: string; offset: number }
+  | { kind: 'string'; value: string; offset: number }
+  | { kind: 'fallback' | 'pipe'; offset: number }
+
+// Sticky, so it matches at lastIndex without slicing the expression
+const PATH_TOKEN = /@?[A-Za-z_]\w*(\.[A-Za-z_]\w*)*/y
+
+function tokenizeExpression(source: string, text: string, baseOffset: number): ExpressionToken[] {
+  const tokens: ExpressionToken[] = []
+
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (text.startsWith('??', i)) {
+      tokens.push({ kind: 'fallback', offset: i })
+      i += 2
+    } else if (char === '|') {
+      tokens.push({ kind: 'pipe', offset: i })
+      i++
+    } else if (char === '"' || char === "'") {
+      let value = ''
+      let j = i + 1
+      while (j < text.length && text[j] !== char) {
+        if (text[j] === '\\' && j + 1 < text.length) j++
+        value += text[j]
+        j++
+      }
+      if (j >= text.length) throw syntaxErrorAt(source, baseOffset + i, 'Unterminated string')
+      tokens.push({ kind: 'string', value, offset: i })
+      i = j + 1
+    } else {
+      PATH_TOKEN.lastIndex = i
+      const match = PATH_TOKEN.exec(text)
+      if (!match) throw syntaxErrorAt(source, baseOffset + i, `Unexpected character "${char}"`)
+      tokens.push({ kind: 'path', value: match[0], offset: i })
+      i += match[0].length
+    }
+  }
+
+  return tokens
+}
+
+function parseExpression(source: string, text: string, baseOffset: number): TemplateExpression {
+  const tokens = tokenizeExpression(source, text, baseOffset)
+  const errorAt = (at: number, message: string) => syntaxErrorAt(source, baseOffset + at, message)
+
+  const operands: TemplateOperand[] = []
+  const filters: TemplateFilterName[] = []
+  let i = 0
+
+  const readOperand = () => {
+    const token = tokens[i]
+    if (token?.kind === 'path') {
+      const [root, ...segments] = token.value.split('.')
+      operands.push({ type: 'path', root, segments })
+    } else if (token?.kind === 'string') {
+      operands.push({ type: 'literal', value: token.value })
+    } else {
+      throw errorAt(token?.offset ?? text.length, 'Expected a field name or a quoted string')
+    }
+    i++
+  }
+
+  readOperand()
+  while (tokens[i]?.kind === 'fallback') {
+    i++
+    readOperand()
+  }
+
+  while (i < tokens.length) {
+    const pipe = tokens[i]
+    const filter = tokens[i + 1]
+    if (pipe.kind !== 'pipe') throw errorAt(pipe.offset, 'Expected "|" or "??"')
+    if (filter?.kind !== 'path') throw errorAt(pipe.offset, 'Expected a filter name after "|"')
+    if (!isFilterName(filter.value)) {
+      throw errorAt(filter.offset, `Unknown filter "${filter.value}" (available: ${TEMPLATE_FILTER_NAMES.join(', ')})`)
+    }
+    filters.push(filter.value)
+    i += 2
+  }
+
+  return { operands, filters }
+}
+
+interface OpenBlock {
+  kind: 'if' | 'each'
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>
+  inElse: boolean
+  tag: RawTag
+  // HTML scan state where the block opened, and where its first branch ended
+  scanAtOpen: HtmlScanState
+  scanAfterThen?: HtmlScanState
+}
+
+/**
+ * Parses template source into a node tree. Throws TemplateSyntaxError with the line and
+ * column of the first problem.
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: OpenBlock[] = []
+
+  const currentChildren = (): TemplateNode[] => {
+    const block = stack[stack.length - 1]
+    if (!block) return root
+    if (block.node.type === 'if') return block.inElse ? block.node.else : block.node.then
+    return block.node.body
+  }
+
+  // Tags are visited in order, so line numbers are counted incrementally
+  let line = 1
+  let countedTo = 0
+  const lineAt = (offset: number) => {
+    for (; countedTo < offset; countedTo++) {
+      if (source.charCodeAt(countedTo) === 10) line++
+    }
+    return line
+  }
+
+  // Follows the HTML around the tags to know each output's context
+  let scan = createHtmlScanState()
+  const pushText = (value: string) => {
+    currentChildren().push({ type: 'text', value })
+    advanceHtmlScan(scan, value)
+  }
+
+  let cursor = 0
+  while (cursor < source.length) {
+    const start = source.indexOf('{{', cursor)
+    if (start === -1) {
+      pushText(source.slice(cursor))
+      break
+    }
+    if (start > cursor) {
+      pushText(source.slice(cursor, start))
+    }
+
+    const end = findTagEnd(source, start + 2)
+    if (end === -1) throw syntaxErrorAt(source, start, 'Unclosed "{{"')
+
+    const raw = source.slice(start + 2, end)
+    const leading = raw.length - raw.trimStart().length
+    const tag: RawTag = { content: raw.trim(), start, contentStart: start + 2 + leading, end: end + 2 }
+    const tagLine = lineAt(start)
+    cursor = tag.end
+
+    if (tag.content.startsWith('#')) {
+      const [, helper, rest = ''] = tag.content.match(/^#(\S*)\s*([\s\S]*)$/) ?? []
+      const argumentOffset = tag.contentStart + tag.content.length - rest.length
+
+      if (helper === 'if') {
+        if (!rest) throw syntaxErrorAt(source, tag.start, '{{#if}} needs a field to test')
+        const node: TemplateNode = { type: 'if', condition: parseExpression(source, rest, argumentOffset), then: [], else: [], line: tagLine }
+        currentChildren().push(node)
+        stack.push({ kind: 'if', node, inElse: false, tag, scanAtOpen: { ...scan } })
+      } else if (helper === 'each') {
+        if (!/^@?[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/.test(rest)) throw syntaxErrorAt(source, tag.start, '{{#each}} needs a single field name')
+        const [listRoot, ...segments] = rest.split('.')
+        const node: TemplateNode = { type: 'each', list: { type: 'path', root: listRoot, segments }, body: [], line: tagLine }
+        currentChildren().push(node)
+        stack.push({ kind: 'each', node, inElse: false, tag, scanAtOpen: { ...scan } })
+      } else {
+        throw syntaxErrorAt(source, tag.start, `Unknown block "{{#${helper}}}" (expected #if or #each)`)
+      }
+    } else if (tag.content.startsWith('/')) {
+      const helper = tag.content.slice(1).trim()
+      const open = stack.pop()
+      if (!open) throw syntaxErrorAt(source, tag.start, `"{{/${helper}}}" has no matching opening block`)
+      if (open.kind !== helper) {
+        const opened = positionAt(source, open.tag.start)
+        throw syntaxErrorAt(source, tag.start, `"{{/${helper}}}" does not match "{{#${open.kind}}}" opened on line ${opened.line}`)
+      }
+      // Branches should leave the HTML in the same state; continue from the first one
+      if (open.scanAfterThen) scan = open.scanAfterThen
+    } else if (tag.content === 'else') {
+      const open = stack[stack.length - 1]
+      if (!open || open.kind !== 'if' || open.inElse) throw syntaxErrorAt(source, tag.start, '"{{else}}" must be inside an {{#if}} block')
+      open.inElse = true
+      open.scanAfterThen = scan
+      scan = { ...open.scanAtOpen }
+    } else {
+      const expression = parseExpression(source, tag.content, tag.contentStart)
+      currentChildren().push({ type: 'output', expression, context: outputContextOf(scan), line: tagLine })
+      advanceHtmlScanPastOutput(scan)
+    }
+  }
+
+  const unclosed = stack.pop()
+  if (unclosed) throw syntaxErrorAt(source, unclosed.tag.start, `"{{#${unclosed.kind}}}" is never closed`)
+
+  return root
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+export interface TemplateRenderOptions {
+  values: Record<string, TemplateValue | undefined>
+  // Escapes every output for its HTML context. fieldKey is the bare or namespaced key when the
+  // output is a whole field value, and null for literals, list items and object properties.
+  escape: (value: string, output: { fieldKey: string | null; context: OutputContext }) => string
+}
+
+interface Scope {
+  item?: TemplateValue
+  index?: number
+}
+
+function resolvePath(operand: TemplateOperand & { type: 'path' }, options: TemplateRenderOptions, scope: Scope): TemplateValue | undefined {
+  let value: TemplateValue | undefined
+  if (operand.root === 'this') value = scope.item
+  else if (operand.root === '@index') value = scope.index === undefined ? undefined : String(scope.index)
+  else value = Object.hasOwn(options.values, operand.root) ? options.values[operand.root] : undefined
+
+  for (const segment of operand.segments) {
+    if (value === undefined || typeof value !== 'object' || Array.isArray(value) || !Object.hasOwn(value, segment)) {
+      return undefined
+    }
+    value = value[segment]
+  }
+  return value
+}
+
+/**
+ * The field key an operand reads: "headline", or "profile.phone" for a namespaced path.
+ * Null for literals, this and @index.
+ */
+function fieldKeyOf(operand: TemplateOperand): string | null {
+  if (operand.type !== 'path' || operand.root === 'this' || operand.root.startsWith('@')) return null
+  if (isTemplateNamespace(operand.root) && operand.segments.length > 0) return `${operand.root}.${operand.segments[0]}`
+  return operand.root
+}
+
+function isEmpty(value: TemplateValue | undefined): boolean {
+  if (value === undefined) return true
+  if (typeof value === 'string') return value.trim() === ''
+  if (Array.isArray(value)) return value.length === 0
+  return false
+}
+
+function stringify(value: TemplateValue | undefined): string {
+  if (value === undefined) return ''
+  if (typeof value === 'string') return value
+  if (Array.isArray(value)) return value.map(stringify).join(', ')
+  return ''
+}
+
+/**
+ * List-valued fields are stored as text: a JSON array, or one item per line
+ */
+export function toTemplateList(value: TemplateValue | undefined): TemplateValue[] {
+  if (value === undefined) return []
+  if (Array.isArray(value)) return value
+  if (typeof value === 'object') return [value]
+
+  const trimmed = value.trim()
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed)
+      if (Array.isArray(parsed)) return parsed.map(toTemplateValue)
+    } catch {
+      // Not JSON; fall through to one item per line
+    }
+  }
+  return trimmed.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)
+}
+
+function toTemplateValue(value: unknown): TemplateValue {
+  if (typeof value === 'string') return value
+  if (Array.isArray(value)) return value.map(toTemplateValue)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toTemplateValue(item)]))
+  }
+  return value === null || value === undefined ? '' : String(value)
+}
+
+function evaluateExpression(
+  expression: TemplateExpression,
+  options: TemplateRenderOptions,
+  scope: Scope
+): { value: TemplateValue | undefined; source: TemplateOperand } {
+  let result: { value: TemplateValue | undefined; source: TemplateOperand } | null = null
+
+  for (const operand of expression.operands) {
+    const value = operand.type === 'literal' ? operand.value : resolvePath(operand, options, scope)
+    result = { value, source: operand }
+    if (!isEmpty(value)) break
+  }
+
+  return result!
+}
+
+function renderNodes(nodes: TemplateNode[], options: TemplateRenderOptions, scope: Scope): string {
+  let output = ''
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value
+        break
+
+      case 'output': {
+        const { value, source } = evaluateExpression(node.expression, options, scope)
+        const text = node.expression.filters.reduce((current, filter) => TEMPLATE_FILTERS[filter](current), stringify(value))
+        const key = fieldKeyOf(source)
+        const isWholeField = source.type === 'path' && key === [source.root, ...source.segments].join('.')
+        output += options.escape(text, { fieldKey: isWholeField ? key : null, context: node.context })
+        break
+      }
+
+      case 'if': {
+        const { value } = evaluateExpression(node.condition, options, scope)
+        const filtered = node.condition.filters.length > 0
+          ? node.condition.filters.reduce((current, filter) => TEMPLATE_FILTERS[filter](current), stringify(value))
+          : value
+        output += renderNodes(isEmpty(filtered) ? node.else : node.then, options, scope)
+        break
+      }
+
+      case 'each': {
+        const items = toTemplateList(resolvePath(node.list, options, scope)).slice(0, MAX_EACH_ITEMS)
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, options, { item, index })
+        })
+        break
+      }
+    }
+  }
+
+  return output
+}
+
+export function renderTemplateNodes(nodes: TemplateNode[], options: TemplateRenderOptions): string {
+  return renderNodes(nodes, options, {})
+}
+
+// ---------------------------------------------------------------------------
+// Inspection
+// ---------------------------------------------------------------------------
+
+function visitNodes(nodes: TemplateNode[], visit: (node: TemplateNode) => void) {
+  for (const node of nodes) {
+    visit(node)
+    if (node.type === 'if') {
+      visitNodes(node.then, visit)
+      visitNodes(node.else, visit)
+    } else if (node.type === 'each') {
+      visitNodes(node.body, visit)
+    }
+  }
+}
+
+/**
+ * Field keys a template reads, in order of first use (excluding this and @index).
+ * Namespaced keys keep their prefix, e.g. "profile.phone".
+ */
+export function collectTemplateFieldKeys(nodes: TemplateNode[]): string[] {
+  const keys: string[] = []
+  const add = (operand: TemplateOperand) => {
+    const key = fieldKeyOf(operand)
+    if (key !== null && !keys.includes(key)) keys.push(key)
+  }
+
+  visitNodes(nodes, (node) => {
+    if (node.type === 'output') node.expression.operands.forEach(add)
+    else if (node.type === 'if') node.condition.operands.forEach(add)
+    else if (node.type === 'each') add(node.list)
+  })
+
+  return keys
+}
+
+/**
+ * Whether a template uses anything beyond plain {{field_key}} substitution
+ */
+export function usesTemplateLogic(nodes: TemplateNode[]): boolean {
+  let found = false
+  visitNodes(nodes, (node) => {
+    if (node.type === 'if' || node.type === 'each') found = true
+    else if (node.type === 'output') {
+      const { operands, filters } = node.expression
+      // Namespaced keys like {{profile.phone}} need explaining to the AI as well
+      if (filters.length > 0 || operands.length > 1 || operands.some((operand) => fieldKeyOf(operand)?.includes('.'))) found = true
+    }
+  })
+  return found
+}
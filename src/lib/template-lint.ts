@@ -0,0 +1,136 @@
+import { extractPlaceholders } from '@/lib/template-renderer'
+import { parseTemplate, TemplateSyntaxError, isTemplateNamespace } from '@/lib/template-language'
+
+export type TemplateLintCode =
+  | 'unknown_placeholder'
+  | 'unused_field'
+  | 'duplicate_field_key'
+  | 'reserved_field_key'
+  | 'malformed_placeholder'
+
+export interface TemplateLintIssue {
+  code: TemplateLintCode
+  // Errors block saving unless forced; warnings are informational
+  severity: 'error' | 'warning'
+  message: string
+  key?: string
+  line?: number
+}
+
+export interface TemplateLintInput {
+  htmlContent: string
+  fieldKeys: string[]
+  profileFieldKeys: string[]
+}
+
+// Renders fine, but the prompt generator and AI assistants expect {{field_key}} without spaces
+const PADDED_PLACEHOLDER = /\{\{(\s+[\w.]+\s*|\s*[\w.]+\s+)\}\}/g
+
+function lineAt(text: string, index: number): number {
+  let line = 1
+  for (let i = 0; i < index; i++) {
+    if (text.charCodeAt(i) === 10) line++
+  }
+  return line
+}
+
+// Line of the first occurrence of {{key}}
+function firstLineOf(htmlContent: string, key: string): number | undefined {
+  const index = htmlContent.indexOf(`{{${key}}}`)
+  return index === -1 ? undefined : lineAt(htmlContent, index)
+}
+
+/**
+ * Checks that the placeholders in a template's HTML and its fields line up.
+ */
+export function lintTemplate({ htmlContent, fieldKeys, profileFieldKeys }: TemplateLintInput): TemplateLintIssue[] {
+  const issues: TemplateLintIssue[] = []
+
+  try {
+    parseTemplate(htmlContent)
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error
+    issues.push({
+      code: 'malformed_placeholder',
+      severity: 'error',
+      message: error.reason,
+      line: error.line,
+    })
+  }
+
+  for (const match of htmlContent.matchAll(PADDED_PLACEHOLDER)) {
+    const key = match[1].trim()
+    issues.push({
+      code: 'malformed_placeholder',
+      severity: 'warning',
+      message: `Placeholder ${match[0]} has extra spaces (write {{${key}}})`,
+      key,
+      line: lineAt(htmlContent, match.index),
+    })
+  }
+
+  const seen = new Set<string>()
+  const reported = new Set<string>()
+  for (const key of fieldKeys) {
+    if (seen.has(key) && !reported.has(key)) {
+      reported.add(key)
+      issues.push({
+        code: 'duplicate_field_key',
+        severity: 'error',
+        message: `Field key "${key}" is used by more than one field`,
+        key,
+      })
+    }
+    if (isTemplateNamespace(key) && !seen.has(key)) {
+      issues.push({
+        code: 'reserved_field_key',
+        severity: 'error',
+        message: `Field key "${key}" is reserved for {{${key}.field_key}} placeholders`,
+        key,
+      })
+    }
+    seen.add(key)
+  }
+
+  const placeholders = extractPlaceholders(htmlContent)
+  const knownKeys = new Set([
+    ...fieldKeys,
+    ...profileFieldKeys,
+    ...fieldKeys.map((key) => `template.${key}`),
+    ...profileFieldKeys.map((key) => `profile.${key}`),
+  ])
+
+  for (const key of placeholders) {
+    if (knownKeys.has(key)) continue
+    const [namespace] = key.split('.')
+    issues.push({
+      code: 'unknown_placeholder',
+      severity: 'error',
+      message: key.includes('.')
+        ? `{{${key}}} does not match any ${namespace} field`
+        : `{{${key}}} does not match any template or profile field`,
+      key,
+      line: firstLineOf(htmlContent, key),
+    })
+  }
+
+  for (const key of seen) {
+    if (placeholders.includes(key) || placeholders.includes(`template.${key}`)) continue
+    issues.push({
+      code: 'unused_field',
+      severity: 'warning',
+      message: `Field "${key}" is never used in the HTML`,
+      key,
+    })
+  }
+
+  // Errors first, then in document order
+  return issues.sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+    (a.line ?? Number.MAX_SAFE_INTEGER) - (b.line ?? Number.MAX_SAFE_INTEGER)
+  )
+}
+
+export function hasBlockingLintErrors(issues: TemplateLintIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error')
+}
@@ -1,108 +1,250 @@
-import { TemplateField } from '@/types'
+import { TemplateField, Template } from '@/types'
+import {
+  parseTemplate,
+  renderTemplateNodes,
+  collectTemplateFieldKeys,
+  TemplateSyntaxError,
+  TemplateNode,
+  TemplateValue,
+} from '@/lib/template-language'
+import { OutputContext, URL_ATTRIBUTES } from '@/lib/html-context'
+import { sanitizeUrl } from '@/lib/html-sanitizer'
+import { parseColor } from '@/lib/color'
+
+/**
+ * The customization owner's profile, for {{profile.*}} and bare profile-field placeholders
+ */
+export interface TemplateProfile {
+  fields: { field_key: string; field_type: string }[]
+  values: Record<string, string>
+}
+
+/**
+ * A template parsed once, ready to render against many sets of values
+ */
+export interface CompiledTemplate {
+  nodes: TemplateNode[]
+  fields: TemplateField[]
+  // field_key -> field_type, so escaping doesn't search the field list for every output
+  fieldTypes: Map<string, string>
+}
+
+const EMPTY_PROFILE: TemplateProfile = { fields: [], values: {} }
+
+// Parsed templates by id. html_content only changes with updated_at, so a matching
+// updated_at means the cached tree is current. Least recently used entries are evicted first.
+const compiledTemplateCache = new Map<string, { updatedAt: string; nodes: TemplateNode[] }>()
+const MAX_CACHED_TEMPLATES = 50
+
+/**
+ * Parses a template for rendering. Throws TemplateSyntaxError when it cannot be parsed.
+ */
+export function compileTemplate(htmlContent: string, fields: TemplateField[]): CompiledTemplate {
+  return withFields(parseTemplate(htmlContent), fields)
+}
+
+/**
+ * Like compileTemplate, but reuses the parsed tree while the template is unchanged.
+ * Use this when rendering a saved template, especially for many customizations at once.
+ */
+export function getCompiledTemplate(
+  template: Pick<Template, 'id' | 'updated_at' | 'html_content'>,
+  fields: TemplateField[]
+): CompiledTemplate {
+  const cached = compiledTemplateCache.get(template.id)
+  compiledTemplateCache.delete(template.id)
+
+  const nodes = cached && cached.updatedAt === template.updated_at ? cached.nodes : parseTemplate(template.html_content)
+
+  compiledTemplateCache.set(template.id, { updatedAt: template.updated_at, nodes })
+  if (compiledTemplateCache.size > MAX_CACHED_TEMPLATES) {
+    compiledTemplateCache.delete(compiledTemplateCache.keys().next().value!)
+  }
+
+  return withFields(nodes, fields)
+}
+
+function withFields(nodes: TemplateNode[], fields: TemplateField[]): CompiledTemplate {
+  return { nodes, fields, fieldTypes: new Map(fields.map((field) => [field.field_key, field.field_type])) }
+}
 
 /**
  * Renders an HTML template by replacing placeholders with actual values
- * Placeholders use the format: {{field_key}}
+ * Supports {{field_key}}, {{profile.key}}, {{template.key}}, filters, ?? fallbacks, {{#if}}
+ * and {{#each}} (see template-language.ts).
+ * Throws TemplateSyntaxError when the template cannot be parsed.
  */
 export function renderTemplate(
   htmlContent: string,
   values: Record<string, string>,
-  fields: TemplateField[]
+  fields: TemplateField[],
+  profile: TemplateProfile = EMPTY_PROFILE
 ): string {
-  let rendered = htmlContent
+  return renderCompiledTemplate(compileTemplate(htmlContent, fields), values, profile)
+}
 
-  // Create a map of field keys to their default values
-  const defaultValues: Record<string, string> = {}
-  fields.forEach((field) => {
-    if (field.default_value) {
-      defaultValues[field.field_key] = field.default_value
+/**
+ * Renders a compiled template with one customization's values
+ */
+export function renderCompiledTemplate(
+  compiled: CompiledTemplate,
+  values: Record<string, string>,
+  profile: TemplateProfile = EMPTY_PROFILE
+): string {
+  // Template fields: use the customization value, falling back to the field default when blank
+  const templateValues: Record<string, string> = { ...values }
+  compiled.fields.forEach((field) => {
+    if (field.default_value && !templateValues[field.field_key]?.trim()) {
+      templateValues[field.field_key] = field.default_value
     }
   })
 
-  // Find all placeholders in the template
-  const placeholderRegex = /\{\{(\w+)\}\}/g
-  let match
+  // Bare keys: customization value, then template default, then profile value
+  const resolvedValues: Record<string, TemplateValue> = { ...profile.values }
+  Object.entries(templateValues).forEach(([key, value]) => {
+    if (value.trim() || !(key in resolvedValues)) {
+      resolvedValues[key] = value
+    }
+  })
+  resolvedValues.profile = { ...profile.values }
+  resolvedValues.template = templateValues
+
+  const profileTypes = new Map(profile.fields.map((field) => [field.field_key, field.field_type]))
+  // Large templates repeat the same keys many times; look each one up once per render
+  const typesByKey = new Map<string, string | null>()
+  const typeOf = (fieldKey: string) => {
+    if (!typesByKey.has(fieldKey)) typesByKey.set(fieldKey, fieldTypeOf(fieldKey, compiled.fieldTypes, profileTypes))
+    return typesByKey.get(fieldKey)!
+  }
 
-  while ((match = placeholderRegex.exec(htmlContent)) !== null) {
-    const placeholder = match[0]
-    const fieldKey = match[1]
+  return renderTemplateNodes(compiled.nodes, {
+    values: resolvedValues,
+    // Escape every value for where it lands to prevent XSS
+    escape: (value, { fieldKey, context }) => escapeForContext(value, fieldKey ? typeOf(fieldKey) : null, context),
+  })
+}
 
-    // Use provided value, fall back to default, then to empty string
-    const value = values[fieldKey] ?? defaultValues[fieldKey] ?? ''
+/**
+ * Type of the field a bare or namespaced key refers to
+ */
+function fieldTypeOf(
+  fieldKey: string,
+  fieldTypes: Map<string, string>,
+  profileTypes: Map<string, string>
+): string | null {
+  const [namespace, key] = fieldKey.includes('.') ? fieldKey.split('.') : [null, fieldKey]
+  if (namespace === 'profile') return profileTypes.get(key) ?? null
+  if (namespace === 'template') return fieldTypes.get(key) ?? null
+  return fieldTypes.get(key) ?? profileTypes.get(key) ?? null
+}
+
+/**
+ * Escapes a value for the HTML context it is inserted into: element text, an attribute,
+ * a URL, CSS or a script. URLs are limited to allowed schemes and colors must be valid.
+ */
+export function escapeForContext(value: string, fieldType: string | null, context: OutputContext): string {
+  let safe = value
 
-    // Escape HTML to prevent XSS (except for certain fields like colors)
-    const escapedValue = shouldEscapeField(fieldKey, fields)
-      ? escapeHtml(value)
-      : value
+  // Colors are mostly used in CSS; anything that isn't a color is dropped
+  if (fieldType === 'color') {
+    safe = isValidColor(safe.trim()) ? safe.trim() : ''
+  }
+
+  const isCss = context.location === 'style' || context.attribute === 'style'
+  const isUrl = context.cssUrl || (context.location === 'attribute' && URL_ATTRIBUTES.has(context.attribute ?? ''))
 
-    rendered = rendered.replace(new RegExp(placeholder, 'g'), escapedValue)
+  // Only a value at the start of a URL decides its scheme
+  if (isUrl && context.valueStart) {
+    safe = sanitizeUrl(safe)
   }
 
-  return rendered
+  if (context.cssUrl) {
+    safe = escapeCssUrl(safe)
+  } else if (isCss) {
+    safe = escapeCss(safe)
+  }
+
+  switch (context.location) {
+    case 'style':
+      return safe
+    case 'script':
+      switch (context.script) {
+        case 'string':
+          return escapeScriptString(safe)
+        case 'template':
+          return escapeScriptString(safe).replace(/`/g, '\\u0060').replace(/\$/g, '\\u0024')
+        case 'comment':
+          // Nothing can be escaped safely enough for a comment
+          return ''
+        case 'regex':
+          // Nor for a regular expression; an empty group keeps it from becoming a // comment
+          return '(?:)'
+        default:
+          // Bare code gets the value as a string literal, never as code
+          return JSON.stringify(safe).replace(/</g, '\\u003c')
+      }
+    case 'attribute':
+      // Event handler attributes run their value as a script
+      if (context.attribute?.startsWith('on')) return context.quoted ? '' : '""'
+      if (context.quoted) return escapeHtml(safe)
+      // An empty unquoted value would make the next attribute the value
+      return safe === '' && context.valueStart ? '""' : escapeUnquotedAttribute(safe)
+    case 'tag':
+      // Output between attributes can only be a bare attribute name like "hidden"
+      return safe.replace(/[^\w-]/g, '')
+    default:
+      return escapeHtml(safe)
+  }
 }
 
 /**
- * Determines if a field value should be HTML escaped
- * Color fields and certain safe fields don't need escaping
+ * Strips characters that could end a CSS declaration, rule or the <style> element
  */
-function shouldEscapeField(fieldKey: string, fields: TemplateField[]): boolean {
-  const field = fields.find((f) => f.field_key === fieldKey)
-  if (!field) return true
+function escapeCss(str: string): string {
+  return str.replace(/[<>"'`;{}\\]|\/\*|\*\//g, '').replace(/[\r\n]/g, ' ')
+}
 
-  // Colors are used in CSS, so they shouldn't be escaped but should be validated
-  if (field.field_type === 'color') {
-    return false
-  }
+/**
+ * Percent-encodes characters that could close a CSS url(...)
+ */
+function escapeCssUrl(str: string): string {
+  return str.replace(/[()'"\\<>\s]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)
+}
 
-  // Image URLs need to be kept intact
-  if (field.field_type === 'image') {
-    return false
-  }
+/**
+ * Escapes a value for use inside a '…' or "…" JavaScript string in a <script> block
+ */
+function escapeScriptString(str: string): string {
+  return JSON.stringify(str).slice(1, -1).replace(/</g, '\\u003c').replace(/'/g, '\\u0027')
+}
 
-  // URL fields
-  if (field.field_type === 'url') {
-    return false
-  }
+/**
+ * Escapes a value for an unquoted attribute, where whitespace and = also end the value
+ */
+function escapeUnquotedAttribute(str: string): string {
+  return escapeHtml(str).replace(/[\s=`]/g, (char) => `&#${char.charCodeAt(0)};`)
+}
 
-  return true
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
 }
 
 /**
  * Escapes HTML special characters to prevent XSS
  */
 export function escapeHtml(str: string): string {
-  const htmlEntities: Record<string, string> = {
-    '&': '&amp;',
-    '<': '&lt;',
-    '>': '&gt;',
-    '"': '&quot;',
-    "'": '&#39;',
-  }
-
-  return str.replace(/[&<>"']/g, (char) => htmlEntities[char])
+  return str.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char])
 }
 
 /**
- * Validates a color value (hex, rgb, or named color)
+ * Validates a color value: hex, named, rgb(), hsl(), lab(), lch(), oklab(), oklch() or color()
  */
 export function isValidColor(color: string): boolean {
-  // Hex color
-  if (/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(color)) {
-    return true
-  }
-
-  // RGB/RGBA
-  if (/^rgba?\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*(,\s*[\d.]+\s*)?\)$/.test(color)) {
-    return true
-  }
-
-  // Named colors (basic validation)
-  const namedColors = [
-    'black', 'white', 'red', 'green', 'blue', 'yellow', 'orange', 'purple',
-    'pink', 'gray', 'grey', 'brown', 'cyan', 'magenta', 'lime', 'navy',
-    'teal', 'maroon', 'olive', 'silver', 'aqua', 'fuchsia',
-  ]
-  return namedColors.includes(color.toLowerCase())
+  return parseColor(color) !== null
 }
 
 /**
@@ -135,11 +277,19 @@ export function isValidPhone(phone: string): boolean {
 }
 
 /**
- * Extracts all placeholders from an HTML template
+ * Extracts all field keys referenced by an HTML template, including those used in
+ * {{#if}}, {{#each}}, filters and fallbacks. Namespaced keys keep their prefix ("profile.phone").
  */
 export function extractPlaceholders(htmlContent: string): string[] {
+  try {
+    return collectTemplateFieldKeys(parseTemplate(htmlContent))
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error
+  }
+
+  // Unparseable HTML still reports its plain {{field_key}} and {{profile.key}} placeholders
   const placeholders: string[] = []
-  const regex = /\{\{(\w+)\}\}/g
+  const regex = /\{\{((?:profile\.|template\.)?\w+)\}\}/g
   let match
 
   while ((match = regex.exec(htmlContent)) !== null) {
@@ -190,7 +340,7 @@ export function validateFieldValue(
 
     case 'color':
       if (!isValidColor(value)) {
-        return { valid: false, error: 'Please enter a valid color (hex, rgb, or color name)' }
+        return { valid: false, error: 'Please enter a valid color (hex, rgb, hsl, oklch, or color name)' }
       }
       break
 
@@ -7,8 +7,12 @@ const PUBLIC_ROUTES = [
   '/api/auth',
   '/api/health',
   '/api/webhooks',
+  '/api/cron', // Authenticated with CRON_SECRET
 ]
 
+/** Routes that serve published pages to visitors */
+const PUBLISHED_PAGE_ROUTES = ['/p/', '/s/']
+
 function isPublicRoute(pathname: string): boolean {
   return PUBLIC_ROUTES.some((route) => pathname.startsWith(route))
 }
@@ -25,6 +29,12 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL('/auth/login', request.url))
   }
 
+  // Published pages and share links are for visitors. They skip the session refresh so public
+  // pages carry no cookies and CDNs can cache them.
+  if (PUBLISHED_PAGE_ROUTES.some((route) => pathname.startsWith(route))) {
+    return NextResponse.next()
+  }
+
   // Refresh Supabase session
   const { supabaseResponse, user } = await updateSession(request)
 
@@ -18,6 +18,8 @@ export type FieldType =
 
 export type CustomizationStatus = 'draft' | 'published'
 
+export type PageVisibility = 'public' | 'unlisted' | 'password' | 'private'
+
 export type UserRole = 'user' | 'admin'
 
 export interface Database {
@@ -126,6 +128,9 @@ export interface Database {
           published_at: string | null
           published_url: string | null
           thumbnail_url: string | null
+          slug: string | null
+          live_snapshot_id: string | null
+          visibility: PageVisibility
         }
         Insert: {
           id?: string
@@ -138,6 +143,9 @@ export interface Database {
           published_at?: string | null
           published_url?: string | null
           thumbnail_url?: string | null
+          slug?: string | null
+          live_snapshot_id?: string | null
+          visibility?: PageVisibility
         }
         Update: {
           id?: string
@@ -150,6 +158,9 @@ export interface Database {
           published_at?: string | null
           published_url?: string | null
           thumbnail_url?: string | null
+          slug?: string | null
+          live_snapshot_id?: string | null
+          visibility?: PageVisibility
         }
       }
       field_values: {
@@ -300,3 +311,48 @@ export interface CampaignUpdate {
   color?: string
   is_active?: boolean
 }
+
+// Render job types
+export type RenderJobKind = 'pdf' | 'thumbnail'
+
+export type RenderJobStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface RenderJob {
+  id: string
+  user_id: string
+  customization_id: string | null
+  kind: RenderJobKind
+  status: RenderJobStatus
+  payload: Json
+  result: Json | null
+  error: string | null
+  attempts: number
+  max_attempts: number
+  run_after: string
+  started_at: string | null
+  finished_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Publish snapshot types
+export interface PublishSnapshot {
+  id: string
+  customization_id: string
+  user_id: string
+  html: string
+  template_id: string | null
+  template_version: string | null
+  created_at: string
+}
+
+// Share link types
+export interface ShareLink {
+  id: string
+  customization_id: string
+  user_id: string
+  token: string
+  expires_at: string
+  revoked_at: string | null
+  created_at: string
+}
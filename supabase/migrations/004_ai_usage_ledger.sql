@@ -0,0 +1,44 @@
+-- Usage ledger: one row per AI provider call (tokens, cost, latency)
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  customization_id UUID REFERENCES customizations(id) ON DELETE SET NULL,
+  template_id UUID REFERENCES listing_templates(id) ON DELETE SET NULL,
+  operation TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  -- Cost in USD at the pricing configured when the call was made
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'success' CHECK (status IN ('success', 'error', 'cancelled')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at ON ai_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_id ON ai_usage(user_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_template_id ON ai_usage(template_id);
+
+-- RLS: rows are written with the service role; only admins can read them
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ai_usage"
+  ON ai_usage FOR SELECT
+  USING (is_admin());
+
+-- Per-model pricing in USD per 1M tokens, editable from the admin settings page.
+-- Keys are model name prefixes, so "gpt-4o" also prices "gpt-4o-2024-08-06".
+INSERT INTO app_settings (key, value)
+VALUES (
+  'ai_pricing',
+  '{
+    "models": {
+      "claude-sonnet-4": { "input": 3.00, "output": 15.00 },
+      "gpt-4o-mini": { "input": 0.15, "output": 0.60 },
+      "gpt-4o": { "input": 2.50, "output": 10.00 },
+      "fixture-echo": { "input": 0, "output": 0 }
+    }
+  }'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
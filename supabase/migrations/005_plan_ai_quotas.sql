@@ -0,0 +1,28 @@
+-- Monthly AI quotas per allowed plan (NULL = unlimited)
+ALTER TABLE allowed_plans ADD COLUMN IF NOT EXISTS monthly_generation_limit INTEGER;
+ALTER TABLE allowed_plans ADD COLUMN IF NOT EXISTS monthly_token_limit BIGINT;
+
+-- Quota for users whose plan has no allowed_plans row (NULL limits = unlimited)
+INSERT INTO app_settings (key, value)
+VALUES (
+  'ai_default_quota',
+  '{ "monthly_generation_limit": null, "monthly_token_limit": null }'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- Successful generations and tokens a user has consumed since a point in time.
+-- Counts only user-facing AI operations (customize + edit), not admin tooling.
+CREATE OR REPLACE FUNCTION ai_usage_totals(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (generations BIGINT, tokens BIGINT) AS $$
+  SELECT
+    COUNT(*) AS generations,
+    COALESCE(SUM(input_tokens + output_tokens), 0) AS tokens
+  FROM ai_usage
+  WHERE user_id = p_user_id
+    AND created_at >= p_since
+    AND status = 'success'
+    AND operation IN ('customize', 'edit');
+$$ LANGUAGE sql STABLE;
+
+-- Quota checks run with the service role; users read their totals via /api/ai/quota
+REVOKE EXECUTE ON FUNCTION ai_usage_totals(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
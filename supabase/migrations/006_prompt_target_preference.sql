@@ -0,0 +1,2 @@
+-- Remember which assistant / format each user generates prompts for
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS prompt_target TEXT NOT NULL DEFAULT 'claude-artifact';
@@ -0,0 +1,16 @@
+-- Template sizes are print format ids from src/lib/print-formats.ts.
+-- Sizes outside the catalogue are set in the template editor as "custom:<width>x<height>" (inches).
+-- Templates left on the old free-text "custom" size render as Letter until an admin sets theirs.
+UPDATE listing_templates
+SET size = CASE size
+  WHEN '8.5x11 inches' THEN 'letter'
+  WHEN '8.5x14 inches' THEN 'legal'
+  WHEN '11x17 inches' THEN 'tabloid'
+  WHEN 'A4' THEN 'a4'
+  WHEN 'A5' THEN 'a5'
+  WHEN '5x7 inches' THEN 'print_5x7'
+  WHEN '4x6 inches' THEN 'postcard_4x6'
+  WHEN '6x9 inches' THEN 'postcard_6x9'
+  WHEN '9x12 inches' THEN 'print_9x12'
+END
+WHERE size IN ('8.5x11 inches', '8.5x14 inches', '11x17 inches', 'A4', 'A5', '5x7 inches', '4x6 inches', '6x9 inches', '9x12 inches');
@@ -0,0 +1,66 @@
+-- Background render jobs: PDF exports and design thumbnails run outside the HTTP request
+CREATE TABLE IF NOT EXISTS render_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  customization_id UUID REFERENCES customizations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('pdf', 'thumbnail')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+  -- Render input (HTML, size, print options); thumbnails read the design when they run
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Output URLs and reports once done
+  result JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  -- Retries are scheduled by pushing this forward
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_render_jobs_status_run_after ON render_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_render_jobs_user_id ON render_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_render_jobs_customization_id ON render_jobs(customization_id);
+
+CREATE TRIGGER update_render_jobs_updated_at
+  BEFORE UPDATE ON render_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: jobs are written by the worker with the service role; users poll their own
+ALTER TABLE render_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own render jobs"
+  ON render_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Claims the next due job for a worker. SKIP LOCKED lets several workers claim at once
+-- without taking the same job. Jobs left running by a worker that died are picked up again
+-- after 10 minutes, or failed once they are out of attempts.
+CREATE OR REPLACE FUNCTION claim_render_job()
+RETURNS SETOF render_jobs AS $$
+BEGIN
+  UPDATE render_jobs
+  SET status = 'failed', error = 'Render timed out', finished_at = NOW()
+  WHERE status = 'running'
+    AND started_at < NOW() - INTERVAL '10 minutes'
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE render_jobs
+  SET status = 'running', attempts = attempts + 1, started_at = NOW()
+  WHERE id = (
+    SELECT id FROM render_jobs
+    WHERE (status = 'queued' AND run_after <= NOW())
+       OR (status = 'running' AND started_at < NOW() - INTERVAL '10 minutes')
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the worker (service role) claims jobs
+REVOKE EXECUTE ON FUNCTION claim_render_job() FROM PUBLIC, anon, authenticated;
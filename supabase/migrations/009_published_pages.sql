@@ -0,0 +1,14 @@
+-- Published designs are served at /p/<slug> from the HTML captured when they were published
+ALTER TABLE customizations ADD COLUMN IF NOT EXISTS slug TEXT;
+ALTER TABLE customizations ADD COLUMN IF NOT EXISTS published_html TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customizations_slug ON customizations(slug) WHERE slug IS NOT NULL;
+
+-- Designs published before slugs existed get one from their name; the id prefix keeps it unique.
+UPDATE customizations
+SET slug = trim(both '-' from left(regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g'), 70)) || '-' || left(id::text, 8)
+WHERE status = 'published' AND slug IS NULL;
+
+UPDATE customizations
+SET published_url = '/p/' || slug
+WHERE status = 'published' AND slug IS NOT NULL;
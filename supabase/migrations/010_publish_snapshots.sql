@@ -0,0 +1,35 @@
+-- Each publish stores an immutable copy of the page; the customization points at the one that is live.
+-- Template edits don't change published pages, and agents can roll back to an earlier publish.
+CREATE TABLE IF NOT EXISTS publish_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  customization_id UUID NOT NULL REFERENCES customizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  html TEXT NOT NULL,
+  -- The template the page was rendered from, and its updated_at at the time
+  template_id UUID REFERENCES listing_templates(id) ON DELETE SET NULL,
+  template_version TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_publish_snapshots_customization_id ON publish_snapshots(customization_id, created_at DESC);
+
+ALTER TABLE customizations
+  ADD COLUMN IF NOT EXISTS live_snapshot_id UUID REFERENCES publish_snapshots(id) ON DELETE SET NULL;
+
+-- RLS: owners create and read their snapshots. There are no update or delete policies, so
+-- snapshots can't be changed once written.
+ALTER TABLE publish_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own publish snapshots"
+  ON publish_snapshots FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own publish snapshots"
+  ON publish_snapshots FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Pages that are already published get their first snapshot from the app when they are first
+-- opened (snapshotLegacyPage in src/lib/published-pages.ts), which renders and sanitizes them
+-- like a publish. Copying published_html or rendered_html here would skip the sanitizer, and
+-- pages rendered from field values have neither. They are frozen at their design at that time.
+ALTER TABLE customizations DROP COLUMN IF EXISTS published_html;
@@ -0,0 +1,50 @@
+-- Who can open a published page at /p/<slug>:
+--   public    - anyone; search engines may index it
+--   unlisted  - anyone with the link; kept out of search engines
+--   password  - visitors enter the page password first
+--   private   - nobody; it can still be shared with share links
+ALTER TABLE customizations ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'public'
+  CHECK (visibility IN ('public', 'unlisted', 'password', 'private'));
+
+-- Page password hashes live apart from customizations so they never reach the browser.
+-- RLS without policies leaves them to the service role.
+CREATE TABLE IF NOT EXISTS page_passwords (
+  customization_id UUID PRIMARY KEY REFERENCES customizations(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TRIGGER update_page_passwords_updated_at
+  BEFORE UPDATE ON page_passwords
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE page_passwords ENABLE ROW LEVEL SECURITY;
+
+-- Share links open the live page at /s/<token> whatever its visibility, until they expire or are revoked
+CREATE TABLE IF NOT EXISTS share_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  customization_id UUID NOT NULL REFERENCES customizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_customization_id ON share_links(customization_id, created_at DESC);
+
+-- RLS: owners manage their links; visitors are served with the service role
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own share links"
+  ON share_links FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own share links"
+  ON share_links FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own share links"
+  ON share_links FOR UPDATE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+-- Cancelled and failed generations count toward the quota too. Otherwise a user could stream
+-- a customization and disconnect just before it finished to get it for free.
+CREATE OR REPLACE FUNCTION ai_usage_totals(p_user_id UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (generations BIGINT, tokens BIGINT) AS $$
+  SELECT
+    COUNT(*) AS generations,
+    COALESCE(SUM(input_tokens + output_tokens), 0) AS tokens
+  FROM ai_usage
+  WHERE user_id = p_user_id
+    AND created_at >= p_since
+    AND operation IN ('customize', 'edit');
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION ai_usage_totals(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- AI quotas come from the role and plan columns on profiles, and "Users can update own profile"
+-- lets users write any column of their row. Only the service role (the ll-callback plan sync and
+-- admin tooling) may change them.
+CREATE OR REPLACE FUNCTION protect_profile_plan_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') IN ('anon', 'authenticated') AND (
+    NEW.role IS DISTINCT FROM OLD.role OR
+    NEW.plan_name IS DISTINCT FROM OLD.plan_name OR
+    NEW.active_plan_ids IS DISTINCT FROM OLD.active_plan_ids OR
+    NEW.is_team_member IS DISTINCT FROM OLD.is_team_member OR
+    NEW.memberstack_id IS DISTINCT FROM OLD.memberstack_id
+  ) THEN
+    RAISE EXCEPTION 'Role and plan columns can only be changed by the server'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_profile_plan_columns ON profiles;
+CREATE TRIGGER protect_profile_plan_columns
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_plan_columns();
@@ -0,0 +1,46 @@
+-- Snapshots are written only by the publish route, with the service role. With an insert policy a
+-- user could store arbitrary HTML as a snapshot without it passing through the sanitizer.
+DROP POLICY IF EXISTS "Users can create own publish snapshots" ON publish_snapshots;
+
+-- "Users can insert/update own customizations" lets users write any column of their rows, which
+-- would let them point live_snapshot_id at another user's snapshot or take any slug. Only the
+-- service role (the publish and rollback routes) may change the publish state.
+CREATE OR REPLACE FUNCTION protect_customization_publish_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND (
+    NEW.status <> 'draft' OR
+    NEW.live_snapshot_id IS NOT NULL OR
+    NEW.slug IS NOT NULL OR
+    NEW.published_at IS NOT NULL OR
+    NEW.published_url IS NOT NULL
+  ) OR TG_OP = 'UPDATE' AND (
+    NEW.status IS DISTINCT FROM OLD.status OR
+    NEW.live_snapshot_id IS DISTINCT FROM OLD.live_snapshot_id OR
+    NEW.slug IS DISTINCT FROM OLD.slug OR
+    NEW.published_at IS DISTINCT FROM OLD.published_at OR
+    NEW.published_url IS DISTINCT FROM OLD.published_url
+  ) THEN
+    RAISE EXCEPTION 'Publish columns can only be changed by the server'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_customization_publish_columns ON customizations;
+CREATE TRIGGER protect_customization_publish_columns
+  BEFORE INSERT OR UPDATE ON customizations
+  FOR EACH ROW EXECUTE FUNCTION protect_customization_publish_columns();
+
+-- Slugs follow SLUG_PATTERN and MAX_SLUG_LENGTH in src/lib/published-pages.ts; uniqueness is
+-- idx_customizations_slug. NOT VALID leaves slugs generated by 009 for old pages as they are.
+ALTER TABLE customizations DROP CONSTRAINT IF EXISTS customizations_slug_format;
+ALTER TABLE customizations
+  ADD CONSTRAINT customizations_slug_format
+  CHECK (slug IS NULL OR (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND length(slug) <= 80))
+  NOT VALID;
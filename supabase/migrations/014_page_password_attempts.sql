@@ -0,0 +1,13 @@
+-- Failed page password attempts, so /p/<slug> can throttle guessing per page and visitor IP.
+-- Rows older than the throttle window are pruned as new attempts are recorded.
+CREATE TABLE IF NOT EXISTS page_password_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  customization_id UUID NOT NULL REFERENCES customizations(id) ON DELETE CASCADE,
+  ip TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_password_attempts_lookup ON page_password_attempts(customization_id, ip, created_at DESC);
+
+-- RLS without policies leaves attempts to the service role
+ALTER TABLE page_password_attempts ENABLE ROW LEVEL SECURITY;
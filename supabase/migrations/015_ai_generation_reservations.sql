@@ -0,0 +1,48 @@
+-- AI routes reserve a generation before calling the provider: a pending ai_usage row, inserted only
+-- while the user is under their limits. Checking the totals first and recording usage after the
+-- call let parallel requests all pass the check. The row is settled with the call's usage when it
+-- ends; one left pending (the server died mid-call) still counts as a generation.
+ALTER TABLE ai_usage DROP CONSTRAINT IF EXISTS ai_usage_status_check;
+ALTER TABLE ai_usage
+  ADD CONSTRAINT ai_usage_status_check CHECK (status IN ('pending', 'success', 'error', 'cancelled'));
+
+-- Returns the pending row's id, or NULL when the generation or token limit (NULL = unlimited) is
+-- used up. The advisory lock serializes reservations per user for the rest of the transaction.
+CREATE OR REPLACE FUNCTION reserve_ai_generation(
+  p_user_id UUID,
+  p_since TIMESTAMPTZ,
+  p_generation_limit INTEGER,
+  p_token_limit BIGINT,
+  p_operation TEXT,
+  p_provider TEXT,
+  p_model TEXT,
+  p_customization_id UUID,
+  p_template_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_generations BIGINT;
+  v_tokens BIGINT;
+  v_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended('ai_usage:' || p_user_id::text, 0));
+
+  SELECT generations, tokens INTO v_generations, v_tokens
+  FROM ai_usage_totals(p_user_id, p_since);
+
+  IF (p_generation_limit IS NOT NULL AND v_generations >= p_generation_limit) OR
+     (p_token_limit IS NOT NULL AND v_tokens >= p_token_limit) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ai_usage (user_id, customization_id, template_id, operation, provider, model, status)
+  VALUES (p_user_id, p_customization_id, p_template_id, p_operation, p_provider, p_model, 'pending')
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reservations are made with the service role, after the route has resolved the user's limits
+REVOKE EXECUTE ON FUNCTION reserve_ai_generation(UUID, TIMESTAMPTZ, INTEGER, BIGINT, TEXT, TEXT, TEXT, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;